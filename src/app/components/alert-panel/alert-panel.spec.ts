@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+
+import { AlertPanelComponent } from './alert-panel';
+
+describe('AlertPanelComponent', () => {
+  let component: AlertPanelComponent;
+  let fixture: ComponentFixture<AlertPanelComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [AlertPanelComponent],
+      providers: [provideZonelessChangeDetection()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(AlertPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,61 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import {
+  AlertRuleId,
+  AlertRuleSettings,
+  VesselAlert,
+  ALERT_RULE_LABELS,
+  DEFAULT_ALERT_RULE_SETTINGS
+} from '../../services/alert-engine.service';
+import { Geofence } from '../../services/geofence.service';
+
+@Component({
+  selector: 'app-alert-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatSlideToggleModule,
+    MatExpansionModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule
+  ],
+  templateUrl: './alert-panel.html',
+  styleUrls: ['./alert-panel.scss']
+})
+export class AlertPanelComponent {
+  @Input() settings: AlertRuleSettings = DEFAULT_ALERT_RULE_SETTINGS;
+  @Input() alerts: VesselAlert[] = [];
+  @Input() geofences: Geofence[] = [];
+
+  @Output() ruleChange = new EventEmitter<{ rule: AlertRuleId; changes: Record<string, unknown> }>();
+  @Output() focusAlert = new EventEmitter<string>();
+  @Output() clearAlerts = new EventEmitter<void>();
+
+  readonly ruleLabels = ALERT_RULE_LABELS;
+  readonly severityIcons: Record<VesselAlert['severity'], string> = {
+    info: 'info',
+    warning: 'warning',
+    critical: 'error'
+  };
+
+  onRuleChange(rule: AlertRuleId, key: string, value: unknown) {
+    if (typeof value === 'number' && !(value > 0)) return;
+    this.ruleChange.emit({ rule, changes: { [key]: value } });
+  }
+
+  trackByAlertId(index: number, alert: VesselAlert): string {
+    return alert.id;
+  }
+}
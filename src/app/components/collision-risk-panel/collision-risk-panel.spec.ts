@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+
+import { CollisionRiskPanelComponent } from './collision-risk-panel';
+
+describe('CollisionRiskPanelComponent', () => {
+  let component: CollisionRiskPanelComponent;
+  let fixture: ComponentFixture<CollisionRiskPanelComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CollisionRiskPanelComponent],
+      providers: [provideZonelessChangeDetection()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(CollisionRiskPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,57 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { CollisionRisk, CollisionRiskSettings } from '../../services/collision-risk.service';
+
+@Component({
+  selector: 'app-collision-risk-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule
+  ],
+  templateUrl: './collision-risk-panel.html',
+  styleUrls: ['./collision-risk-panel.scss']
+})
+export class CollisionRiskPanelComponent {
+  @Input() risks: CollisionRisk[] = [];
+  @Input() set settings(value: CollisionRiskSettings) {
+    this.cpaThresholdNm = value.cpaThresholdNm;
+    this.tcpaThresholdMin = value.tcpaThresholdMin;
+  }
+
+  @Output() settingsChange = new EventEmitter<Partial<CollisionRiskSettings>>();
+  @Output() focusRisk = new EventEmitter<string>();
+
+  // Form Data
+  cpaThresholdNm = 0.5;
+  tcpaThresholdMin = 20;
+
+  get dangerCount(): number {
+    return this.risks.filter(risk => risk.level === 'danger').length;
+  }
+
+  onThresholdChange() {
+    if (!(this.cpaThresholdNm > 0) || !(this.tcpaThresholdMin > 0)) return;
+    this.settingsChange.emit({
+      cpaThresholdNm: this.cpaThresholdNm,
+      tcpaThresholdMin: this.tcpaThresholdMin
+    });
+  }
+
+  onFocusRisk(risk: CollisionRisk) {
+    this.focusRisk.emit(risk.id);
+  }
+
+  trackByRiskId(index: number, risk: CollisionRisk): string {
+    return risk.id;
+  }
+}
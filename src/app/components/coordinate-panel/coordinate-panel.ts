@@ -0,0 +1,76 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import {
+  COORDINATE_FORMATS,
+  CoordinateFormat,
+  MapCoordinateService,
+  ParsedPosition
+} from '../../services/map-coordinate.service';
+
+export interface CoordinateGoToRequest {
+  lat: number;
+  lng: number;
+  label: string;
+}
+
+@Component({
+  selector: 'app-coordinate-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatTooltipModule
+  ],
+  templateUrl: './coordinate-panel.html',
+  styleUrls: ['./coordinate-panel.scss']
+})
+export class CoordinatePanelComponent {
+  @Input() format: CoordinateFormat = 'dd';
+
+  @Output() goTo = new EventEmitter<CoordinateGoToRequest>();
+  @Output() clearMarker = new EventEmitter<void>();
+  @Output() formatChange = new EventEmitter<CoordinateFormat>();
+
+  readonly formats = COORDINATE_FORMATS;
+
+  // Form Data
+  input = '';
+  label = '';
+  parsed: ParsedPosition | null = null;
+
+  constructor(private coordinateService: MapCoordinateService) {}
+
+  get hasError(): boolean {
+    return this.input.trim().length > 0 && !this.parsed;
+  }
+
+  get parsedFormatLabel(): string {
+    return this.formats.find(format => format.value === this.parsed?.format)?.label ?? '';
+  }
+
+  get preview(): string {
+    return this.parsed ? this.coordinateService.formatPosition(this.parsed.lat, this.parsed.lng, 'dd') : '';
+  }
+
+  onInputChange(value: string) {
+    this.input = value;
+    this.parsed = this.coordinateService.parse(value);
+  }
+
+  onGoTo() {
+    if (!this.parsed) return;
+    this.goTo.emit({ lat: this.parsed.lat, lng: this.parsed.lng, label: this.label.trim() });
+  }
+}
@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+
+import { DarkPeriodPanelComponent } from './dark-period-panel';
+
+describe('DarkPeriodPanelComponent', () => {
+  let component: DarkPeriodPanelComponent;
+  let fixture: ComponentFixture<DarkPeriodPanelComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DarkPeriodPanelComponent],
+      providers: [provideZonelessChangeDetection()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(DarkPeriodPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,39 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { DarkPeriod } from '../../services/dark-period.service';
+
+@Component({
+  selector: 'app-dark-period-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatIconModule,
+    MatButtonModule
+  ],
+  templateUrl: './dark-period-panel.html',
+  styleUrls: ['./dark-period-panel.scss']
+})
+export class DarkPeriodPanelComponent {
+  @Input() periods: DarkPeriod[] = [];
+
+  @Output() focusPeriod = new EventEmitter<string>();
+  @Output() exportCsv = new EventEmitter<void>();
+  @Output() exportGeoJson = new EventEmitter<void>();
+  @Output() clearPeriods = new EventEmitter<void>();
+
+  get ongoingCount(): number {
+    return this.periods.filter(period => period.status === 'ongoing').length;
+  }
+
+  formatDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+  }
+
+  trackByPeriodId(index: number, period: DarkPeriod): string {
+    return period.id;
+  }
+}
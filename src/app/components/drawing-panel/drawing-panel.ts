@@ -0,0 +1,122 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import {
+  DRAW_TOOLS,
+  DrawingHistoryState,
+  DrawnShape,
+  DrawTool,
+  ShapeStyle,
+  ShapeVessel,
+  describeShape
+} from '../../services/map-drawing.service';
+
+export type ShapeUpdate = {
+  id: string;
+  changes: Partial<Pick<DrawnShape, 'name' | 'radiusM' | 'bufferM'>> & { style?: Partial<ShapeStyle> };
+};
+
+@Component({
+  selector: 'app-drawing-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatTooltipModule
+  ],
+  templateUrl: './drawing-panel.html',
+  styleUrls: ['./drawing-panel.scss']
+})
+export class DrawingPanelComponent {
+  @Input() shapes: DrawnShape[] = [];
+  @Input() activeTool: DrawTool | null = null;
+  @Input() editingId: string | null = null;
+  @Input() history: DrawingHistoryState = { canUndo: false, canRedo: false };
+  @Input() vesselsInside: Record<string, ShapeVessel[]> = {};
+
+  @Output() startTool = new EventEmitter<{ tool: DrawTool; bufferNm: number }>();
+  @Output() cancelTool = new EventEmitter<void>();
+  @Output() undo = new EventEmitter<void>();
+  @Output() redo = new EventEmitter<void>();
+  @Output() updateShape = new EventEmitter<ShapeUpdate>();
+  @Output() editShape = new EventEmitter<string>();
+  @Output() stopEditing = new EventEmitter<void>();
+  @Output() focusShape = new EventEmitter<string>();
+  @Output() removeShape = new EventEmitter<string>();
+  @Output() clearAll = new EventEmitter<void>();
+  @Output() selectVessel = new EventEmitter<number>();
+
+  readonly tools = DRAW_TOOLS;
+  readonly NM_IN_METERS = 1852;
+
+  // Form Data
+  bufferNm = 1;
+  expandedId: string | null = null;
+
+  get activeHint(): string {
+    return this.tools.find(tool => tool.value === this.activeTool)?.hint ?? '';
+  }
+
+  onToolChange(tool: DrawTool | null) {
+    if (tool) {
+      this.startTool.emit({ tool, bufferNm: this.bufferNm });
+    } else {
+      this.cancelTool.emit();
+    }
+  }
+
+  toolIcon(type: DrawTool): string {
+    return this.tools.find(tool => tool.value === type)?.icon ?? 'edit';
+  }
+
+  summary(shape: DrawnShape): string {
+    return describeShape(shape);
+  }
+
+  onStyleChange(id: string, key: keyof ShapeStyle, value: string | number | boolean) {
+    this.updateShape.emit({ id, changes: { style: { [key]: value } } });
+  }
+
+  onNameChange(shape: DrawnShape, name: string) {
+    if (name.trim() && name.trim() !== shape.name) this.updateShape.emit({ id: shape.id, changes: { name: name.trim() } });
+  }
+
+  distanceNm(shape: DrawnShape): number {
+    const meters = (shape.type === 'circle' ? shape.radiusM : shape.bufferM) ?? 0;
+    return Math.round(meters / this.NM_IN_METERS * 100) / 100;
+  }
+
+  onDistanceChange(shape: DrawnShape, nm: number) {
+    if (!(nm > 0)) return;
+    const key = shape.type === 'circle' ? 'radiusM' : 'bufferM';
+    this.updateShape.emit({ id: shape.id, changes: { [key]: nm * this.NM_IN_METERS } });
+  }
+
+  toggleExpanded(shape: DrawnShape) {
+    this.expandedId = this.expandedId === shape.id ? null : shape.id;
+    if (this.expandedId) this.focusShape.emit(shape.id);
+  }
+
+  onClearAll() {
+    if (confirm(`Delete all ${this.shapes.length} shapes?`)) this.clearAll.emit();
+  }
+
+  trackByShapeId(index: number, shape: DrawnShape): string {
+    return shape.id;
+  }
+
+  trackByMmsi(index: number, vessel: ShapeVessel): number {
+    return vessel.mmsi;
+  }
+}
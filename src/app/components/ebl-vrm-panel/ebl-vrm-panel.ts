@@ -0,0 +1,90 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { EblVrm } from '../../services/map-measurement.service';
+import { PlayVessel } from '../../services/playback.service';
+
+@Component({
+  selector: 'app-ebl-vrm-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatTooltipModule
+  ],
+  templateUrl: './ebl-vrm-panel.html',
+  styleUrls: ['./ebl-vrm-panel.scss']
+})
+export class EblVrmPanelComponent {
+  @Input() items: EblVrm[] = [];
+  @Input() availableVessels: PlayVessel[] = [];
+  @Input() pickingAnchor = false;
+
+  @Output() pickAnchor = new EventEmitter<void>();
+  @Output() cancelPick = new EventEmitter<void>();
+  @Output() anchorToVessel = new EventEmitter<number>();
+  @Output() updateItem = new EventEmitter<{ id: string; changes: Partial<Pick<EblVrm, 'bearingDeg' | 'rangeNm'>> }>();
+  @Output() removeItem = new EventEmitter<string>();
+  @Output() clearAll = new EventEmitter<void>();
+
+  readonly maxItems = 4;
+
+  // Form Data
+  selectedMmsi: string | null = null;
+
+  // Last value per item so a re-enabled EBL/VRM comes back where it was
+  private lastBearing = new Map<string, number>();
+  private lastRange = new Map<string, number>();
+
+  get canAdd(): boolean {
+    return this.items.length < this.maxItems;
+  }
+
+  onAnchorToVessel() {
+    if (!this.selectedMmsi) return;
+    this.anchorToVessel.emit(parseInt(this.selectedMmsi, 10));
+    this.selectedMmsi = null;
+  }
+
+  anchorLabel(item: EblVrm): string {
+    if (item.anchor.type === 'vessel') {
+      return item.anchor.name || `MMSI ${item.anchor.mmsi}`;
+    }
+    return `${item.anchor.lat.toFixed(4)}, ${item.anchor.lng.toFixed(4)}`;
+  }
+
+  toggleEbl(item: EblVrm, enabled: boolean) {
+    if (!enabled && item.bearingDeg !== null) this.lastBearing.set(item.id, item.bearingDeg);
+    this.updateItem.emit({ id: item.id, changes: { bearingDeg: enabled ? (this.lastBearing.get(item.id) ?? 0) : null } });
+  }
+
+  toggleVrm(item: EblVrm, enabled: boolean) {
+    if (!enabled && item.rangeNm !== null) this.lastRange.set(item.id, item.rangeNm);
+    this.updateItem.emit({ id: item.id, changes: { rangeNm: enabled ? (this.lastRange.get(item.id) ?? 1) : null } });
+  }
+
+  onBearingChange(item: EblVrm, value: number) {
+    if (isFinite(value)) this.updateItem.emit({ id: item.id, changes: { bearingDeg: value } });
+  }
+
+  onRangeChange(item: EblVrm, value: number) {
+    if (value > 0) this.updateItem.emit({ id: item.id, changes: { rangeNm: value } });
+  }
+
+  trackByItemId(index: number, item: EblVrm): string {
+    return item.id;
+  }
+}
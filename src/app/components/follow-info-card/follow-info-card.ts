@@ -0,0 +1,64 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { FollowState, HeadingUpView } from '../../services/vessel-follow.service';
+
+@Component({
+  selector: 'app-follow-info-card',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatIconModule,
+    MatButtonModule,
+    MatTooltipModule
+  ],
+  templateUrl: './follow-info-card.html',
+  styleUrls: ['./follow-info-card.scss']
+})
+export class FollowInfoCardComponent {
+  @Input() state: FollowState | null = null;
+
+  @Output() stopFollow = new EventEmitter<void>();
+  @Output() headingUpChange = new EventEmitter<boolean>();
+
+  // ✅ Heading-up inset geometry (SVG units)
+  readonly viewCenter = 90;
+  readonly viewRadius = 80;
+
+  // AIS heading 511 means "not available"
+  get heading(): number | null {
+    const heading = this.state?.vessel?.heading;
+    return heading !== undefined && heading < 360 ? heading : null;
+  }
+
+  // AIS ETA comes as free text from the feed; show it as-is when it does not parse
+  get eta(): string {
+    const eta = this.state?.vessel?.eta;
+    if (!eta) return '-';
+    const date = new Date(eta);
+    return isNaN(date.getTime())
+      ? eta
+      : date.toLocaleString('id-ID', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+  }
+
+  getTrailPoints(view: HeadingUpView): string {
+    const scale = this.viewRadius / view.rangeNm;
+    return view.trail
+      .map(([x, y]) => `${(this.viewCenter + x * scale).toFixed(1)},${(this.viewCenter - y * scale).toFixed(1)}`)
+      .join(' ');
+  }
+
+  // The compass rose turns against the heading so north stays true to the chart
+  getCompassTransform(view: HeadingUpView): string {
+    return `rotate(${-view.headingDeg} ${this.viewCenter} ${this.viewCenter})`;
+  }
+
+  getTimeAgo(timestamp: Date | string): string {
+    const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m ago`;
+  }
+}
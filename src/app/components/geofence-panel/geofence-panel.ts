@@ -0,0 +1,50 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { Geofence, GeofenceAlert, GEOFENCE_TYPES } from '../../services/geofence.service';
+
+@Component({
+  selector: 'app-geofence-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatIconModule,
+    MatButtonModule,
+    MatTooltipModule
+  ],
+  templateUrl: './geofence-panel.html',
+  styleUrls: ['./geofence-panel.scss']
+})
+export class GeofencePanelComponent {
+  @Input() geofences: Geofence[] = [];
+  @Input() alerts: GeofenceAlert[] = [];
+
+  @Output() focusGeofence = new EventEmitter<string>();
+  @Output() removeGeofence = new EventEmitter<string>();
+  @Output() clearAlerts = new EventEmitter<void>();
+
+  readonly alertIcons: Record<GeofenceAlert['type'], string> = {
+    enter: 'login',
+    exit: 'logout',
+    dwell: 'schedule'
+  };
+
+  getTypeLabel(geofence: Geofence): string {
+    return GEOFENCE_TYPES.find(type => type.value === geofence.type)?.label ?? geofence.type;
+  }
+
+  getTypeColor(geofence: Geofence): string {
+    return GEOFENCE_TYPES.find(type => type.value === geofence.type)?.color ?? '#8B5CF6';
+  }
+
+  onRemove(event: Event, geofence: Geofence) {
+    event.stopPropagation();
+    this.removeGeofence.emit(geofence.id);
+  }
+
+  trackById(index: number, item: { id: string }): string {
+    return item.id;
+  }
+}
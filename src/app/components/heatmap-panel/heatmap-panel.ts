@@ -0,0 +1,105 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSliderModule } from '@angular/material/slider';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatNativeDateModule } from '@angular/material/core';
+import {
+  HeatmapSettings,
+  HeatmapSource,
+  HeatmapState,
+  HeatmapWeighting,
+  DEFAULT_HEATMAP_SETTINGS,
+  HEATMAP_GRADIENT
+} from '../../services/heatmap.service';
+import { VESSEL_CATEGORIES } from '../../services/vessel-filter.service';
+
+@Component({
+  selector: 'app-heatmap-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatSlideToggleModule,
+    MatSelectModule,
+    MatSliderModule,
+    MatFormFieldModule,
+    MatDatepickerModule,
+    MatInputModule,
+    MatProgressBarModule,
+    MatNativeDateModule
+  ],
+  templateUrl: './heatmap-panel.html',
+  styleUrls: ['./heatmap-panel.scss']
+})
+export class HeatmapPanelComponent {
+  @Input() state: HeatmapState | null = null;
+  @Input() set settings(value: HeatmapSettings) {
+    this.radius = value.radius;
+    this.blur = value.blur;
+    this.intensity = value.intensity;
+    this.weighting = value.weighting;
+    this.category = value.category;
+  }
+
+  @Output() visibleChange = new EventEmitter<boolean>();
+  @Output() showLive = new EventEmitter<void>();
+  @Output() loadHistory = new EventEmitter<{ startDate: Date; endDate: Date }>();
+  @Output() cancelHistory = new EventEmitter<void>();
+  @Output() settingsChange = new EventEmitter<Partial<HeatmapSettings>>();
+
+  readonly categories = VESSEL_CATEGORIES;
+  readonly legendGradient = `linear-gradient(to right, ${HEATMAP_GRADIENT.map(({ stop, color }) => `${color} ${stop * 100}%`).join(', ')})`;
+  readonly weightings: { value: HeatmapWeighting; label: string }[] = [
+    { value: 'count', label: 'Vessel count' },
+    { value: 'time', label: 'Time spent' },
+    { value: 'type', label: 'Vessel type' }
+  ];
+
+  // Form Data
+  source: HeatmapSource = 'live';
+  startDate: Date = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+  endDate: Date = new Date();
+  radius = DEFAULT_HEATMAP_SETTINGS.radius;
+  blur = DEFAULT_HEATMAP_SETTINGS.blur;
+  intensity = DEFAULT_HEATMAP_SETTINGS.intensity;
+  weighting = DEFAULT_HEATMAP_SETTINGS.weighting;
+  category = DEFAULT_HEATMAP_SETTINGS.category;
+
+  canLoadHistory(): boolean {
+    return !!this.startDate && !!this.endDate && this.startDate < this.endDate && !this.state?.loading;
+  }
+
+  onSourceChange(source: HeatmapSource) {
+    this.source = source;
+    if (source === 'live') {
+      this.showLive.emit();
+    }
+  }
+
+  onLoadHistory() {
+    if (!this.canLoadHistory()) return;
+    this.loadHistory.emit({ startDate: this.startDate, endDate: this.endDate });
+  }
+
+  onSettingsChange() {
+    this.settingsChange.emit({
+      radius: this.radius,
+      blur: this.blur,
+      intensity: this.intensity,
+      weighting: this.weighting,
+      category: this.category
+    });
+  }
+}
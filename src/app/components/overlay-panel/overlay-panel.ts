@@ -0,0 +1,60 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { VectorOverlay, OverlayStyle, OVERLAY_FILE_ACCEPT } from '../../services/overlay.service';
+
+@Component({
+  selector: 'app-overlay-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatIconModule,
+    MatButtonModule,
+    MatSlideToggleModule,
+    MatTooltipModule,
+    MatProgressBarModule
+  ],
+  templateUrl: './overlay-panel.html',
+  styleUrls: ['./overlay-panel.scss']
+})
+export class OverlayPanelComponent {
+  @Input() overlays: VectorOverlay[] = [];
+  @Input() isImporting = false;
+
+  @Output() importFiles = new EventEmitter<File[]>();
+  @Output() toggleOverlay = new EventEmitter<{ id: string; visible: boolean }>();
+  @Output() styleChange = new EventEmitter<{ id: string; style: Partial<OverlayStyle> }>();
+  @Output() zoomToOverlay = new EventEmitter<string>();
+  @Output() removeOverlay = new EventEmitter<string>();
+
+  readonly accept = OVERLAY_FILE_ACCEPT;
+  readonly formatIcons: Record<VectorOverlay['format'], string> = {
+    geojson: 'data_object',
+    kml: 'public',
+    shapefile: 'folder_zip'
+  };
+
+  expandedId: string | null = null;
+
+  onFilesSelected(input: HTMLInputElement) {
+    const files = Array.from(input.files ?? []);
+    if (files.length > 0) this.importFiles.emit(files);
+    input.value = '';
+  }
+
+  onStyleChange(id: string, key: keyof OverlayStyle, value: string | number | boolean) {
+    this.styleChange.emit({ id, style: { [key]: value } });
+  }
+
+  toggleExpanded(id: string) {
+    this.expandedId = this.expandedId === id ? null : id;
+  }
+
+  trackByOverlayId(index: number, overlay: VectorOverlay): string {
+    return overlay.id;
+  }
+}
@@ -0,0 +1,102 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSliderModule } from '@angular/material/slider';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatMenuModule } from '@angular/material/menu';
+import { PlaybackState, PLAYBACK_SPEED_OPTIONS } from '../../services/playback.service';
+
+@Component({
+  selector: 'app-playback-timeline',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatIconModule,
+    MatButtonModule,
+    MatSliderModule,
+    MatTooltipModule,
+    MatMenuModule
+  ],
+  templateUrl: './playback-timeline.html',
+  styleUrls: ['./playback-timeline.scss']
+})
+export class PlaybackTimelineComponent {
+  @Input() playbackState!: PlaybackState;
+
+  @Output() seek = new EventEmitter<Date>();
+  @Output() stepForward = new EventEmitter<void>();
+  @Output() stepBackward = new EventEmitter<void>();
+  @Output() togglePause = new EventEmitter<void>();
+  @Output() speedChange = new EventEmitter<number>();
+  @Output() loopChange = new EventEmitter<{ start: Date; end: Date } | null>();
+
+  speedOptions = PLAYBACK_SPEED_OPTIONS;
+
+  // A-B loop: first mark is kept locally until the second one is set
+  pendingLoopStart: Date | null = null;
+
+  // Slider works in seconds from the start of the replay window
+  get rangeSeconds(): number {
+    if (!this.playbackState?.rangeStart || !this.playbackState.rangeEnd) return 0;
+    return Math.floor((this.playbackState.rangeEnd.getTime() - this.playbackState.rangeStart.getTime()) / 1000);
+  }
+
+  get currentSeconds(): number {
+    return this.toSeconds(this.playbackState?.currentTime);
+  }
+
+  get loopLeftPercent(): number {
+    return this.toPercent(this.playbackState?.loopStart ?? this.pendingLoopStart);
+  }
+
+  get loopWidthPercent(): number {
+    if (!this.playbackState?.loopEnd) return 0;
+    return this.toPercent(this.playbackState.loopEnd) - this.loopLeftPercent;
+  }
+
+  onScrub(seconds: number): void {
+    if (!this.playbackState?.rangeStart || isNaN(seconds)) return;
+    this.seek.emit(new Date(this.playbackState.rangeStart.getTime() + seconds * 1000));
+  }
+
+  onLoopMark(): void {
+    const current = this.playbackState.currentTime;
+
+    if (!this.pendingLoopStart) {
+      this.pendingLoopStart = current;
+      return;
+    }
+
+    const start = this.pendingLoopStart < current ? this.pendingLoopStart : current;
+    const end = this.pendingLoopStart < current ? current : this.pendingLoopStart;
+    this.pendingLoopStart = null;
+    this.loopChange.emit({ start, end });
+  }
+
+  onClearLoop(): void {
+    this.pendingLoopStart = null;
+    this.loopChange.emit(null);
+  }
+
+  getLoopButtonLabel(): string {
+    if (this.playbackState.loopEnabled) return 'Clear loop';
+    return this.pendingLoopStart ? 'Set loop end (B)' : 'Set loop start (A)';
+  }
+
+  formatSliderLabel = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return `${hours}h${minutes.toString().padStart(2, '0')}`;
+  };
+
+  private toSeconds(date: Date | null | undefined): number {
+    if (!date || !this.playbackState?.rangeStart) return 0;
+    return Math.max(0, Math.floor((date.getTime() - this.playbackState.rangeStart.getTime()) / 1000));
+  }
+
+  private toPercent(date: Date | null | undefined): number {
+    const range = this.rangeSeconds;
+    return range > 0 ? (this.toSeconds(date) / range) * 100 : 0;
+  }
+}
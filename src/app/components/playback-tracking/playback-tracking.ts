@@ -10,20 +10,9 @@ import { MatInputModule } from '@angular/material/input';
 import { MatCheckboxModule } from '@angular/material/checkbox';
 import { MatProgressBarModule } from '@angular/material/progress-bar';
 import { MatNativeDateModule } from '@angular/material/core';
+import { PlayVessel, PlaybackState, PLAYBACK_SPEED_OPTIONS } from '../../services/playback.service';
 
-export interface PlayVessel {
-  mmsi: string;
-  name?: string;
-  type?: string;
-}
-
-export interface PlaybackState {
-  isActive: boolean;
-  progress: number;
-  currentTime: Date;
-  duration: number;
-  speed: number;
-}
+export type { PlayVessel, PlaybackState };
 
 @Component({
   selector: 'app-playback-tracking',
@@ -46,12 +35,19 @@ export interface PlaybackState {
 })
 export class PlaybackTrackingComponent {
   @Input() availableVessels: PlayVessel[] = [];
+  @Input() isLoading = false;
   @Input() playbackState: PlaybackState = {
     isActive: false,
+    isPaused: false,
     progress: 0,
     currentTime: new Date(),
     duration: 0,
-    speed: 1
+    speed: 1,
+    rangeStart: null,
+    rangeEnd: null,
+    loopEnabled: false,
+    loopStart: null,
+    loopEnd: null
   };
 
   @Output() startPlayback = new EventEmitter<{
@@ -76,26 +72,20 @@ export class PlaybackTrackingComponent {
   playbackStartDate: Date = new Date();
   playbackEndDate: Date = new Date();
   selectedVesselsForPlayback: string[] = [];
-  playbackSpeed = 1;
   
   // Options
   showPlaybackTracks = true;
   showPlaybackSpeed = false;
   showPlaybackEvents = false;
 
-  speedOptions = [
-    { value: 0.5, label: '0.5x' },
-    { value: 1, label: '1x (Normal)' },
-    { value: 2, label: '2x' },
-    { value: 5, label: '5x' },
-    { value: 10, label: '10x' }
-  ];
+  speedOptions = PLAYBACK_SPEED_OPTIONS;
 
   canStartPlayback(): boolean {
     return this.selectedVesselsForPlayback.length > 0 && 
            this.playbackStartDate && 
            this.playbackEndDate &&
-           !this.playbackState.isActive;
+           !this.playbackState.isActive &&
+           !this.isLoading;
   }
 
   onStartPlayback() {
@@ -114,8 +104,8 @@ export class PlaybackTrackingComponent {
     this.stopPlayback.emit();
   }
 
-  onSpeedChange() {
-    this.speedChange.emit(this.playbackSpeed);
+  onSpeedChange(speed: number) {
+    this.speedChange.emit(speed);
   }
 
   onDateChange() {
@@ -22,7 +22,7 @@ import { MatDividerModule } from '@angular/material/divider';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
-import { Router } from '@angular/router';
+import { ActivatedRoute, Router } from '@angular/router';
 import { Subscription } from 'rxjs';
 import * as jsPDF from 'jspdf';
 
@@ -31,7 +31,9 @@ import {
   POIAreaBounds, 
   PaginationProgress, 
   POIAreaCountResponse,
-  POIAreaDataResponse 
+  POIAreaDataResponse,
+  POIAreaSelection,
+  polygonBounds
 } from '../../services/poi-area.service';
 
 @Component({
@@ -89,6 +91,9 @@ export class PoiArea implements OnInit, OnDestroy {
   // Area analysis results
   areaAnalysis: POIAreaCountResponse | null = null;
   downloadedData: POIAreaDataResponse | null = null;
+
+  // ✅ Area drawn on the live map - export is clipped to this polygon
+  areaSelection: POIAreaSelection | null = null;
   
   private progressSubscription?: Subscription;
 
@@ -103,6 +108,7 @@ export class PoiArea implements OnInit, OnDestroy {
   constructor(
     private fb: FormBuilder,
     private router: Router,
+    private route: ActivatedRoute,
     private poiService: POIAreaService,
     private snackBar: MatSnackBar,
     private cdr: ChangeDetectorRef, // ✅ Inject ChangeDetectorRef
@@ -156,8 +162,20 @@ export class PoiArea implements OnInit, OnDestroy {
       }
     );
 
-    // Load example coordinates for Jakarta area
-    this.loadExampleCoordinates();
+    // Use the area drawn on the map if there is one, otherwise Jakarta example
+    const selection = this.poiService.getSelection();
+    if (selection) {
+      this.applyMapSelection(selection);
+
+      // Export button on the map overlay - run it straight away
+      const exportFormat = this.route.snapshot.queryParamMap.get('export');
+      if (exportFormat === 'csv' || exportFormat === 'pdf') {
+        this.router.navigate([], { queryParams: { export: null }, replaceUrl: true });
+        this.exportMapSelection(exportFormat);
+      }
+    } else {
+      this.loadExampleCoordinates();
+    }
     
     // ✅ Initial change detection
     this.cdr.detectChanges();
@@ -452,6 +470,9 @@ export class PoiArea implements OnInit, OnDestroy {
     doc.setFontSize(11);
     doc.text(`Longitude: ${bounds.minLongitude}° to ${bounds.maxLongitude}°`, 25, 105);
     doc.text(`Latitude: ${bounds.minLatitude}° to ${bounds.maxLatitude}°`, 25, 115);
+    if (bounds.polygon) {
+      doc.text(`Polygon Filter: ${bounds.polygon.length} vertices (drawn on map)`, 110, 105);
+    }
     
     if (this.areaAnalysis?.areaAnalysis) {
       doc.text(`Area Size: ${this.areaAnalysis.areaAnalysis.boundingBoxSize.toFixed(2)} km²`, 25, 125);
@@ -607,10 +628,49 @@ export class PoiArea implements OnInit, OnDestroy {
       maxLatitude: parseFloat(formValue.maxLatitude),
       startDate: new Date(formValue.startDate),
       endDate: new Date(formValue.endDate),
-      dataType: formValue.dataType
+      dataType: formValue.dataType,
+      polygon: this.areaSelection?.polygon
     };
   }
 
+  private applyMapSelection(selection: POIAreaSelection): void {
+    const bounds = polygonBounds(selection.polygon);
+    this.areaSelection = selection;
+    this.coordinateForm.patchValue({
+      minLongitude: +bounds.minLongitude.toFixed(6),
+      maxLongitude: +bounds.maxLongitude.toFixed(6),
+      minLatitude: +bounds.minLatitude.toFixed(6),
+      maxLatitude: +bounds.maxLatitude.toFixed(6)
+    });
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * 🗺️ Export requested from the map overlay - analyze, then download
+   */
+  private async exportMapSelection(format: 'csv' | 'pdf'): Promise<void> {
+    await this.analyzeArea();
+    // analyzeArea publishes its result through safeStateUpdate on the next macrotask
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (!this.areaAnalysis) return;
+
+    if (format === 'pdf') {
+      await this.downloadPDF();
+    } else {
+      await this.downloadCSV();
+    }
+  }
+
+  /**
+   * 🗺️ Drop the map polygon and fall back to the plain bounding box
+   */
+  clearAreaSelection(): void {
+    this.areaSelection = null;
+    this.poiService.setSelection(null);
+    this.areaAnalysis = null;
+    this.cdr.markForCheck();
+  }
+
   private validateBounds(): boolean {
     const bounds = this.getBoundsFromForm();
     
@@ -700,6 +760,8 @@ export class PoiArea implements OnInit, OnDestroy {
       this.downloadedData = null;
       this._isDownloading = false;
       this._isAnalyzing = false;
+      this.areaSelection = null;
+      this.poiService.setSelection(null);
       
       // Load example coordinates
       this.loadExampleCoordinates();
@@ -0,0 +1,64 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { Rendezvous, RendezvousSettings, DEFAULT_RENDEZVOUS_SETTINGS, DEFAULT_PORT_AREAS } from '../../services/rendezvous.service';
+
+@Component({
+  selector: 'app-rendezvous-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSlideToggleModule
+  ],
+  templateUrl: './rendezvous-panel.html',
+  styleUrls: ['./rendezvous-panel.scss']
+})
+export class RendezvousPanelComponent {
+  @Input() encounters: Rendezvous[] = [];
+  @Input() set settings(value: RendezvousSettings) {
+    this.maxDistanceMeters = value.maxDistanceMeters;
+    this.maxSpeedKnots = value.maxSpeedKnots;
+    this.minDurationMin = value.minDurationMin;
+    this.excludePortAreas = value.excludePortAreas;
+  }
+
+  @Output() settingsChange = new EventEmitter<Partial<RendezvousSettings>>();
+  @Output() focusEncounter = new EventEmitter<string>();
+  @Output() clearEncounters = new EventEmitter<void>();
+
+  // Form Data
+  maxDistanceMeters = DEFAULT_RENDEZVOUS_SETTINGS.maxDistanceMeters;
+  maxSpeedKnots = DEFAULT_RENDEZVOUS_SETTINGS.maxSpeedKnots;
+  minDurationMin = DEFAULT_RENDEZVOUS_SETTINGS.minDurationMin;
+  excludePortAreas = DEFAULT_RENDEZVOUS_SETTINGS.excludePortAreas;
+
+  readonly portAreaCount = DEFAULT_PORT_AREAS.length;
+
+  get activeCount(): number {
+    return this.encounters.filter(encounter => encounter.status === 'active').length;
+  }
+
+  onSettingsChange() {
+    if (!(this.maxDistanceMeters > 0) || !(this.maxSpeedKnots > 0) || !(this.minDurationMin > 0)) return;
+    this.settingsChange.emit({
+      maxDistanceMeters: this.maxDistanceMeters,
+      maxSpeedKnots: this.maxSpeedKnots,
+      minDurationMin: this.minDurationMin,
+      excludePortAreas: this.excludePortAreas
+    });
+  }
+
+  trackByEncounterId(index: number, encounter: Rendezvous): string {
+    return encounter.id;
+  }
+}
@@ -0,0 +1,56 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { SavedMapView } from '../../services/map-view-state.service';
+
+@Component({
+  selector: 'app-saved-views-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatTooltipModule
+  ],
+  templateUrl: './saved-views-panel.html',
+  styleUrls: ['./saved-views-panel.scss']
+})
+export class SavedViewsPanelComponent {
+  @Input() views: SavedMapView[] = [];
+
+  @Output() saveView = new EventEmitter<string>();
+  @Output() applyView = new EventEmitter<string>();
+  @Output() removeView = new EventEmitter<string>();
+  @Output() copyLink = new EventEmitter<string | null>(); // null = current view
+
+  // Form Data
+  viewName = '';
+
+  onSave() {
+    if (!this.viewName.trim()) return;
+    this.saveView.emit(this.viewName);
+    this.viewName = '';
+  }
+
+  onCopyLink(event: Event, view: SavedMapView) {
+    event.stopPropagation();
+    this.copyLink.emit(view.id);
+  }
+
+  onRemove(event: Event, view: SavedMapView) {
+    event.stopPropagation();
+    this.removeView.emit(view.id);
+  }
+
+  trackById(index: number, view: SavedMapView): string {
+    return view.id;
+  }
+}
@@ -0,0 +1,130 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MapLayer } from '../../services/map-layer.service';
+import {
+  MAX_DOWNLOAD_TILES,
+  TileBounds,
+  TileCacheStats,
+  TileDownloadProgress,
+  estimateTileCount
+} from '../../services/tile-cache.service';
+
+export interface TileDownloadRequest {
+  layerName: string;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+}
+
+@Component({
+  selector: 'app-tile-cache-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatProgressBarModule,
+    MatTooltipModule
+  ],
+  templateUrl: './tile-cache-panel.html',
+  styleUrls: ['./tile-cache-panel.scss']
+})
+export class TileCachePanelComponent implements OnChanges {
+  @Input() layers: MapLayer[] = [];
+  @Input() activeLayer = '';
+  @Input() viewBounds: TileBounds | null = null;
+  @Input() viewZoom = 6;
+  @Input() stats: TileCacheStats | null = null;
+  @Input() progress: TileDownloadProgress | null = null;
+  @Input() online = true;
+  @Input() maxSizeMb = 500;
+
+  @Output() download = new EventEmitter<TileDownloadRequest>();
+  @Output() cancelDownload = new EventEmitter<void>();
+  @Output() useCurrentView = new EventEmitter<void>();
+  @Output() clearCache = new EventEmitter<string | undefined>();
+  @Output() maxSizeChange = new EventEmitter<number>();
+
+  readonly maxTiles = MAX_DOWNLOAD_TILES;
+  readonly zoomLevels = Array.from({ length: 19 }, (_, i) => i + 1);
+
+  // Form Data
+  layerName = '';
+  bounds: TileBounds = { north: 0, south: 0, east: 0, west: 0 };
+  minZoom = 6;
+  maxZoom = 12;
+  sizeLimitMb = 500;
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['activeLayer'] && !this.layerName) {
+      this.layerName = this.activeLayer;
+    }
+    if (changes['viewBounds'] && this.viewBounds) {
+      this.bounds = { ...this.viewBounds };
+    }
+    if (changes['viewZoom']) {
+      this.minZoom = this.viewZoom;
+      this.maxZoom = Math.min(this.viewZoom + 4, 19);
+    }
+    if (changes['maxSizeMb']) {
+      this.sizeLimitMb = this.maxSizeMb;
+    }
+  }
+
+  get boundsValid(): boolean {
+    const { north, south, east, west } = this.bounds;
+    return north > south && east > west && north <= 90 && south >= -90 && east <= 180 && west >= -180;
+  }
+
+  get estimatedTiles(): number {
+    if (!this.boundsValid || this.minZoom > this.maxZoom) return 0;
+    return estimateTileCount(this.bounds, this.minZoom, this.maxZoom);
+  }
+
+  get canDownload(): boolean {
+    const estimate = this.estimatedTiles;
+    return !!this.layerName && this.online && !this.progress?.active && estimate > 0 && estimate <= this.maxTiles;
+  }
+
+  get progressPercent(): number {
+    return this.progress?.total ? (this.progress.done / this.progress.total) * 100 : 0;
+  }
+
+  get usagePercent(): number {
+    return this.stats?.maxBytes ? Math.min((this.stats.bytes / this.stats.maxBytes) * 100, 100) : 0;
+  }
+
+  startDownload() {
+    if (!this.canDownload) return;
+    this.download.emit({
+      layerName: this.layerName,
+      bounds: { ...this.bounds },
+      minZoom: this.minZoom,
+      maxZoom: this.maxZoom
+    });
+  }
+
+  applySizeLimit() {
+    if (this.sizeLimitMb > 0 && this.sizeLimitMb !== this.maxSizeMb) {
+      this.maxSizeChange.emit(this.sizeLimitMb);
+    }
+  }
+
+  formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+}
@@ -0,0 +1,121 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MapLayer, TileSourceInput } from '../../services/map-layer.service';
+
+const EMPTY_SOURCE: TileSourceInput = {
+  name: '',
+  url: '',
+  attribution: '',
+  type: 'xyz',
+  role: 'base',
+  maxZoom: 19,
+  opacity: 1,
+  format: 'image/png',
+  transparent: true,
+  wmsLayers: '',
+  wmsVersion: '1.1.1',
+  wmtsLayer: '',
+  wmtsStyle: 'default',
+  tileMatrixSet: 'GoogleMapsCompatible'
+};
+
+@Component({
+  selector: 'app-tile-source-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatSlideToggleModule,
+    MatCheckboxModule,
+    MatTooltipModule
+  ],
+  templateUrl: './tile-source-panel.html',
+  styleUrls: ['./tile-source-panel.scss']
+})
+export class TileSourcePanelComponent {
+  @Input() sources: MapLayer[] = [];
+  @Input() activeOverlayIds: Set<string> = new Set();
+  @Input() activeBaseLayer = '';
+
+  @Output() addSource = new EventEmitter<TileSourceInput>();
+  @Output() updateSource = new EventEmitter<{ id: string; source: TileSourceInput }>();
+  @Output() removeSource = new EventEmitter<string>();
+  @Output() toggleOverlay = new EventEmitter<{ id: string; visible: boolean }>();
+  @Output() selectBaseLayer = new EventEmitter<string>();
+
+  readonly formats = ['image/png', 'image/jpeg', 'image/webp'];
+  readonly wmsVersions = ['1.1.1', '1.3.0'];
+
+  // Form Data
+  showForm = false;
+  editingId: string | null = null;
+  form: TileSourceInput = { ...EMPTY_SOURCE };
+
+  get isValid(): boolean {
+    if (!this.form.name.trim() || !this.form.url.trim()) return false;
+    if (this.form.type === 'wms') return !!this.form.wmsLayers?.trim();
+    if (this.form.type === 'wmts') return this.form.url.includes('{') || !!this.form.wmtsLayer?.trim();
+    return this.form.url.includes('{z}');
+  }
+
+  get urlHint(): string {
+    switch (this.form.type) {
+      case 'wms':
+        return 'Service endpoint, e.g. https://host/geoserver/wms';
+      case 'wmts':
+        return 'KVP endpoint, or REST template with {TileMatrix}/{TileRow}/{TileCol}';
+      default:
+        return 'Template with {z}/{x}/{y}, e.g. https://host/tiles/{z}/{x}/{y}.png';
+    }
+  }
+
+  startAdd() {
+    this.editingId = null;
+    this.form = { ...EMPTY_SOURCE };
+    this.showForm = true;
+  }
+
+  startEdit(source: MapLayer) {
+    const { id, custom, ...input } = source;
+    this.editingId = id ?? null;
+    this.form = { ...EMPTY_SOURCE, ...input };
+    this.showForm = true;
+  }
+
+  cancel() {
+    this.showForm = false;
+    this.editingId = null;
+  }
+
+  submit() {
+    if (!this.isValid) return;
+    const source: TileSourceInput = { ...this.form, opacity: Math.min(Math.max(this.form.opacity ?? 1, 0), 1) };
+
+    if (this.editingId) {
+      this.updateSource.emit({ id: this.editingId, source });
+    } else {
+      this.addSource.emit(source);
+    }
+    this.cancel();
+  }
+
+  trackBySourceId(index: number, source: MapLayer): string | undefined {
+    return source.id;
+  }
+}
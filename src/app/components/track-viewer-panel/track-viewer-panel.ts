@@ -0,0 +1,93 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSelectModule } from '@angular/material/select';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatNativeDateModule } from '@angular/material/core';
+import { PlayVessel } from '../../services/playback.service';
+import {
+  TrackViewerState,
+  TrackViewerSettings,
+  DEFAULT_TRACK_VIEWER_SETTINGS,
+  SPEED_BANDS
+} from '../../services/track-viewer.service';
+import { TrackExportFormat, TRACK_EXPORT_FORMATS } from '../../services/track-export.service';
+
+@Component({
+  selector: 'app-track-viewer-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatSelectModule,
+    MatFormFieldModule,
+    MatDatepickerModule,
+    MatInputModule,
+    MatProgressBarModule,
+    MatNativeDateModule
+  ],
+  templateUrl: './track-viewer-panel.html',
+  styleUrls: ['./track-viewer-panel.scss']
+})
+export class TrackViewerPanelComponent {
+  @Input() availableVessels: PlayVessel[] = [];
+  @Input() state: TrackViewerState | null = null;
+  @Input() isLoading = false;
+  @Input() set settings(value: TrackViewerSettings) {
+    this.arrowEvery = value.arrowEvery;
+    this.gapThresholdMin = value.gapThresholdMin;
+  }
+  @Input() set historyWindowHours(value: number) {
+    this.historyWindow = value;
+  }
+
+  @Output() loadTrack = new EventEmitter<{ mmsi: number; startDate: Date; endDate: Date }>();
+  @Output() clearTrack = new EventEmitter<void>();
+  @Output() settingsChange = new EventEmitter<Partial<TrackViewerSettings>>();
+  @Output() exportTrack = new EventEmitter<TrackExportFormat>();
+  @Output() historyWindowChange = new EventEmitter<number>();
+
+  // Form Data
+  selectedMmsi: string | null = null;
+  startDate: Date = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  endDate: Date = new Date();
+  arrowEvery = DEFAULT_TRACK_VIEWER_SETTINGS.arrowEvery;
+  gapThresholdMin = DEFAULT_TRACK_VIEWER_SETTINGS.gapThresholdMin;
+  historyWindow = 24;
+
+  readonly speedBands = SPEED_BANDS;
+  readonly exportFormats = TRACK_EXPORT_FORMATS;
+
+  canLoad(): boolean {
+    return !!this.selectedMmsi && !!this.startDate && !!this.endDate && !this.isLoading;
+  }
+
+  onLoadTrack() {
+    if (!this.selectedMmsi) return;
+    this.loadTrack.emit({
+      mmsi: parseInt(this.selectedMmsi, 10),
+      startDate: this.startDate,
+      endDate: this.endDate
+    });
+  }
+
+  onSettingsChange() {
+    if (!(this.arrowEvery >= 0) || !(this.gapThresholdMin > 0)) return;
+    this.settingsChange.emit({
+      arrowEvery: Math.round(this.arrowEvery),
+      gapThresholdMin: this.gapThresholdMin
+    });
+  }
+
+  onHistoryWindowChange() {
+    if (!(this.historyWindow > 0)) return;
+    this.historyWindowChange.emit(this.historyWindow);
+  }
+}
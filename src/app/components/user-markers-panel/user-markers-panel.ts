@@ -0,0 +1,104 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import {
+  UserMarker,
+  UserMarkerChanges,
+  USER_MARKER_COLORS,
+  USER_MARKER_FILE_ACCEPT,
+  USER_MARKER_ICONS
+} from '../../services/map-marker.service';
+
+@Component({
+  selector: 'app-user-markers-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatTooltipModule
+  ],
+  templateUrl: './user-markers-panel.html',
+  styleUrls: ['./user-markers-panel.scss']
+})
+export class UserMarkersPanelComponent implements OnChanges {
+  @Input() markers: UserMarker[] = [];
+  // A new object per request, so the same marker can be re-opened
+  @Input() editRequest: { id: string } | null = null;
+
+  @Output() focusMarker = new EventEmitter<string>();
+  @Output() updateMarker = new EventEmitter<{ id: string; changes: UserMarkerChanges }>();
+  @Output() removeMarker = new EventEmitter<string>();
+  @Output() importFiles = new EventEmitter<File[]>();
+  @Output() exportCsv = new EventEmitter<void>();
+  @Output() exportGeoJson = new EventEmitter<void>();
+  @Output() clearAll = new EventEmitter<void>();
+
+  readonly icons = USER_MARKER_ICONS;
+  readonly colors = USER_MARKER_COLORS;
+  readonly accept = USER_MARKER_FILE_ACCEPT;
+
+  // Form Data
+  expandedId: string | null = null;
+  draft = { name: '', icon: '', color: '', notes: '' };
+
+  ngOnChanges(changes: SimpleChanges) {
+    // Edit requested from a marker popup
+    if (changes['editRequest'] && this.editRequest) {
+      this.openEditor(this.editRequest.id);
+    }
+  }
+
+  toggleExpanded(marker: UserMarker) {
+    if (this.expandedId === marker.id) {
+      this.expandedId = null;
+      return;
+    }
+    this.openEditor(marker.id);
+    this.focusMarker.emit(marker.id);
+  }
+
+  onSave(marker: UserMarker) {
+    this.updateMarker.emit({
+      id: marker.id,
+      changes: {
+        name: this.draft.name.trim() || marker.name,
+        icon: this.draft.icon,
+        color: this.draft.color,
+        notes: this.draft.notes.trim()
+      }
+    });
+    this.expandedId = null;
+  }
+
+  onFilesSelected(input: HTMLInputElement) {
+    const files = Array.from(input.files ?? []);
+    if (files.length > 0) this.importFiles.emit(files);
+    input.value = '';
+  }
+
+  onClearAll() {
+    if (confirm(`Delete all ${this.markers.length} markers?`)) this.clearAll.emit();
+  }
+
+  trackByMarkerId(index: number, marker: UserMarker): string {
+    return marker.id;
+  }
+
+  private openEditor(id: string) {
+    const marker = this.markers.find(item => item.id === id);
+    if (!marker) return;
+    this.expandedId = id;
+    this.draft = { name: marker.name, icon: marker.icon, color: marker.color, notes: marker.notes };
+  }
+}
@@ -0,0 +1,107 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { VesselDetail } from '../../services/vessel-detail.service';
+import { TrackExportFormat, TRACK_EXPORT_FORMATS } from '../../services/track-export.service';
+
+interface ChartPoint {
+  x: number;
+  y: number;
+}
+
+interface TrackChart {
+  points: ChartPoint[];
+  path: string;
+  max: number;
+  start: Date | null;
+  end: Date | null;
+}
+
+@Component({
+  selector: 'app-vessel-detail-drawer',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatProgressBarModule,
+    MatTooltipModule
+  ],
+  templateUrl: './vessel-detail-drawer.html',
+  styleUrls: ['./vessel-detail-drawer.scss']
+})
+export class VesselDetailDrawerComponent implements OnChanges {
+  @Input() detail: VesselDetail | null = null;
+
+  @Output() closeDrawer = new EventEmitter<void>();
+  @Output() trackLimitChange = new EventEmitter<number>();
+  @Output() focusLocation = new EventEmitter<[number, number]>();
+  @Output() exportTrack = new EventEmitter<TrackExportFormat>();
+
+  readonly trackLimits = [50, 200, 500];
+  readonly exportFormats = TRACK_EXPORT_FORMATS;
+  readonly chartWidth = 300;
+  readonly chartHeight = 80;
+
+  speedChart: TrackChart = this.emptyChart();
+  courseChart: TrackChart = this.emptyChart();
+
+  ngOnChanges(): void {
+    const track = this.detail?.track ?? [];
+    this.speedChart = this.buildChart(track.map(p => ({ time: p.timestamp, value: p.speed })));
+    // Course wraps at 360, so it is drawn as dots on a fixed 0-360 scale
+    this.courseChart = this.buildChart(track.map(p => ({ time: p.timestamp, value: p.course })), 360);
+  }
+
+  get dimensions(): string {
+    const vessel = this.detail?.vessel;
+    const length = vessel?.dimension?.length ?? vessel?.length;
+    const width = vessel?.dimension?.width ?? vessel?.width;
+    if (!length && !width) return '-';
+    return `${length ?? '?'} m × ${width ?? '?'} m`;
+  }
+
+  // AIS reference point offsets: A bow, B stern, C port, D starboard
+  get antennaOffsets(): string | null {
+    const dimension = this.detail?.vessel.dimension;
+    if (!dimension || dimension.a === undefined) return null;
+    return `A ${dimension.a} · B ${dimension.b ?? '-'} · C ${dimension.c ?? '-'} · D ${dimension.d ?? '-'} m`;
+  }
+
+  formatDuration(minutes: number): string {
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  }
+
+  private buildChart(series: { time: Date; value: number }[], fixedMax?: number): TrackChart {
+    if (series.length < 2) return this.emptyChart();
+
+    const start = series[0].time.getTime();
+    const end = series[series.length - 1].time.getTime();
+    const span = Math.max(end - start, 1);
+    const max = fixedMax ?? Math.max(Math.ceil(Math.max(...series.map(s => s.value))), 1);
+
+    const points = series.map(s => ({
+      x: ((s.time.getTime() - start) / span) * this.chartWidth,
+      y: this.chartHeight - (Math.min(s.value, max) / max) * this.chartHeight
+    }));
+
+    return {
+      points,
+      path: points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' '),
+      max,
+      start: series[0].time,
+      end: series[series.length - 1].time
+    };
+  }
+
+  private emptyChart(): TrackChart {
+    return { points: [], path: '', max: 0, start: null, end: null };
+  }
+}
@@ -0,0 +1,58 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import {
+  VesselFilter,
+  VesselFilterOptions,
+  DEFAULT_VESSEL_FILTER,
+  NAV_STATUS_OPTIONS,
+  VESSEL_CATEGORIES
+} from '../../services/vessel-filter.service';
+
+type RangeKey = 'speedMin' | 'speedMax' | 'lengthMin' | 'lengthMax' | 'widthMin' | 'widthMax' | 'maxAgeMin';
+
+@Component({
+  selector: 'app-vessel-filter-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule
+  ],
+  templateUrl: './vessel-filter-panel.html',
+  styleUrls: ['./vessel-filter-panel.scss']
+})
+export class VesselFilterPanelComponent {
+  @Input() filter: VesselFilter = DEFAULT_VESSEL_FILTER;
+  @Input() options: VesselFilterOptions = { flags: [], sources: [] };
+  @Input() matchCount = { matching: 0, total: 0 };
+  @Input() active = false;
+
+  @Output() filterChange = new EventEmitter<Partial<VesselFilter>>();
+  @Output() resetFilter = new EventEmitter<void>();
+
+  readonly categories = VESSEL_CATEGORIES;
+  readonly navStatuses = NAV_STATUS_OPTIONS;
+
+  onChange<K extends keyof VesselFilter>(key: K, value: VesselFilter[K]) {
+    this.filterChange.emit({ [key]: value } as Partial<VesselFilter>);
+  }
+
+  // Empty input clears the bound; negative values are ignored
+  onRangeChange(key: RangeKey, input: HTMLInputElement) {
+    const value = input.value === '' ? null : input.valueAsNumber;
+    if (value !== null && (isNaN(value) || value < 0)) return;
+    this.filterChange.emit({ [key]: value });
+  }
+}
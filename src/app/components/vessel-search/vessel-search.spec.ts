@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { provideHttpClient } from '@angular/common/http';
+
+import { VesselSearchComponent } from './vessel-search';
+
+describe('VesselSearchComponent', () => {
+  let component: VesselSearchComponent;
+  let fixture: ComponentFixture<VesselSearchComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [VesselSearchComponent],
+      providers: [provideZonelessChangeDetection(), provideHttpClient()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(VesselSearchComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,73 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatAutocompleteModule, MatAutocompleteSelectedEvent } from '@angular/material/autocomplete';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { Subject } from 'rxjs';
+import { debounceTime, distinctUntilChanged, takeUntil } from 'rxjs/operators';
+import { SearchResult, SearchResultType, VesselSearchService } from '../../services/vessel-search.service';
+
+@Component({
+  selector: 'app-vessel-search',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatIconModule,
+    MatButtonModule,
+    MatAutocompleteModule,
+    MatTooltipModule
+  ],
+  templateUrl: './vessel-search.html',
+  styleUrls: ['./vessel-search.scss']
+})
+export class VesselSearchComponent implements OnInit, OnDestroy {
+  @Output() selectResult = new EventEmitter<{ result: SearchResult; follow: boolean }>();
+
+  readonly queryControl = new FormControl<string | SearchResult>('', { nonNullable: true });
+  readonly typeIcons: Record<SearchResultType, string> = {
+    vessel: 'directions_boat',
+    vts: 'cell_tower',
+    aton: 'navigation'
+  };
+
+  results: SearchResult[] = [];
+  followOnSelect = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private searchService: VesselSearchService) {}
+
+  ngOnInit(): void {
+    this.queryControl.valueChanges
+      .pipe(debounceTime(200), distinctUntilChanged(), takeUntil(this.destroy$))
+      .subscribe(value => {
+        this.results = typeof value === 'string' ? this.searchService.search(value) : [];
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  displayResult(result: SearchResult | string | null): string {
+    return typeof result === 'string' ? result : result?.label ?? '';
+  }
+
+  onSelected(event: MatAutocompleteSelectedEvent) {
+    const result = event.option.value as SearchResult;
+    this.selectResult.emit({ result, follow: this.followOnSelect && result.type === 'vessel' });
+  }
+
+  clear() {
+    this.queryControl.setValue('');
+    this.results = [];
+  }
+
+  trackByResult(index: number, result: SearchResult): string {
+    return `${result.type}-${result.id}`;
+  }
+}
@@ -1,8 +1,9 @@
 import { Component, OnInit, OnDestroy, ViewChild, ChangeDetectorRef, NgZone, ChangeDetectionStrategy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { Router, ActivatedRoute } from '@angular/router';
 import { Subject, combineLatest, interval, merge, EMPTY, BehaviorSubject } from 'rxjs';
-import { takeUntil, debounceTime, distinctUntilChanged, filter, switchMap, tap, catchError, startWith } from 'rxjs/operators';
+import { takeUntil, debounceTime, distinctUntilChanged, filter, switchMap, tap, catchError, startWith, auditTime } from 'rxjs/operators';
 
 // Angular Material Imports
 import { MatSidenavModule, MatSidenav } from '@angular/material/sidenav';
@@ -23,9 +24,53 @@ import { LoadingState } from '../services/optimized-marker-manager';
 import { VtsService, VTS } from '../services/vts.service';
 import { AtonService, AtoN } from '../services/aton.service';
 import { VesselWebSocketService, ConnectionStats, Vessel } from '../services/vessel-websocket.service';
+import { PlaybackService, PlaybackState, PlayVessel } from '../services/playback.service';
+import { CollisionRiskService, CollisionRisk, CollisionRiskSettings } from '../services/collision-risk.service';
+import { GeofenceService, Geofence, GeofenceAlert } from '../services/geofence.service';
+import { AlertEngineService, AlertRuleId, AlertRuleSettings, VesselAlert, ALERT_RULE_LABELS } from '../services/alert-engine.service';
+import { DarkPeriodService, DarkPeriod } from '../services/dark-period.service';
+import { RendezvousService, Rendezvous, RendezvousSettings } from '../services/rendezvous.service';
+import { VesselFollowService, FollowState } from '../services/vessel-follow.service';
+import { VesselTrackingService } from '../services/vessel-tracking.service';
+import { VesselDetailService, VesselDetail } from '../services/vessel-detail.service';
+import { TrackExportService, TrackExportFormat } from '../services/track-export.service';
+import { MapLayerService, MapLayer, TileSourceInput } from '../services/map-layer.service';
+import { OverlayService, VectorOverlay, OverlayStyle, OverlayImportResult } from '../services/overlay.service';
+import { TileCacheService, TileCacheStats, TileDownloadProgress, TileBounds } from '../services/tile-cache.service';
+import { HeatmapService, HeatmapSettings, HeatmapState } from '../services/heatmap.service';
+import { MapMeasurementService, EblVrm } from '../services/map-measurement.service';
+import { MapCoordinateService, CoordinateFormat } from '../services/map-coordinate.service';
+import { MapMarkerService, UserMarker, UserMarkerChanges } from '../services/map-marker.service';
+import { MapDrawingService, DrawnShape, DrawTool, DrawingHistoryState, ShapeVessel } from '../services/map-drawing.service';
+import { PoiAreaSelectionService, POISelectionMode, POIExportRequest, POIExportFormat } from '../services/poi-area-selection.service';
+import { TrackViewerService, TrackViewerState, TrackViewerSettings, DEFAULT_TRACK_VIEWER_SETTINGS } from '../services/track-viewer.service';
+import { SearchResult } from '../services/vessel-search.service';
+import { VesselFilterService, VesselFilter, VesselFilterOptions } from '../services/vessel-filter.service';
+import { MapViewStateService, MapViewState, SavedMapView } from '../services/map-view-state.service';
 
 // Components
 import { VesselLoadingComponent } from '../vessel-loading/vessel-loading';
+import { PlaybackTrackingComponent } from '../components/playback-tracking/playback-tracking';
+import { PlaybackTimelineComponent } from '../components/playback-timeline/playback-timeline';
+import { CollisionRiskPanelComponent } from '../components/collision-risk-panel/collision-risk-panel';
+import { GeofencePanelComponent } from '../components/geofence-panel/geofence-panel';
+import { AlertPanelComponent } from '../components/alert-panel/alert-panel';
+import { DarkPeriodPanelComponent } from '../components/dark-period-panel/dark-period-panel';
+import { RendezvousPanelComponent } from '../components/rendezvous-panel/rendezvous-panel';
+import { VesselSearchComponent } from '../components/vessel-search/vessel-search';
+import { FollowInfoCardComponent } from '../components/follow-info-card/follow-info-card';
+import { VesselDetailDrawerComponent } from '../components/vessel-detail-drawer/vessel-detail-drawer';
+import { TrackViewerPanelComponent } from '../components/track-viewer-panel/track-viewer-panel';
+import { OverlayPanelComponent } from '../components/overlay-panel/overlay-panel';
+import { TileSourcePanelComponent } from '../components/tile-source-panel/tile-source-panel';
+import { TileCachePanelComponent, TileDownloadRequest } from '../components/tile-cache-panel/tile-cache-panel';
+import { HeatmapPanelComponent } from '../components/heatmap-panel/heatmap-panel';
+import { EblVrmPanelComponent } from '../components/ebl-vrm-panel/ebl-vrm-panel';
+import { CoordinatePanelComponent, CoordinateGoToRequest } from '../components/coordinate-panel/coordinate-panel';
+import { UserMarkersPanelComponent } from '../components/user-markers-panel/user-markers-panel';
+import { DrawingPanelComponent, ShapeUpdate } from '../components/drawing-panel/drawing-panel';
+import { VesselFilterPanelComponent } from '../components/vessel-filter-panel/vessel-filter-panel';
+import { SavedViewsPanelComponent } from '../components/saved-views-panel/saved-views-panel';
 
 // Interfaces
 export interface MapComponentState {
@@ -67,6 +112,27 @@ export interface UIState {
     MatTooltipModule,
     MatSnackBarModule,
     VesselLoadingComponent,
+    PlaybackTrackingComponent,
+    PlaybackTimelineComponent,
+    CollisionRiskPanelComponent,
+    GeofencePanelComponent,
+    AlertPanelComponent,
+    DarkPeriodPanelComponent,
+    RendezvousPanelComponent,
+    VesselSearchComponent,
+    FollowInfoCardComponent,
+    VesselDetailDrawerComponent,
+    TrackViewerPanelComponent,
+    OverlayPanelComponent,
+    TileSourcePanelComponent,
+    TileCachePanelComponent,
+    HeatmapPanelComponent,
+    EblVrmPanelComponent,
+    CoordinatePanelComponent,
+    UserMarkersPanelComponent,
+    DrawingPanelComponent,
+    VesselFilterPanelComponent,
+    SavedViewsPanelComponent,
   ],
   templateUrl: './map.html',
   styleUrls: ['./map.scss'],
@@ -140,6 +206,90 @@ export class MapComponent implements OnInit, OnDestroy {
   lastAtonUpdate: Date | null = null;
   atonPollingEnabled = true;
 
+  // ✅ PLAYBACK STATE
+  playbackVessels: PlayVessel[] = [];
+  playbackState: PlaybackState;
+  playbackLoading = false;
+
+  // ✅ COLLISION RISK STATE
+  collisionRisks: CollisionRisk[] = [];
+  collisionSettings: CollisionRiskSettings;
+
+  // ✅ GEOFENCE STATE
+  geofences: Geofence[] = [];
+  geofenceAlerts: GeofenceAlert[] = [];
+
+  // ✅ BEHAVIOUR ALERT STATE
+  vesselAlerts: VesselAlert[] = [];
+  alertRuleSettings: AlertRuleSettings;
+
+  // ✅ AIS DARK PERIOD STATE
+  darkPeriods: DarkPeriod[] = [];
+
+  // ✅ RENDEZVOUS STATE
+  rendezvousEncounters: Rendezvous[] = [];
+  rendezvousSettings: RendezvousSettings;
+
+  // ✅ SEARCH & FOLLOW STATE
+  followState: FollowState | null = null;
+
+  // ✅ VESSEL DETAIL STATE
+  vesselDetail: VesselDetail | null = null;
+
+  // ✅ COORDINATE STATE
+  coordinateFormat: CoordinateFormat = 'dd';
+
+  // ✅ USER MARKER STATE
+  userMarkers: UserMarker[] = [];
+  userMarkerEditRequest: { id: string } | null = null;
+
+  // ✅ DRAWING STATE
+  drawnShapes: DrawnShape[] = [];
+  drawingTool: DrawTool | null = null;
+  drawingEditingId: string | null = null;
+  drawingHistory: DrawingHistoryState = { canUndo: false, canRedo: false };
+  shapeVessels: Record<string, ShapeVessel[]> = {};
+
+  // ✅ EBL / VRM STATE
+  eblVrmItems: EblVrm[] = [];
+  eblVrmPickingAnchor = false;
+
+  // ✅ HEATMAP STATE
+  heatmapState: HeatmapState | null = null;
+  heatmapSettings: HeatmapSettings;
+
+  // ✅ TRACK HISTORY STATE
+  trackViewerState: TrackViewerState | null = null;
+  trackViewerSettings: TrackViewerSettings = DEFAULT_TRACK_VIEWER_SETTINGS;
+  trackViewerLoading = false;
+  trackHistoryWindowHours: number;
+
+  // ✅ OVERLAY STATE
+  overlays: VectorOverlay[] = [];
+  overlayImporting = false;
+
+  // ✅ TILE SOURCE STATE
+  tileSources: MapLayer[] = [];
+
+  // ✅ OFFLINE TILE CACHE STATE
+  tileCacheStats: TileCacheStats | null = null;
+  tileCacheProgress: TileDownloadProgress | null = null;
+  tileCacheOnline = true;
+  tileCacheBounds: TileBounds | null = null;
+  tileCacheZoom = 6;
+  tileCacheMaxMb = 500;
+
+  // ✅ VESSEL FILTER STATE
+  vesselFilter: VesselFilter;
+  vesselFilterOptions: VesselFilterOptions = { flags: [], sources: [] };
+  vesselFilterMatch = { matching: 0, total: 0 };
+  vesselFilterActive = false;
+
+  // ✅ SAVED VIEW STATE
+  savedViews: SavedMapView[] = [];
+  private viewStateChanged$ = new Subject<void>();
+  private onMapMoveEnd = () => this.viewStateChanged$.next();
+
   // ✅ PERFORMANCE STATS
   vesselServiceStats: VesselServiceStats = {
     totalVessels: 0,
@@ -163,8 +313,39 @@ export class MapComponent implements OnInit, OnDestroy {
     private atonService: AtonService,
     private cdr: ChangeDetectorRef,
     private zone: NgZone,
-    private snackBar: MatSnackBar
+    private snackBar: MatSnackBar,
+    private playbackService: PlaybackService,
+    private collisionRiskService: CollisionRiskService,
+    private geofenceService: GeofenceService,
+    private alertEngineService: AlertEngineService,
+    private darkPeriodService: DarkPeriodService,
+    private rendezvousService: RendezvousService,
+    private vesselFollowService: VesselFollowService,
+    private vesselDetailService: VesselDetailService,
+    private trackViewerService: TrackViewerService,
+    private trackingService: VesselTrackingService,
+    private trackExportService: TrackExportService,
+    private overlayService: OverlayService,
+    private tileCacheService: TileCacheService,
+    private heatmapService: HeatmapService,
+    private coordinateService: MapCoordinateService,
+    private markerService: MapMarkerService,
+    private drawingService: MapDrawingService,
+    private poiSelectionService: PoiAreaSelectionService,
+    private measurementService: MapMeasurementService,
+    private mapLayerService: MapLayerService,
+    private vesselFilterService: VesselFilterService,
+    private mapViewStateService: MapViewStateService,
+    private router: Router,
+    private route: ActivatedRoute
   ) {
+    this.playbackState = this.playbackService.getState();
+    this.collisionSettings = this.collisionRiskService.getSettings();
+    this.alertRuleSettings = this.alertEngineService.getSettings();
+    this.rendezvousSettings = this.rendezvousService.getSettings();
+    this.heatmapSettings = this.heatmapService.getSettings();
+    this.trackHistoryWindowHours = this.trackingService.getHistoryWindowHours();
+    this.vesselFilter = this.vesselFilterService.getFilter();
     console.log('🚀 MapComponent constructor started with optimized architecture');
   }
 
@@ -192,6 +373,9 @@ export class MapComponent implements OnInit, OnDestroy {
       await this.mapService.initializeMap('map');
       console.log('🗺️ Map initialized successfully');
 
+      // ✅ Shared links carry the view in the query string
+      this.applyViewState(this.mapViewStateService.fromQueryParams(this.route.snapshot.queryParams));
+
       // ✅ 2. Setup optimized subscriptions with single destroy subject
       this.setupOptimizedSubscriptions();
       
@@ -342,6 +526,431 @@ export class MapComponent implements OnInit, OnDestroy {
         });
       });
 
+    // ✅ Playback vessel list (rebuilt lazily - full fleet list is large)
+    this.webSocketService.vesselUpdates$
+      .pipe(
+        debounceTime(2000),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((vessels: Vessel[]) => {
+        this.zone.run(() => {
+          this.playbackVessels = vessels
+            .map(vessel => ({
+              mmsi: vessel.mmsi.toString(),
+              name: vessel.name,
+              type: vessel.vesselType?.toString()
+            }))
+            .sort((a, b) => (a.name || a.mmsi).localeCompare(b.name || b.mmsi));
+          this.vesselFilterOptions = this.vesselFilterService.getOptions(vessels);
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Playback state
+    this.playbackService.state$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((state: PlaybackState) => {
+        this.zone.run(() => {
+          this.playbackState = state;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Collision risk pairs
+    this.collisionRiskService.risks$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((risks: CollisionRisk[]) => {
+        this.zone.run(() => {
+          const newDanger = risks.some(risk =>
+            risk.level === 'danger' && !this.collisionRisks.some(known => known.id === risk.id)
+          );
+          this.collisionRisks = risks;
+          if (newDanger) {
+            this.showNotification('Collision risk detected - check the CPA/TCPA panel', 'warning');
+          }
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.collisionRiskService.settings$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((settings: CollisionRiskSettings) => {
+        this.collisionSettings = settings;
+        this.cdr.markForCheck();
+      });
+
+    // ✅ Geofences and alert log
+    this.geofenceService.geofences$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((geofences: Geofence[]) => {
+        this.zone.run(() => {
+          this.geofences = geofences;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.geofenceService.alerts$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((alerts: GeofenceAlert[]) => {
+        this.zone.run(() => {
+          this.geofenceAlerts = alerts;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.geofenceService.newAlerts$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((alerts: GeofenceAlert[]) => {
+        const first = alerts[0];
+        const verbs: Record<GeofenceAlert['type'], string> = { enter: 'entered', exit: 'left', dwell: 'is dwelling in' };
+        const message = alerts.length === 1
+          ? `${first.vesselName || first.mmsi} ${verbs[first.type]} ${first.geofenceName}`
+          : `${alerts.length} geofence alerts (${first.geofenceName}, ...)`;
+        this.showNotification(message, first.type === 'dwell' ? 'warning' : 'info');
+      });
+
+    // ✅ Behaviour alert engine
+    this.alertEngineService.alerts$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((alerts: VesselAlert[]) => {
+        this.zone.run(() => {
+          this.vesselAlerts = alerts;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.alertEngineService.settings$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((settings: AlertRuleSettings) => {
+        this.zone.run(() => {
+          this.alertRuleSettings = settings;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.alertEngineService.newAlerts$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((alerts: VesselAlert[]) => {
+        const first = alerts[0];
+        const critical = alerts.some(alert => alert.severity === 'critical');
+        const message = alerts.length === 1
+          ? `${ALERT_RULE_LABELS[first.rule]}: ${first.vesselName || first.mmsi} - ${first.message}`
+          : `${alerts.length} behaviour alerts (${ALERT_RULE_LABELS[first.rule]}, ...)`;
+        this.showNotification(message, critical ? 'error' : 'warning');
+      });
+
+    // ✅ AIS dark periods
+    this.darkPeriodService.periods$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((periods: DarkPeriod[]) => {
+        this.zone.run(() => {
+          this.darkPeriods = periods;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Rendezvous detector
+    this.rendezvousService.encounters$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((encounters: Rendezvous[]) => {
+        this.zone.run(() => {
+          this.rendezvousEncounters = encounters;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.rendezvousService.settings$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((settings: RendezvousSettings) => {
+        this.zone.run(() => {
+          this.rendezvousSettings = settings;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.rendezvousService.newEncounters$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((encounters: Rendezvous[]) => {
+        const first = encounters[0];
+        const message = encounters.length === 1
+          ? `Possible rendezvous: ${first.vesselA.name || first.vesselA.mmsi} & ${first.vesselB.name || first.vesselB.mmsi}`
+          : `${encounters.length} possible rendezvous detected`;
+        this.showNotification(message, 'warning');
+      });
+
+    // ✅ Vessel filter
+    this.vesselFilterService.filter$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((filter: VesselFilter) => {
+        this.zone.run(() => {
+          this.vesselFilter = filter;
+          this.vesselFilterActive = this.vesselFilterService.isActive(filter);
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.vesselFilterService.matchCount$
+      .pipe(auditTime(500), takeUntil(this.destroy$))
+      .subscribe(count => {
+        this.zone.run(() => {
+          this.vesselFilterMatch = count;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Saved views + URL sync
+    this.mapViewStateService.views$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((views: SavedMapView[]) => {
+        this.zone.run(() => {
+          this.savedViews = views;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.mapService.getMap()?.on('moveend', this.onMapMoveEnd);
+    merge(this.viewStateChanged$, this.vesselFilterService.filter$)
+      .pipe(debounceTime(500), takeUntil(this.destroy$))
+      .subscribe(() => this.syncViewStateToUrl());
+
+    // ✅ Followed vessel
+    this.vesselFollowService.state$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((state: FollowState) => {
+        this.zone.run(() => {
+          this.followState = state;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Vessel detail drawer
+    this.vesselDetailService.detail$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((detail: VesselDetail | null) => {
+        this.zone.run(() => {
+          this.vesselDetail = detail;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Track history
+    this.trackViewerService.state$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((state: TrackViewerState) => {
+        this.zone.run(() => {
+          this.trackViewerState = state;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.trackViewerService.settings$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((settings: TrackViewerSettings) => {
+        this.zone.run(() => {
+          this.trackViewerSettings = settings;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Custom tile sources
+    this.mapLayerService.customSources$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((sources: MapLayer[]) => {
+        this.zone.run(() => {
+          this.tileSources = sources;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Coordinate display format
+    this.coordinateService.format$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((format: CoordinateFormat) => {
+        this.zone.run(() => {
+          this.coordinateFormat = format;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ User markers
+    this.markerService.markers$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((markers: UserMarker[]) => {
+        this.zone.run(() => {
+          this.userMarkers = markers;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.markerService.editRequests$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((id: string) => {
+        this.zone.run(() => {
+          this.sidebarOpen = true;
+          this.userMarkerEditRequest = { id };
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Drawing toolkit
+    this.drawingService.shapes$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((shapes: DrawnShape[]) => {
+        this.zone.run(() => {
+          this.drawnShapes = shapes;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.drawingService.activeTool$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((tool: DrawTool | null) => {
+        this.zone.run(() => {
+          this.drawingTool = tool;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.drawingService.editingId$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((id: string | null) => {
+        this.zone.run(() => {
+          this.drawingEditingId = id;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.drawingService.history$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((history: DrawingHistoryState) => {
+        this.zone.run(() => {
+          this.drawingHistory = history;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.drawingService.vesselsInside$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((vessels: Record<string, ShapeVessel[]>) => {
+        this.zone.run(() => {
+          this.shapeVessels = vessels;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ POI area selection - keep the control toggle in sync with the map overlay
+    this.poiSelectionService.mode$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((mode: POISelectionMode | null) => {
+        this.zone.run(() => {
+          this.mapService.setControlState('poiselect', mode !== null);
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.poiSelectionService.exportRequests$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((request: POIExportRequest) => {
+        this.zone.run(() => this.onPoiAreaExport(request));
+      });
+
+    // ✅ EBL / VRM
+    this.measurementService.eblVrm$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((items: EblVrm[]) => {
+        this.zone.run(() => {
+          this.eblVrmItems = items;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.measurementService.pickingAnchor$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((picking: boolean) => {
+        this.zone.run(() => {
+          this.eblVrmPickingAnchor = picking;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Density heatmap
+    this.heatmapService.state$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((state: HeatmapState) => {
+        this.zone.run(() => {
+          this.heatmapState = state;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.heatmapService.settings$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((settings: HeatmapSettings) => {
+        this.zone.run(() => {
+          this.heatmapSettings = settings;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Offline tile cache
+    this.tileCacheMaxMb = this.tileCacheService.getMaxSizeMb();
+    this.onUseCurrentViewForTileCache();
+
+    this.tileCacheService.stats$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((stats: TileCacheStats) => {
+        this.zone.run(() => {
+          this.tileCacheStats = stats;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.tileCacheService.progress$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((progress: TileDownloadProgress) => {
+        this.zone.run(() => {
+          this.tileCacheProgress = progress;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.tileCacheService.online$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((online: boolean) => {
+        this.zone.run(() => {
+          if (!online && this.tileCacheOnline) {
+            this.showNotification('Network lost - showing cached map tiles', 'warning');
+          }
+          this.tileCacheOnline = online;
+          this.cdr.markForCheck();
+        });
+      });
+
+    // ✅ Vector overlays
+    this.overlayService.overlays$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((overlays: VectorOverlay[]) => {
+        this.zone.run(() => {
+          this.overlays = overlays;
+          this.cdr.markForCheck();
+        });
+      });
+
+    this.overlayService.importResults$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((result: OverlayImportResult) => {
+        this.zone.run(() => {
+          if (result.error) {
+            this.showNotification(`Import failed: ${result.error}`, 'error');
+          } else {
+            const features = result.overlays.reduce((sum, overlay) => sum + overlay.featureCount, 0);
+            this.showNotification(`Imported ${features} features from ${result.fileName}`, 'success');
+            this.overlayService.zoomToOverlay(result.overlays[0].id);
+          }
+          this.cdr.markForCheck();
+        });
+      });
+
     // ✅ Setup polling with optimized intervals
     this.setupOptimizedPolling();
 
@@ -514,9 +1123,9 @@ export class MapComponent implements OnInit, OnDestroy {
   }
 
   // ✅ NAVIGATION
-  navigateToPOIArea(): void {
+  navigateToPOIArea(exportFormat?: POIExportFormat): void {
     console.log('📍 Navigating to POI Area page');
-    window.location.href = '/poi-area';
+    window.location.href = exportFormat ? `/poi-area?export=${exportFormat}` : '/poi-area';
   }
 
   // ✅ EVENT HANDLERS
@@ -575,6 +1184,7 @@ export class MapComponent implements OnInit, OnDestroy {
   selectLayer(layerName: string): void {
     try {
       this.mapService.switchLayer(layerName);
+      this.viewStateChanged$.next();
       this.showNotification(`Layer switched to ${layerName}`, 'info');
       console.log(`🗺️ Switched to layer: ${layerName}`);
     } catch (error) {
@@ -602,6 +1212,10 @@ export class MapComponent implements OnInit, OnDestroy {
           this.atonPollingEnabled = true;
         }
       }
+
+      if (controlId === 'vts' || controlId === 'aton') {
+        this.viewStateChanged$.next();
+      }
       
       this.showNotification(`${controlId.toUpperCase()} ${isEnabled ? 'enabled' : 'disabled'}`, 'info');
       console.log(`🎛️ Control ${controlId} toggled: ${isEnabled}`);
@@ -625,6 +1239,8 @@ export class MapComponent implements OnInit, OnDestroy {
   toggleVtsVisibility(): void {
     this.vtsVisible = !this.vtsVisible;
     this.vtsService.toggleVtsVisibility(this.vtsVisible);
+    this.mapService.setControlState('vts', this.vtsVisible);
+    this.viewStateChanged$.next();
     
     if (this.vtsVisible && this.isConnected) {
       this.vtsPollingEnabled = true;
@@ -653,6 +1269,8 @@ export class MapComponent implements OnInit, OnDestroy {
   toggleAtonVisibility(): void {
     this.atonVisible = !this.atonVisible;
     this.atonService.toggleAtonVisibility(this.atonVisible);
+    this.mapService.setControlState('aton', this.atonVisible);
+    this.viewStateChanged$.next();
     
     if (this.atonVisible && this.isConnected) {
       this.atonPollingEnabled = true;
@@ -684,6 +1302,625 @@ export class MapComponent implements OnInit, OnDestroy {
     this.showNotification('Aggressive data collection triggered', 'info');
   }
 
+  // ✅ PLAYBACK METHODS
+  async onStartPlayback(request: { startDate: Date; endDate: Date; vessels: string[] }): Promise<void> {
+    if (request.startDate > request.endDate) {
+      this.showNotification('Start date must be before end date', 'warning');
+      return;
+    }
+
+    this.playbackLoading = true;
+    this.cdr.markForCheck();
+
+    try {
+      const loaded = await this.playbackService.start(
+        request.vessels.map(mmsi => parseInt(mmsi, 10)),
+        request.startDate,
+        request.endDate
+      );
+
+      if (loaded === 0) {
+        this.showNotification('No historical data found for the selected period', 'warning');
+      } else {
+        this.showNotification(`Playback started for ${loaded} vessel(s)`, 'success');
+      }
+    } catch (error) {
+      console.error('❌ Error starting playback:', error);
+      this.showNotification('Failed to load playback history', 'error');
+    } finally {
+      this.playbackLoading = false;
+      this.cdr.markForCheck();
+    }
+  }
+
+  onPausePlayback(): void {
+    this.playbackService.togglePause();
+  }
+
+  onStopPlayback(): void {
+    this.playbackService.stop();
+    this.showNotification('Playback stopped', 'info');
+  }
+
+  onPlaybackSpeedChange(speed: number): void {
+    this.playbackService.setSpeed(speed);
+  }
+
+  onPlaybackOptionChange(event: { option: string; enabled: boolean }): void {
+    this.playbackService.setOption(event.option, event.enabled);
+  }
+
+  onPlaybackSeek(time: Date): void {
+    this.playbackService.seek(time);
+  }
+
+  onPlaybackStep(direction: 'forward' | 'backward'): void {
+    if (direction === 'forward') {
+      this.playbackService.stepForward();
+    } else {
+      this.playbackService.stepBackward();
+    }
+  }
+
+  onPlaybackLoopChange(loop: { start: Date; end: Date } | null): void {
+    if (loop) {
+      if (this.playbackService.setLoop(loop.start, loop.end)) {
+        this.showNotification('Loop range set', 'info');
+      } else {
+        this.showNotification('Loop range must be at least 1 minute inside an active playback', 'warning');
+      }
+    } else {
+      this.playbackService.clearLoop();
+    }
+  }
+
+  // ✅ COLLISION RISK METHODS
+  onCollisionSettingsChange(settings: Partial<CollisionRiskSettings>): void {
+    this.collisionRiskService.updateSettings(settings);
+    this.showNotification('Collision risk thresholds updated', 'info');
+  }
+
+  focusOnCollisionRisk(riskId: string): void {
+    this.collisionRiskService.focusOnRisk(riskId);
+  }
+
+  // ✅ GEOFENCE METHODS
+  focusOnGeofence(geofenceId: string): void {
+    this.geofenceService.focusOnGeofence(geofenceId);
+  }
+
+  removeGeofence(geofenceId: string): void {
+    const geofence = this.geofences.find(g => g.id === geofenceId);
+    this.geofenceService.removeGeofence(geofenceId);
+    this.showNotification(`Geofence "${geofence?.name ?? geofenceId}" deleted`, 'info');
+  }
+
+  clearGeofenceAlerts(): void {
+    this.geofenceService.clearAlerts();
+  }
+
+  // ✅ BEHAVIOUR ALERT METHODS
+  onAlertRuleChange(event: { rule: AlertRuleId; changes: Record<string, unknown> }): void {
+    this.alertEngineService.updateRule(event.rule, event.changes);
+  }
+
+  focusOnVesselAlert(alertId: string): void {
+    this.alertEngineService.focusOnAlert(alertId);
+  }
+
+  clearVesselAlerts(): void {
+    this.alertEngineService.clearAlerts();
+  }
+
+  // ✅ AIS DARK PERIOD METHODS
+  focusOnDarkPeriod(periodId: string): void {
+    this.darkPeriodService.focusOnPeriod(periodId);
+  }
+
+  exportDarkPeriodsCsv(): void {
+    this.darkPeriodService.exportCsv();
+    this.showNotification(`Exported ${this.darkPeriods.length} dark periods to CSV`, 'success');
+  }
+
+  exportDarkPeriodsGeoJson(): void {
+    this.darkPeriodService.exportGeoJson();
+    this.showNotification(`Exported ${this.darkPeriods.length} dark periods to GeoJSON`, 'success');
+  }
+
+  clearDarkPeriods(): void {
+    this.darkPeriodService.clearPeriods();
+  }
+
+  // ✅ RENDEZVOUS METHODS
+  onRendezvousSettingsChange(settings: Partial<RendezvousSettings>): void {
+    this.rendezvousService.updateSettings(settings);
+  }
+
+  focusOnRendezvous(encounterId: string): void {
+    this.rendezvousService.focusOnEncounter(encounterId);
+  }
+
+  clearRendezvous(): void {
+    this.rendezvousService.clearEncounters();
+  }
+
+  // ✅ VESSEL FILTER METHODS
+  onVesselFilterChange(changes: Partial<VesselFilter>): void {
+    this.vesselFilterService.updateFilter(changes);
+  }
+
+  resetVesselFilter(): void {
+    this.vesselFilterService.resetFilter();
+  }
+
+  // ✅ SAVED VIEW METHODS
+  private getCurrentViewState(): MapViewState | null {
+    const map = this.mapService.getMap();
+    if (!map) return null;
+
+    const center = map.getCenter();
+    return {
+      center: [center.lat, center.lng],
+      zoom: map.getZoom(),
+      baseLayer: this.mapService.activeLayer,
+      vtsVisible: this.vtsVisible,
+      atonVisible: this.atonVisible,
+      filter: this.vesselFilterService.getFilter()
+    };
+  }
+
+  private applyViewState(state: Partial<MapViewState>): void {
+    const map = this.mapService.getMap();
+    if (!map) return;
+
+    if (state.center || state.zoom !== undefined) {
+      map.setView(state.center ?? map.getCenter(), state.zoom ?? map.getZoom());
+    }
+    if (state.baseLayer && state.baseLayer !== this.mapService.activeLayer) {
+      this.mapService.switchLayer(state.baseLayer);
+    }
+    if (state.vtsVisible !== undefined) {
+      this.vtsVisible = state.vtsVisible;
+      this.vtsService.toggleVtsVisibility(state.vtsVisible);
+      this.mapService.setControlState('vts', state.vtsVisible);
+    }
+    if (state.atonVisible !== undefined) {
+      this.atonVisible = state.atonVisible;
+      this.atonService.toggleAtonVisibility(state.atonVisible);
+      this.mapService.setControlState('aton', state.atonVisible);
+    }
+    if (state.filter) {
+      this.vesselFilterService.setFilter(state.filter);
+    }
+    this.cdr.markForCheck();
+  }
+
+  private syncViewStateToUrl(): void {
+    const state = this.getCurrentViewState();
+    if (!state) return;
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: this.mapViewStateService.toQueryParams(state),
+      replaceUrl: true
+    });
+  }
+
+  onSaveView(name: string): void {
+    const state = this.getCurrentViewState();
+    if (!state) return;
+    const view = this.mapViewStateService.saveView(name, state);
+    this.showNotification(`View "${view.name}" saved`, 'success');
+  }
+
+  onApplyView(viewId: string): void {
+    const view = this.mapViewStateService.getView(viewId);
+    if (!view) return;
+    this.applyViewState(view.state);
+    this.viewStateChanged$.next();
+    this.showNotification(`View "${view.name}" applied`, 'info');
+  }
+
+  onRemoveView(viewId: string): void {
+    this.mapViewStateService.removeView(viewId);
+  }
+
+  onCopyViewLink(viewId: string | null): void {
+    const state = viewId ? this.mapViewStateService.getView(viewId)?.state : this.getCurrentViewState();
+    if (!state) return;
+
+    const tree = this.router.createUrlTree(['/map'], { queryParams: this.mapViewStateService.toQueryParams(state) });
+    const url = `${window.location.origin}${this.router.serializeUrl(tree)}`;
+
+    navigator.clipboard.writeText(url)
+      .then(() => this.showNotification('Link copied to clipboard', 'success'))
+      .catch(error => {
+        console.error('❌ Failed to copy link:', error);
+        this.showNotification('Could not copy link', 'error');
+      });
+  }
+
+  // ✅ SEARCH METHODS
+  onSearchResultSelected(event: { result: SearchResult; follow: boolean }): void {
+    const { result, follow } = event;
+
+    switch (result.type) {
+      case 'vessel': {
+        const mmsi = Number(result.id);
+        this.vesselFollowService.stop();
+        if (!this.vesselService.focusOnVessel(mmsi)) {
+          this.showNotification(`Vessel ${result.label} is no longer in the live cache`, 'warning');
+          return;
+        }
+        if (follow) this.vesselFollowService.follow(mmsi);
+        break;
+      }
+      case 'vts':
+        this.vtsService.focusOnVts(result.id);
+        break;
+      case 'aton':
+        this.atonService.focusOnAton(result.id);
+        break;
+    }
+  }
+
+  stopFollowingVessel(): void {
+    this.vesselFollowService.stop();
+  }
+
+  onFollowHeadingUpChange(headingUp: boolean): void {
+    this.vesselFollowService.setHeadingUp(headingUp);
+  }
+
+  // ✅ COORDINATE METHODS
+  onCoordinateGoTo(request: CoordinateGoToRequest): void {
+    this.coordinateService.goTo(request.lat, request.lng, request.label);
+  }
+
+  onCoordinateClearMarker(): void {
+    this.coordinateService.clearGoToMarker();
+  }
+
+  onCoordinateFormatChange(format: CoordinateFormat): void {
+    this.coordinateService.setFormat(format);
+    this.showNotification(`Coordinates shown as ${format.toUpperCase()}`, 'info');
+  }
+
+  // ✅ USER MARKER METHODS
+  onFocusUserMarker(id: string): void {
+    this.markerService.focusOnMarker(id);
+  }
+
+  onUpdateUserMarker(event: { id: string; changes: UserMarkerChanges }): void {
+    this.markerService.updateMarker(event.id, event.changes);
+  }
+
+  onRemoveUserMarker(id: string): void {
+    this.markerService.removeMarker(id);
+  }
+
+  async onImportUserMarkers(files: File[]): Promise<void> {
+    for (const file of files) {
+      try {
+        const count = await this.markerService.importFile(file);
+        this.showNotification(`Imported ${count} markers from ${file.name}`, 'success');
+      } catch (error: any) {
+        console.error(`❌ Failed to import markers ${file.name}:`, error);
+        this.showNotification(`Import failed: ${error?.message || 'Could not read file'}`, 'error');
+      }
+    }
+  }
+
+  onExportUserMarkersCsv(): void {
+    this.markerService.exportCsv();
+  }
+
+  onExportUserMarkersGeoJson(): void {
+    this.markerService.exportGeoJson();
+  }
+
+  onClearUserMarkers(): void {
+    this.markerService.clearAllMarkers();
+  }
+
+  // ✅ DRAWING METHODS
+  onDrawingStartTool(event: { tool: DrawTool; bufferNm: number }): void {
+    this.drawingService.startTool(event.tool, event.bufferNm);
+  }
+
+  onDrawingCancelTool(): void {
+    this.drawingService.cancelTool();
+  }
+
+  onDrawingUndo(): void {
+    this.drawingService.undo();
+  }
+
+  onDrawingRedo(): void {
+    this.drawingService.redo();
+  }
+
+  onUpdateShape(event: ShapeUpdate): void {
+    this.drawingService.updateShape(event.id, event.changes);
+  }
+
+  onEditShape(id: string): void {
+    this.drawingService.startEditing(id);
+  }
+
+  onStopEditingShape(): void {
+    this.drawingService.stopEditing();
+  }
+
+  onFocusShape(id: string): void {
+    this.drawingService.focusOnShape(id);
+  }
+
+  onRemoveShape(id: string): void {
+    this.drawingService.removeShape(id);
+  }
+
+  onClearShapes(): void {
+    this.drawingService.clearShapes();
+  }
+
+  onShapeVesselSelected(mmsi: number): void {
+    if (!this.vesselService.focusOnVessel(mmsi)) {
+      this.showNotification(`Vessel ${mmsi} is no longer in the live cache`, 'warning');
+    }
+  }
+
+  // ✅ POI AREA SELECTION METHODS
+  onPoiAreaExport(request: POIExportRequest): void {
+    const { selection, format } = request;
+    const shape = selection.shape === 'polygon' ? `polygon (${selection.polygon.length} titik)` : 'rectangle';
+    this.showNotification(`Export ${format.toUpperCase()} untuk ${shape} dimulai`, 'info');
+    this.navigateToPOIArea(format);
+  }
+
+  // ✅ EBL / VRM METHODS
+  onEblVrmPickAnchor(): void {
+    this.measurementService.startAnchorPick();
+    this.showNotification('Click the map to place the EBL/VRM', 'info');
+  }
+
+  onEblVrmCancelPick(): void {
+    this.measurementService.cancelAnchorPick();
+  }
+
+  onEblVrmAnchorToVessel(mmsi: number): void {
+    if (!this.measurementService.anchorToVessel(mmsi)) {
+      this.showNotification('Vessel position not available', 'warning');
+    }
+  }
+
+  onEblVrmUpdate(event: { id: string; changes: Partial<Pick<EblVrm, 'bearingDeg' | 'rangeNm'>> }): void {
+    this.measurementService.updateEblVrm(event.id, event.changes);
+  }
+
+  onEblVrmRemove(id: string): void {
+    this.measurementService.removeEblVrm(id);
+  }
+
+  onEblVrmClear(): void {
+    this.measurementService.clearEblVrm();
+  }
+
+  // ✅ TILE SOURCE METHODS
+  onAddTileSource(source: TileSourceInput): void {
+    const added = this.mapLayerService.addSource(source);
+    if (!added) {
+      this.showNotification(`A layer named "${source.name}" already exists`, 'warning');
+      return;
+    }
+
+    this.showNotification(`Tile source "${added.name}" added`, 'success');
+    if (added.role === 'overlay') {
+      this.mapService.setTileOverlayVisible(added.id!, true);
+    } else {
+      this.selectLayer(added.name);
+    }
+  }
+
+  onUpdateTileSource(event: { id: string; source: TileSourceInput }): void {
+    const previous = this.tileSources.find(source => source.id === event.id);
+    const wasActiveBase = previous?.name === this.mapService.activeLayer;
+
+    if (!this.mapLayerService.updateSource(event.id, event.source)) {
+      this.showNotification(`A layer named "${event.source.name}" already exists`, 'warning');
+      return;
+    }
+    // Reload the base layer so URL / parameter edits show up straight away
+    if (wasActiveBase && event.source.role !== 'overlay') {
+      this.selectLayer(event.source.name);
+    }
+  }
+
+  onRemoveTileSource(id: string): void {
+    this.mapLayerService.removeSource(id);
+  }
+
+  onToggleTileOverlay(event: { id: string; visible: boolean }): void {
+    this.mapService.setTileOverlayVisible(event.id, event.visible);
+  }
+
+  // ✅ TILE CACHE METHODS
+  get cacheableLayers(): MapLayer[] {
+    return [...this.mapService.layers, ...this.mapService.tileOverlays];
+  }
+
+  onUseCurrentViewForTileCache(): void {
+    this.tileCacheBounds = this.tileCacheService.getViewBounds();
+    this.tileCacheZoom = this.tileCacheService.getViewZoom();
+  }
+
+  async onDownloadTiles(request: TileDownloadRequest): Promise<void> {
+    const layer = this.cacheableLayers.find(candidate => candidate.name === request.layerName);
+    if (!layer) return;
+
+    try {
+      const stored = await this.tileCacheService.downloadArea(layer, request.bounds, request.minZoom, request.maxZoom);
+      const progress = this.tileCacheProgress;
+      if (progress?.cancelled) {
+        this.showNotification(`Tile download cancelled - ${stored} tiles cached`, 'info');
+      } else if (progress && progress.failed > 0) {
+        this.showNotification(`${stored} tiles cached, ${progress.failed} failed`, 'warning');
+      } else {
+        this.showNotification(`${stored} tiles of ${layer.name} available offline`, 'success');
+      }
+    } catch (error: any) {
+      console.error('❌ Tile download failed:', error);
+      this.showNotification(error?.message || 'Tile download failed', 'error');
+    }
+  }
+
+  onCancelTileDownload(): void {
+    this.tileCacheService.cancelDownload();
+  }
+
+  async onClearTileCache(layerName?: string): Promise<void> {
+    await this.tileCacheService.clearLayer(layerName);
+    this.showNotification(layerName ? `Cached tiles of ${layerName} cleared` : 'Tile cache cleared', 'info');
+  }
+
+  async onTileCacheMaxSizeChange(megabytes: number): Promise<void> {
+    await this.tileCacheService.setMaxSizeMb(megabytes);
+    this.tileCacheMaxMb = this.tileCacheService.getMaxSizeMb();
+    this.cdr.markForCheck();
+  }
+
+  // ✅ OVERLAY METHODS
+  async onImportOverlays(files: File[]): Promise<void> {
+    this.overlayImporting = true;
+    this.cdr.markForCheck();
+
+    try {
+      await this.overlayService.importFiles(files);
+    } finally {
+      this.overlayImporting = false;
+      this.cdr.markForCheck();
+    }
+  }
+
+  onToggleOverlay(event: { id: string; visible: boolean }): void {
+    this.overlayService.setVisible(event.id, event.visible);
+  }
+
+  onOverlayStyleChange(event: { id: string; style: Partial<OverlayStyle> }): void {
+    this.overlayService.updateStyle(event.id, event.style);
+  }
+
+  onZoomToOverlay(id: string): void {
+    this.overlayService.zoomToOverlay(id);
+  }
+
+  onRemoveOverlay(id: string): void {
+    this.overlayService.removeOverlay(id);
+  }
+
+  // ✅ HEATMAP METHODS
+  onHeatmapVisibleChange(visible: boolean): void {
+    this.heatmapService.setVisible(visible);
+  }
+
+  onHeatmapShowLive(): void {
+    this.heatmapService.showLive();
+  }
+
+  async onHeatmapLoadHistory(event: { startDate: Date; endDate: Date }): Promise<void> {
+    try {
+      const result = await this.heatmapService.loadHistory(event.startDate, event.endDate);
+      if (result.status === 'too-many') {
+        this.showNotification(
+          `${result.total.toLocaleString()} reports in view (max ${result.max.toLocaleString()}) - zoom in or shorten the range`,
+          'warning'
+        );
+      } else if (result.status === 'loaded') {
+        this.showNotification(
+          result.count > 0 ? `Heatmap built from ${result.count} historical reports` : 'No historical reports in this area and range',
+          result.count > 0 ? 'success' : 'warning'
+        );
+      }
+    } catch (error) {
+      console.error('❌ Failed to load heatmap history:', error);
+      this.showNotification('Failed to load historical data for heatmap', 'error');
+    }
+  }
+
+  onHeatmapCancelHistory(): void {
+    this.heatmapService.cancelHistory();
+    this.showNotification('Heatmap history load cancelled', 'info');
+  }
+
+  onHeatmapSettingsChange(settings: Partial<HeatmapSettings>): void {
+    this.heatmapService.updateSettings(settings);
+  }
+
+  // ✅ TRACK HISTORY METHODS
+  async onLoadTrackHistory(request: { mmsi: number; startDate: Date; endDate: Date }): Promise<void> {
+    if (request.startDate > request.endDate) {
+      this.showNotification('Start date must be before end date', 'warning');
+      return;
+    }
+
+    this.trackViewerLoading = true;
+    this.cdr.markForCheck();
+
+    try {
+      const loaded = await this.trackViewerService.load(request.mmsi, request.startDate, request.endDate);
+      if (loaded === 0) {
+        this.showNotification('No track history found for the selected period', 'warning');
+      }
+    } catch (error) {
+      console.error('❌ Error loading track history:', error);
+      this.showNotification('Failed to load track history', 'error');
+    } finally {
+      this.trackViewerLoading = false;
+      this.cdr.markForCheck();
+    }
+  }
+
+  onClearTrackHistory(): void {
+    this.trackViewerService.clear();
+  }
+
+  onTrackViewerSettingsChange(settings: Partial<TrackViewerSettings>): void {
+    this.trackViewerService.updateSettings(settings);
+  }
+
+  onTrackHistoryWindowChange(hours: number): void {
+    this.trackingService.setHistoryWindow(hours);
+    this.trackHistoryWindowHours = this.trackingService.getHistoryWindowHours();
+    this.showNotification(`Local track history kept for ${this.trackHistoryWindowHours}h`, 'info');
+  }
+
+  onExportTrackHistory(format: TrackExportFormat): void {
+    const state = this.trackViewerService.getState();
+    if (state.mmsi === null) return;
+    this.trackExportService.exportTrack(state.points, { mmsi: state.mmsi, name: state.vesselName }, format);
+  }
+
+  // ✅ VESSEL DETAIL METHODS
+  closeVesselDetail(): void {
+    if (this.vesselDetail) this.vesselDetailService.close();
+  }
+
+  onVesselDetailTrackLimitChange(limit: number): void {
+    this.vesselDetailService.setTrackLimit(limit);
+  }
+
+  onVesselDetailFocus(location: [number, number]): void {
+    this.vesselDetailService.focusOnPoint(location);
+  }
+
+  onExportVesselDetailTrack(format: TrackExportFormat): void {
+    if (!this.vesselDetail) return;
+    const { vessel, track } = this.vesselDetail;
+    if (!this.trackExportService.exportTrack(track, { mmsi: vessel.mmsi, name: vessel.name }, format)) {
+      this.showNotification('No track points to export', 'warning');
+    }
+  }
+
   // ✅ UTILITY METHODS
   getLayerDescription(layerName: string): string {
     const descriptions: Record<string, string> = {
@@ -792,6 +2029,9 @@ export class MapComponent implements OnInit, OnDestroy {
     this.uiState$.complete();
     console.log('✅ UI state subject completed');
     
+    // ✅ Detach map listeners that push into component subjects
+    this.mapService.getMap()?.off('moveend', this.onMapMoveEnd);
+
     // ✅ Complete destroy subject (this unsubscribes all subscriptions)
     this.destroy$.next();
     this.destroy$.complete();
@@ -0,0 +1,338 @@
+// alert-engine.service.ts - Rule-based vessel behaviour anomaly alerts
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subject, Subscription, interval, merge } from 'rxjs';
+import { auditTime } from 'rxjs/operators';
+import { VesselWebSocketService, Vessel } from './vessel-websocket.service';
+import { GeofenceService } from './geofence.service';
+
+export type AlertRuleId = 'speedInZone' | 'aisGap' | 'courseReversal' | 'navStatus' | 'loitering';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface AlertRuleSettings {
+  speedInZone: { enabled: boolean; maxSpeedKnots: number; geofenceIds: string[] };
+  aisGap: { enabled: boolean; gapMinutes: number };
+  courseReversal: { enabled: boolean; minChangeDeg: number; windowMinutes: number; minSpeedKnots: number };
+  navStatus: { enabled: boolean; statuses: number[] };
+  loitering: { enabled: boolean; maxSpeedKnots: number; minDurationMin: number };
+}
+
+export interface VesselAlert {
+  id: string;
+  rule: AlertRuleId;
+  severity: AlertSeverity;
+  mmsi: number;
+  vesselName?: string;
+  message: string;
+  position: [number, number];
+  timestamp: Date;
+}
+
+export const ALERT_RULE_LABELS: Record<AlertRuleId, string> = {
+  speedInZone: 'Speed limit in zone',
+  aisGap: 'AIS gap',
+  courseReversal: 'Course reversal',
+  navStatus: 'Aground / Not under command',
+  loitering: 'Loitering outside anchorage'
+};
+
+export const DEFAULT_ALERT_RULE_SETTINGS: AlertRuleSettings = {
+  speedInZone: { enabled: true, maxSpeedKnots: 10, geofenceIds: [] },
+  aisGap: { enabled: true, gapMinutes: 30 },
+  courseReversal: { enabled: true, minChangeDeg: 150, windowMinutes: 5, minSpeedKnots: 3 },
+  navStatus: { enabled: true, statuses: [2, 6] },
+  loitering: { enabled: true, maxSpeedKnots: 1.5, minDurationMin: 60 }
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AlertEngineService {
+  private map: any;
+  private L: any;
+  private highlightLayer: any;
+  private evaluationSubscription: Subscription | null = null;
+
+  // ✅ Rule state per vessel
+  private activeConditions: Set<string> = new Set(); // `${rule}:${mmsi}` - fire once until cleared
+  private courseHistory: Map<number, { course: number; time: number }[]> = new Map();
+  private lowSpeedSince: Map<number, number> = new Map();
+  private lastReversalAlert: Map<number, number> = new Map();
+  private primed = false;
+
+  private readonly STORAGE_KEY = 'telkomsat-alert-rules';
+  private readonly MAX_ALERTS = 300;
+  private readonly EVALUATION_INTERVAL = 5000;
+  private readonly GAP_CHECK_INTERVAL = 60000;
+  private readonly REVERSAL_COOLDOWN_MS = 10 * 60 * 1000;
+  private readonly MAX_TRACKED_AGE_MS = 6 * 60 * 60 * 1000; // stop watching gaps after 6h silence
+
+  private settingsSubject = new BehaviorSubject<AlertRuleSettings>(DEFAULT_ALERT_RULE_SETTINGS);
+  private alertsSubject = new BehaviorSubject<VesselAlert[]>([]);
+  private newAlertsSubject = new Subject<VesselAlert[]>();
+
+  public settings$ = this.settingsSubject.asObservable();
+  public alerts$ = this.alertsSubject.asObservable();
+  public newAlerts$ = this.newAlertsSubject.asObservable();
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private geofenceService: GeofenceService,
+    private zone: NgZone
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.highlightLayer = L.layerGroup().addTo(map);
+    this.settingsSubject.next(this.loadSettings());
+
+    // ✅ Vessel updates drive most rules; the timer catches AIS gaps when the stream is quiet
+    this.evaluationSubscription = merge(
+      this.webSocketService.vesselUpdates$.pipe(auditTime(this.EVALUATION_INTERVAL)),
+      interval(this.GAP_CHECK_INTERVAL)
+    ).subscribe(() => this.evaluate());
+
+    console.log('🚨 AlertEngineService initialized');
+  }
+
+  getSettings(): AlertRuleSettings {
+    return this.settingsSubject.value;
+  }
+
+  updateRule<K extends AlertRuleId>(rule: K, changes: Partial<AlertRuleSettings[K]>): void {
+    const settings = {
+      ...this.settingsSubject.value,
+      [rule]: { ...this.settingsSubject.value[rule], ...changes }
+    };
+    this.settingsSubject.next(settings);
+    this.saveSettings(settings);
+
+    // Re-arm the rule so the new thresholds apply to vessels already flagged
+    Array.from(this.activeConditions).forEach(key => {
+      if (key.startsWith(`${rule}:`)) this.activeConditions.delete(key);
+    });
+  }
+
+  clearAlerts(): void {
+    this.alertsSubject.next([]);
+  }
+
+  focusOnAlert(alertId: string): void {
+    const alert = this.alertsSubject.value.find(a => a.id === alertId);
+    if (!alert || !this.map) return;
+
+    this.map.flyTo(alert.position, Math.max(this.map.getZoom(), 12), { duration: 1 });
+
+    this.highlightLayer.clearLayers();
+    this.L.circleMarker(alert.position, {
+      radius: 18,
+      color: alert.severity === 'critical' ? '#EF4444' : '#F59E0B',
+      weight: 3,
+      fill: false,
+      className: 'vessel-alert-highlight'
+    }).addTo(this.highlightLayer);
+    setTimeout(() => this.highlightLayer?.clearLayers(), 8000);
+  }
+
+  // ✅ Run every enabled rule over the vessel cache
+  evaluate(): void {
+    const settings = this.settingsSubject.value;
+    const vessels = this.webSocketService.getAllCachedVessels();
+    if (vessels.length === 0) return;
+
+    const now = Date.now();
+    let newAlerts: VesselAlert[] = [];
+
+    const zones = this.getSpeedZones(settings);
+    const anchorages = this.geofenceService.getGeofences().filter(g => g.type === 'anchorage');
+
+    vessels.forEach(vessel => {
+      const reportAge = now - new Date(vessel.timestamp).getTime();
+      if (reportAge > this.MAX_TRACKED_AGE_MS) return;
+
+      if (settings.aisGap.enabled) {
+        this.checkCondition(newAlerts, 'aisGap', vessel, reportAge >= settings.aisGap.gapMinutes * 60000,
+          'warning', `Silent for ${Math.round(reportAge / 60000)} min`);
+      }
+
+      if (settings.navStatus.enabled) {
+        const flagged = settings.navStatus.statuses.includes(vessel.navStatus);
+        this.checkCondition(newAlerts, 'navStatus', vessel, flagged,
+          'critical', `Nav status: ${vessel.navStatus === 6 ? 'Aground' : vessel.navStatus === 2 ? 'Not under command' : vessel.navStatus}`);
+      }
+
+      if (settings.speedInZone.enabled && zones.length > 0) {
+        const zone = zones.find(z => this.geofenceService.isPointInPolygon(vessel.latitude, vessel.longitude, z.points));
+        this.checkCondition(newAlerts, 'speedInZone', vessel,
+          !!zone && vessel.speed > settings.speedInZone.maxSpeedKnots,
+          'warning', `${vessel.speed.toFixed(1)} kn in ${zone?.name} (limit ${settings.speedInZone.maxSpeedKnots} kn)`);
+      }
+
+      if (settings.courseReversal.enabled) {
+        this.checkCourseReversal(newAlerts, vessel, settings.courseReversal, now);
+      }
+
+      if (settings.loitering.enabled) {
+        this.checkLoitering(newAlerts, vessel, settings.loitering, anchorages, now);
+      }
+    });
+
+    // First pass after load only seeds state - except vessels already aground / NUC
+    if (!this.primed) {
+      this.primed = true;
+      newAlerts = newAlerts.filter(alert => alert.rule === 'navStatus');
+    }
+
+    if (newAlerts.length > 0) {
+      this.zone.run(() => {
+        this.alertsSubject.next([...newAlerts, ...this.alertsSubject.value].slice(0, this.MAX_ALERTS));
+        this.newAlertsSubject.next(newAlerts);
+      });
+      console.log(`🚨 Alert engine: ${newAlerts.length} new alerts`);
+    }
+  }
+
+  // ✅ Stateful conditions fire once when they become true and re-arm when they clear
+  private checkCondition(
+    out: VesselAlert[],
+    rule: AlertRuleId,
+    vessel: Vessel,
+    active: boolean,
+    severity: AlertSeverity,
+    message: string
+  ): void {
+    const key = `${rule}:${vessel.mmsi}`;
+    if (!active) {
+      this.activeConditions.delete(key);
+      return;
+    }
+    if (this.activeConditions.has(key)) return;
+
+    this.activeConditions.add(key);
+    out.push(this.createAlert(rule, vessel, severity, message));
+  }
+
+  private checkCourseReversal(
+    out: VesselAlert[],
+    vessel: Vessel,
+    rule: AlertRuleSettings['courseReversal'],
+    now: number
+  ): void {
+    if (vessel.course >= 360) return;
+
+    const reportTime = new Date(vessel.timestamp).getTime();
+    const history = (this.courseHistory.get(vessel.mmsi) ?? [])
+      .filter(sample => reportTime - sample.time <= rule.windowMinutes * 60000);
+
+    if (history.length === 0 || history[history.length - 1].time < reportTime) {
+      history.push({ course: vessel.course, time: reportTime });
+    }
+    this.courseHistory.set(vessel.mmsi, history);
+
+    if (vessel.speed < rule.minSpeedKnots || history.length < 2) return;
+    if (now - (this.lastReversalAlert.get(vessel.mmsi) ?? 0) < this.REVERSAL_COOLDOWN_MS) return;
+
+    const maxChange = Math.max(...history.map(sample => this.angleDifference(sample.course, vessel.course)));
+    if (maxChange >= rule.minChangeDeg) {
+      this.lastReversalAlert.set(vessel.mmsi, now);
+      this.courseHistory.set(vessel.mmsi, [{ course: vessel.course, time: reportTime }]);
+      out.push(this.createAlert('courseReversal', vessel, 'warning',
+        `Course changed ${maxChange.toFixed(0)}° within ${rule.windowMinutes} min`));
+    }
+  }
+
+  private checkLoitering(
+    out: VesselAlert[],
+    vessel: Vessel,
+    rule: AlertRuleSettings['loitering'],
+    anchorages: { points: [number, number][] }[],
+    now: number
+  ): void {
+    const moored = vessel.navStatus === 5;
+    const slow = vessel.speed <= rule.maxSpeedKnots;
+    const inAnchorage = slow && anchorages.some(a =>
+      this.geofenceService.isPointInPolygon(vessel.latitude, vessel.longitude, a.points));
+
+    if (!slow || moored || inAnchorage) {
+      this.lowSpeedSince.delete(vessel.mmsi);
+      this.checkCondition(out, 'loitering', vessel, false, 'info', '');
+      return;
+    }
+
+    if (!this.lowSpeedSince.has(vessel.mmsi)) {
+      this.lowSpeedSince.set(vessel.mmsi, now);
+    }
+    const duration = now - this.lowSpeedSince.get(vessel.mmsi)!;
+    this.checkCondition(out, 'loitering', vessel, duration >= rule.minDurationMin * 60000,
+      'info', `Below ${rule.maxSpeedKnots} kn for ${Math.round(duration / 60000)} min outside anchorages`);
+  }
+
+  private getSpeedZones(settings: AlertRuleSettings): { name: string; points: [number, number][] }[] {
+    const geofences = this.geofenceService.getGeofences();
+    const ids = settings.speedInZone.geofenceIds;
+    return ids.length > 0 ? geofences.filter(g => ids.includes(g.id)) : geofences;
+  }
+
+  private angleDifference(a: number, b: number): number {
+    const diff = Math.abs(a - b) % 360;
+    return diff > 180 ? 360 - diff : diff;
+  }
+
+  private createAlert(rule: AlertRuleId, vessel: Vessel, severity: AlertSeverity, message: string): VesselAlert {
+    return {
+      id: `${rule}-${vessel.mmsi}-${Date.now()}`,
+      rule,
+      severity,
+      mmsi: vessel.mmsi,
+      vesselName: vessel.name,
+      message,
+      position: [vessel.latitude, vessel.longitude],
+      timestamp: new Date()
+    };
+  }
+
+  // ===================================
+  // ✅ PERSISTENCE
+  // ===================================
+
+  private saveSettings(settings: AlertRuleSettings): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('❌ Failed to save alert rules:', error);
+    }
+  }
+
+  private loadSettings(): AlertRuleSettings {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return DEFAULT_ALERT_RULE_SETTINGS;
+
+      // Merge per rule so newly added parameters get their defaults
+      const parsed = JSON.parse(stored) as Partial<AlertRuleSettings>;
+      const merged: AlertRuleSettings = { ...DEFAULT_ALERT_RULE_SETTINGS };
+      const mergeRule = <K extends AlertRuleId>(rule: K): void => {
+        merged[rule] = { ...DEFAULT_ALERT_RULE_SETTINGS[rule], ...(parsed[rule] ?? {}) };
+      };
+      (Object.keys(DEFAULT_ALERT_RULE_SETTINGS) as AlertRuleId[]).forEach(mergeRule);
+      return merged;
+    } catch (error) {
+      console.error('❌ Failed to load alert rules:', error);
+      return DEFAULT_ALERT_RULE_SETTINGS;
+    }
+  }
+
+  cleanup(): void {
+    this.evaluationSubscription?.unsubscribe();
+    this.evaluationSubscription = null;
+    if (this.map && this.highlightLayer) {
+      this.map.removeLayer(this.highlightLayer);
+    }
+    this.highlightLayer = null;
+    this.activeConditions.clear();
+    this.courseHistory.clear();
+    this.lowSpeedSince.clear();
+    this.lastReversalAlert.clear();
+    this.primed = false;
+  }
+}
@@ -0,0 +1,135 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { Subject } from 'rxjs';
+
+import { CollisionRisk, CollisionRiskService } from './collision-risk.service';
+import { Vessel, VesselWebSocketService } from './vessel-websocket.service';
+
+// 1 nm = 1 arc-minute; near the equator that holds for longitude too
+const NM = 1 / 60;
+
+function vessel(mmsi: number, latitude: number, longitude: number, course: number, speed: number, ageMs = 0): Vessel {
+  return {
+    mmsi,
+    latitude,
+    longitude,
+    course,
+    speed,
+    vesselType: 70,
+    navStatus: 0,
+    timestamp: new Date(Date.now() - ageMs)
+  };
+}
+
+describe('CollisionRiskService', () => {
+  let service: CollisionRiskService;
+  let vessels: Vessel[];
+  let risks: CollisionRisk[];
+
+  beforeEach(() => {
+    vessels = [];
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        {
+          provide: VesselWebSocketService,
+          useValue: { vesselUpdates$: new Subject<void>(), getAllCachedVessels: () => vessels }
+        }
+      ]
+    });
+    service = TestBed.inject(CollisionRiskService);
+    service.risks$.subscribe(current => risks = current);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('reports a head-on meeting with zero CPA', () => {
+    // 2 nm apart, closing at 20 kn
+    vessels = [vessel(1, 0, 0, 90, 10), vessel(2, 0, 2 * NM, 270, 10)];
+    service.analyze();
+
+    expect(risks.length).toBe(1);
+    expect(risks[0].cpaNm).toBeCloseTo(0, 3);
+    expect(risks[0].tcpaMin).toBeCloseTo(6, 1);
+    expect(risks[0].currentDistanceNm).toBeCloseTo(2, 3);
+    expect(risks[0].level).toBe('danger');
+  });
+
+  it('measures CPA as the lateral offset of passing vessels', () => {
+    // Reciprocal courses 0.3 nm apart, 3 nm to go at 20 kn closing
+    vessels = [vessel(1, 0, 0, 90, 10), vessel(2, 0.3 * NM, 3 * NM, 270, 10)];
+    service.analyze();
+
+    expect(risks.length).toBe(1);
+    expect(risks[0].cpaNm).toBeCloseTo(0.3, 3);
+    expect(risks[0].tcpaMin).toBeCloseTo(9, 1);
+    expect(risks[0].level).toBe('warning');
+  });
+
+  it('places the CPA positions where both vessels meet', () => {
+    vessels = [vessel(1, 0, 0, 90, 10), vessel(2, 0, 2 * NM, 270, 10)];
+    service.analyze();
+
+    const [latA, lngA] = risks[0].cpaPositionA;
+    const [latB, lngB] = risks[0].cpaPositionB;
+    expect(latA).toBeCloseTo(0, 5);
+    expect(lngA).toBeCloseTo(NM, 5);
+    expect(latB).toBeCloseTo(0, 5);
+    expect(lngB).toBeCloseTo(NM, 5);
+  });
+
+  it('handles a crossing at right angles', () => {
+    // A heads north from 2 nm south of the crossing point, B heads west from 2 nm east of it
+    vessels = [vessel(1, -2 * NM, 0, 0, 10), vessel(2, 0, 2 * NM, 270, 10)];
+    service.analyze();
+
+    expect(risks.length).toBe(1);
+    expect(risks[0].cpaNm).toBeCloseTo(0, 3);
+    expect(risks[0].tcpaMin).toBeCloseTo(12, 1);
+  });
+
+  it('propagates stale reports to the current time', () => {
+    // Same head-on meeting reported 3 minutes ago: half of the closing time has passed
+    vessels = [vessel(1, 0, 0, 90, 10, 3 * 60000), vessel(2, 0, 2 * NM, 270, 10, 3 * 60000)];
+    service.analyze();
+
+    expect(risks.length).toBe(1);
+    expect(risks[0].tcpaMin).toBeCloseTo(3, 1);
+    expect(risks[0].currentDistanceNm).toBeCloseTo(1, 2);
+  });
+
+  it('ignores vessels that are moving apart', () => {
+    vessels = [vessel(1, 0, 0, 270, 10), vessel(2, 0, 2 * NM, 90, 10)];
+    service.analyze();
+
+    expect(risks.length).toBe(0);
+  });
+
+  it('ignores vessels on the same course and speed', () => {
+    vessels = [vessel(1, 0, 0, 45, 12), vessel(2, 0.2 * NM, 0.2 * NM, 45, 12)];
+    service.updateSettings({ cpaThresholdNm: 0.1 });
+
+    expect(risks.length).toBe(0);
+  });
+
+  it('respects the CPA and TCPA thresholds', () => {
+    // 5 nm apart closing at 10 kn: TCPA 30 min
+    vessels = [vessel(1, 0, 0, 90, 5), vessel(2, 0, 5 * NM, 270, 5)];
+    service.analyze();
+    expect(risks.length).toBe(0);
+
+    service.updateSettings({ tcpaThresholdMin: 40 });
+    expect(risks.length).toBe(1);
+    expect(risks[0].tcpaMin).toBeCloseTo(30, 1);
+
+    // Passing 0.4 nm off is a risk at 0.5 nm CPA but not at 0.3 nm
+    vessels = [vessel(1, 0, 0, 90, 10), vessel(2, 0.4 * NM, 3 * NM, 270, 10)];
+    service.analyze();
+    expect(risks.length).toBe(1);
+
+    service.updateSettings({ cpaThresholdNm: 0.3 });
+    expect(risks.length).toBe(0);
+  });
+});
@@ -0,0 +1,323 @@
+// collision-risk.service.ts - CPA/TCPA monitor for nearby vessel pairs
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { auditTime } from 'rxjs/operators';
+import { VesselWebSocketService, Vessel } from './vessel-websocket.service';
+
+export interface CollisionRiskSettings {
+  cpaThresholdNm: number;
+  tcpaThresholdMin: number;
+  searchRadiusNm: number;
+  minSpeedKnots: number;
+}
+
+export type CollisionRiskLevel = 'danger' | 'warning';
+
+export interface CollisionRisk {
+  id: string;
+  vesselA: Vessel;
+  vesselB: Vessel;
+  cpaNm: number;
+  tcpaMin: number;
+  currentDistanceNm: number;
+  cpaPositionA: [number, number];
+  cpaPositionB: [number, number];
+  level: CollisionRiskLevel;
+  detectedAt: Date;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CollisionRiskService {
+  private map: any;
+  private L: any;
+  private riskLayer: any;
+  private enabled = true;
+  private updatesSubscription: Subscription | null = null;
+
+  // ✅ First detection time per pair survives recalculation
+  private firstDetected: Map<string, Date> = new Map();
+
+  private readonly MAX_REPORT_AGE_MS = 10 * 60 * 1000; // older reports are too uncertain for CPA
+  private readonly MAX_SPEED_KNOTS = 50;
+  private readonly ANALYSIS_INTERVAL = 5000;
+
+  private settingsSubject = new BehaviorSubject<CollisionRiskSettings>({
+    cpaThresholdNm: 0.5,
+    tcpaThresholdMin: 20,
+    searchRadiusNm: 6,
+    minSpeedKnots: 0.5
+  });
+  private risksSubject = new BehaviorSubject<CollisionRisk[]>([]);
+
+  public settings$ = this.settingsSubject.asObservable();
+  public risks$ = this.risksSubject.asObservable();
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private zone: NgZone
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.riskLayer = L.layerGroup().addTo(map);
+
+    this.updatesSubscription = this.webSocketService.vesselUpdates$
+      .pipe(auditTime(this.ANALYSIS_INTERVAL))
+      .subscribe(() => this.analyze());
+
+    console.log('⚠️ CollisionRiskService initialized');
+  }
+
+  toggle(enabled: boolean): void {
+    this.enabled = enabled;
+    if (enabled) {
+      this.analyze();
+    } else {
+      this.riskLayer?.clearLayers();
+      this.firstDetected.clear();
+      this.risksSubject.next([]);
+    }
+  }
+
+  getSettings(): CollisionRiskSettings {
+    return this.settingsSubject.value;
+  }
+
+  updateSettings(settings: Partial<CollisionRiskSettings>): void {
+    this.settingsSubject.next({ ...this.settingsSubject.value, ...settings });
+    this.analyze();
+  }
+
+  focusOnRisk(riskId: string): void {
+    const risk = this.risksSubject.value.find(r => r.id === riskId);
+    if (!risk || !this.map) return;
+
+    const bounds = this.L.latLngBounds([
+      [risk.vesselA.latitude, risk.vesselA.longitude],
+      [risk.vesselB.latitude, risk.vesselB.longitude],
+      risk.cpaPositionA,
+      risk.cpaPositionB
+    ]);
+    this.map.fitBounds(bounds, { padding: [60, 60], maxZoom: 14 });
+  }
+
+  // ✅ Run the pairwise analysis on the current vessel cache
+  analyze(): void {
+    if (!this.enabled) return;
+
+    const settings = this.settingsSubject.value;
+    const now = Date.now();
+    const candidates = this.webSocketService.getAllCachedVessels().filter(vessel =>
+      now - new Date(vessel.timestamp).getTime() <= this.MAX_REPORT_AGE_MS &&
+      vessel.speed <= this.MAX_SPEED_KNOTS &&
+      vessel.course < 360
+    );
+
+    const risks: CollisionRisk[] = [];
+    const seen = new Set<string>();
+
+    this.findNearbyPairs(candidates, settings.searchRadiusNm).forEach(([a, b]) => {
+      // At least one vessel must be under way
+      if (a.speed < settings.minSpeedKnots && b.speed < settings.minSpeedKnots) return;
+
+      const risk = this.calculateRisk(a, b, settings, now);
+      if (risk) {
+        risks.push(risk);
+        seen.add(risk.id);
+      }
+    });
+
+    // Forget pairs that are no longer at risk
+    Array.from(this.firstDetected.keys()).forEach(id => {
+      if (!seen.has(id)) this.firstDetected.delete(id);
+    });
+
+    risks.sort((x, y) => x.tcpaMin - y.tcpaMin);
+    this.drawRisks(risks);
+    this.zone.run(() => this.risksSubject.next(risks));
+
+    if (risks.length > 0) {
+      console.log(`⚠️ Collision risk: ${risks.length} pairs below CPA ${settings.cpaThresholdNm} nm / TCPA ${settings.tcpaThresholdMin} min`);
+    }
+  }
+
+  // ✅ Grid bucketing so we don't compare every vessel with every other vessel
+  private findNearbyPairs(vessels: Vessel[], radiusNm: number): [Vessel, Vessel][] {
+    const cellSizeDeg = radiusNm / 60;
+    const grid: Map<string, Vessel[]> = new Map();
+
+    vessels.forEach(vessel => {
+      const key = `${Math.floor(vessel.latitude / cellSizeDeg)}:${Math.floor(vessel.longitude / cellSizeDeg)}`;
+      const cell = grid.get(key);
+      if (cell) {
+        cell.push(vessel);
+      } else {
+        grid.set(key, [vessel]);
+      }
+    });
+
+    const pairs: [Vessel, Vessel][] = [];
+    vessels.forEach(vessel => {
+      const row = Math.floor(vessel.latitude / cellSizeDeg);
+      const col = Math.floor(vessel.longitude / cellSizeDeg);
+
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          grid.get(`${row + dr}:${col + dc}`)?.forEach(other => {
+            if (other.mmsi > vessel.mmsi && this.flatDistanceNm(vessel, other) <= radiusNm) {
+              pairs.push([vessel, other]);
+            }
+          });
+        }
+      }
+    });
+    return pairs;
+  }
+
+  // ✅ CPA/TCPA on a local flat projection (nm), positions propagated to "now"
+  private calculateRisk(a: Vessel, b: Vessel, settings: CollisionRiskSettings, now: number): CollisionRisk | null {
+    const refLat = (a.latitude + b.latitude) / 2;
+    const cosLat = Math.cos(refLat * Math.PI / 180);
+
+    const va = this.velocity(a);
+    const vb = this.velocity(b);
+    const pa = this.propagate(a, va, refLat, cosLat, now);
+    const pb = this.propagate(b, vb, refLat, cosLat, now);
+
+    const rx = pb.x - pa.x;
+    const ry = pb.y - pa.y;
+    const vx = vb.x - va.x;
+    const vy = vb.y - va.y;
+    const relSpeedSq = vx * vx + vy * vy;
+
+    const tcpaHours = relSpeedSq > 1e-6 ? -(rx * vx + ry * vy) / relSpeedSq : 0;
+    if (tcpaHours < 0) return null; // already diverging
+
+    const tcpaMin = tcpaHours * 60;
+    const cpaNm = Math.hypot(rx + vx * tcpaHours, ry + vy * tcpaHours);
+    if (cpaNm > settings.cpaThresholdNm || tcpaMin > settings.tcpaThresholdMin) return null;
+
+    const id = `${a.mmsi}-${b.mmsi}`;
+    if (!this.firstDetected.has(id)) {
+      this.firstDetected.set(id, new Date());
+    }
+
+    const toLatLng = (x: number, y: number): [number, number] => [refLat + y / 60, x / (60 * cosLat)];
+
+    return {
+      id,
+      vesselA: a,
+      vesselB: b,
+      cpaNm,
+      tcpaMin,
+      currentDistanceNm: Math.hypot(rx, ry),
+      cpaPositionA: toLatLng(pa.x + va.x * tcpaHours, pa.y + va.y * tcpaHours),
+      cpaPositionB: toLatLng(pb.x + vb.x * tcpaHours, pb.y + vb.y * tcpaHours),
+      level: cpaNm <= settings.cpaThresholdNm / 2 && tcpaMin <= settings.tcpaThresholdMin / 2 ? 'danger' : 'warning',
+      detectedAt: this.firstDetected.get(id)!
+    };
+  }
+
+  // Velocity in nm/h (x = east, y = north)
+  private velocity(vessel: Vessel): { x: number; y: number } {
+    const course = vessel.course * Math.PI / 180;
+    return { x: vessel.speed * Math.sin(course), y: vessel.speed * Math.cos(course) };
+  }
+
+  private propagate(vessel: Vessel, v: { x: number; y: number }, refLat: number, cosLat: number, now: number): { x: number; y: number } {
+    const ageHours = Math.max(0, now - new Date(vessel.timestamp).getTime()) / 3600000;
+    return {
+      x: vessel.longitude * 60 * cosLat + v.x * ageHours,
+      y: (vessel.latitude - refLat) * 60 + v.y * ageHours
+    };
+  }
+
+  private flatDistanceNm(a: Vessel, b: Vessel): number {
+    const cosLat = Math.cos(((a.latitude + b.latitude) / 2) * Math.PI / 180);
+    return Math.hypot((b.longitude - a.longitude) * 60 * cosLat, (b.latitude - a.latitude) * 60);
+  }
+
+  // ===================================
+  // ✅ MAP RENDERING
+  // ===================================
+
+  private drawRisks(risks: CollisionRisk[]): void {
+    if (!this.riskLayer) return;
+    this.riskLayer.clearLayers();
+
+    risks.forEach(risk => {
+      const color = risk.level === 'danger' ? '#EF4444' : '#F59E0B';
+      const posA: [number, number] = [risk.vesselA.latitude, risk.vesselA.longitude];
+      const posB: [number, number] = [risk.vesselB.latitude, risk.vesselB.longitude];
+
+      // Projected tracks to the CPA
+      [[posA, risk.cpaPositionA], [posB, risk.cpaPositionB]].forEach(segment => {
+        this.L.polyline(segment, { color, weight: 2, opacity: 0.8, dashArray: '6, 6', interactive: false })
+          .addTo(this.riskLayer);
+      });
+
+      // CPA separation line and end points
+      this.L.polyline([risk.cpaPositionA, risk.cpaPositionB], { color, weight: 3, opacity: 0.9 })
+        .bindTooltip(`CPA ${risk.cpaNm.toFixed(2)} nm • TCPA ${risk.tcpaMin.toFixed(1)} min`, {
+          permanent: true,
+          direction: 'center',
+          className: `collision-risk-tooltip ${risk.level}`
+        })
+        .bindPopup(this.createRiskPopup(risk))
+        .addTo(this.riskLayer);
+
+      [risk.cpaPositionA, risk.cpaPositionB].forEach(position => {
+        this.L.circleMarker(position, {
+          radius: 5,
+          color,
+          fillColor: color,
+          fillOpacity: 0.9,
+          weight: 1
+        }).addTo(this.riskLayer);
+      });
+
+      // Highlight ring around both vessels
+      [posA, posB].forEach(position => {
+        this.L.circleMarker(position, {
+          radius: 14,
+          color,
+          fill: false,
+          weight: 2,
+          className: `collision-risk-ring ${risk.level}`,
+          interactive: false
+        }).addTo(this.riskLayer);
+      });
+    });
+  }
+
+  private createRiskPopup(risk: CollisionRisk): string {
+    return `
+      <div class="custom-popup collision-risk-popup">
+        <div class="popup-header">
+          <strong>${risk.level === 'danger' ? '🚨' : '⚠️'} Risiko Tubrukan</strong>
+        </div>
+        <div class="popup-content">
+          <p><strong>${risk.vesselA.name || 'Unknown'}</strong> (${risk.vesselA.mmsi}) • ${risk.vesselA.speed.toFixed(1)} kn @ ${risk.vesselA.course.toFixed(0)}°</p>
+          <p><strong>${risk.vesselB.name || 'Unknown'}</strong> (${risk.vesselB.mmsi}) • ${risk.vesselB.speed.toFixed(1)} kn @ ${risk.vesselB.course.toFixed(0)}°</p>
+          <p><strong>CPA:</strong> ${risk.cpaNm.toFixed(2)} nm • <strong>TCPA:</strong> ${risk.tcpaMin.toFixed(1)} min</p>
+          <p><strong>Jarak saat ini:</strong> ${risk.currentDistanceNm.toFixed(2)} nm</p>
+          <p><strong>Terdeteksi:</strong> ${risk.detectedAt.toLocaleTimeString('id-ID')}</p>
+        </div>
+      </div>
+    `;
+  }
+
+  cleanup(): void {
+    this.updatesSubscription?.unsubscribe();
+    this.updatesSubscription = null;
+    if (this.map && this.riskLayer) {
+      this.map.removeLayer(this.riskLayer);
+    }
+    this.riskLayer = null;
+    this.firstDetected.clear();
+    this.risksSubject.next([]);
+  }
+}
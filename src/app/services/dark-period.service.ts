@@ -0,0 +1,415 @@
+// dark-period.service.ts - AIS transmission gap detection, map rendering and export
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subscription, interval, merge } from 'rxjs';
+import { auditTime, filter, take } from 'rxjs/operators';
+import { VesselWebSocketService, Vessel } from './vessel-websocket.service';
+import { VesselTrackingService } from './vessel-tracking.service';
+import { downloadFile } from '../utils/download-file';
+
+export type DarkPeriodStatus = 'ongoing' | 'closed';
+
+export interface DarkPeriod {
+  id: string;
+  mmsi: number;
+  vesselName?: string;
+  source?: string;
+  status: DarkPeriodStatus;
+  start: Date; // last report before the gap
+  end: Date | null; // first report after the gap
+  durationMin: number;
+  expectedIntervalMin: number;
+  lastSeenPosition: [number, number];
+  reappearPosition: [number, number] | null;
+  distanceNm: number | null;
+  impliedSpeedKnots: number | null;
+}
+
+interface LastSeen {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  source?: string;
+  vesselClass?: string;
+  name?: string;
+  seenThisSession: boolean;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DarkPeriodService {
+  private map: any;
+  private L: any;
+  private gapLayer: any;
+  private gapLayers: Map<string, any> = new Map();
+  private visible = true;
+  private subscriptions: Subscription[] = [];
+
+  private lastSeen: Map<number, LastSeen> = new Map();
+  private ongoing: Map<number, DarkPeriod> = new Map();
+
+  // ✅ Expected reporting intervals before a silence counts as a gap
+  private readonly TERRESTRIAL_CLASS_A_MIN = 10;
+  private readonly TERRESTRIAL_CLASS_B_MIN = 15;
+  private readonly SATELLITE_MIN = 60;
+  private readonly STATIONARY_FACTOR = 3; // anchored/moored vessels report far less often
+  private readonly FAST_FACTOR = 0.5;
+  private readonly MIN_GAP_MIN = 5;
+  private readonly MAX_PERIODS = 500;
+  private readonly CHECK_INTERVAL = 60000;
+
+  private periodsSubject = new BehaviorSubject<DarkPeriod[]>([]);
+  public periods$ = this.periodsSubject.asObservable();
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private trackingService: VesselTrackingService,
+    private zone: NgZone
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.gapLayer = L.layerGroup().addTo(map);
+
+    // ✅ Persisted track history tells us where vessels were before a reload
+    this.subscriptions.push(
+      this.trackingService.historyRestored$
+        .pipe(filter(restored => restored), take(1))
+        .subscribe(() => this.seedFromTrackHistory())
+    );
+
+    this.subscriptions.push(
+      merge(
+        this.webSocketService.vesselUpdates$.pipe(auditTime(2000)),
+        interval(this.CHECK_INTERVAL)
+      ).subscribe(() => this.detect())
+    );
+
+    console.log('🌑 DarkPeriodService initialized');
+  }
+
+  toggle(visible: boolean): void {
+    this.visible = visible;
+    if (!this.map || !this.gapLayer) return;
+    if (visible && !this.map.hasLayer(this.gapLayer)) {
+      this.map.addLayer(this.gapLayer);
+    } else if (!visible && this.map.hasLayer(this.gapLayer)) {
+      this.map.removeLayer(this.gapLayer);
+    }
+  }
+
+  getPeriods(): DarkPeriod[] {
+    return this.periodsSubject.value;
+  }
+
+  // ✅ Expected interval scales with source, AIS class and speed
+  getExpectedIntervalMin(speed: number, source?: string, vesselClass?: string): number {
+    const isSatellite = /sat/i.test(source ?? '');
+    const isClassB = /b/i.test(vesselClass ?? '');
+
+    let expected = isSatellite
+      ? this.SATELLITE_MIN
+      : isClassB ? this.TERRESTRIAL_CLASS_B_MIN : this.TERRESTRIAL_CLASS_A_MIN;
+
+    if (speed < 0.5) {
+      expected *= this.STATIONARY_FACTOR;
+    } else if (speed > 14) {
+      expected *= this.FAST_FACTOR;
+    }
+    return Math.max(expected, this.MIN_GAP_MIN);
+  }
+
+  focusOnPeriod(id: string): void {
+    const period = this.periodsSubject.value.find(p => p.id === id);
+    if (!period || !this.map) return;
+
+    if (period.reappearPosition) {
+      this.map.fitBounds(this.L.latLngBounds([period.lastSeenPosition, period.reappearPosition]), {
+        padding: [60, 60],
+        maxZoom: 13
+      });
+    } else {
+      this.map.flyTo(period.lastSeenPosition, Math.max(this.map.getZoom(), 11));
+    }
+    this.gapLayers.get(id)?.eachLayer((layer: any) => layer.getPopup?.() && layer.openPopup());
+  }
+
+  clearPeriods(): void {
+    this.gapLayer?.clearLayers();
+    this.gapLayers.clear();
+    this.ongoing.clear();
+    this.periodsSubject.next([]);
+  }
+
+  detect(): void {
+    const vessels = this.webSocketService.getAllCachedVessels();
+    const now = Date.now();
+    const changed: DarkPeriod[] = [];
+
+    vessels.forEach(vessel => {
+      const reportTime = new Date(vessel.timestamp).getTime();
+      const previous = this.lastSeen.get(vessel.mmsi);
+
+      if (previous && reportTime > previous.timestamp) {
+        const gapMin = (reportTime - previous.timestamp) / 60000;
+        const expected = this.getExpectedIntervalMin(previous.speed, previous.source, previous.vesselClass);
+        const open = this.ongoing.get(vessel.mmsi);
+
+        if (open) {
+          this.closePeriod(open, vessel, reportTime);
+          this.ongoing.delete(vessel.mmsi);
+          changed.push(open);
+        } else if (gapMin > expected) {
+          const period = this.createPeriod(vessel.mmsi, previous, expected);
+          this.closePeriod(period, vessel, reportTime);
+          changed.push(period);
+        }
+      }
+
+      if (!previous || reportTime > previous.timestamp) {
+        this.lastSeen.set(vessel.mmsi, {
+          timestamp: reportTime,
+          latitude: vessel.latitude,
+          longitude: vessel.longitude,
+          speed: vessel.speed,
+          source: vessel.source,
+          vesselClass: vessel.vesselClass,
+          name: vessel.name,
+          seenThisSession: !!previous
+        });
+      }
+    });
+
+    // ✅ Vessels we watched transmit this session that have now gone silent
+    this.lastSeen.forEach((seen, mmsi) => {
+      if (!seen.seenThisSession || this.ongoing.has(mmsi)) return;
+      const expected = this.getExpectedIntervalMin(seen.speed, seen.source, seen.vesselClass);
+      if ((now - seen.timestamp) / 60000 > expected) {
+        const period = this.createPeriod(mmsi, seen, expected);
+        period.durationMin = (now - seen.timestamp) / 60000;
+        this.ongoing.set(mmsi, period);
+        changed.push(period);
+      }
+    });
+
+    // Keep ongoing durations current
+    this.ongoing.forEach(period => {
+      period.durationMin = (now - period.start.getTime()) / 60000;
+    });
+
+    if (changed.length > 0) {
+      this.commit(changed);
+    }
+  }
+
+  private seedFromTrackHistory(): void {
+    let seeded = 0;
+    this.trackingService.getAllVesselTracks().forEach(track => {
+      if (this.lastSeen.has(track.mmsi)) return;
+      const position = track.currentPosition;
+      this.lastSeen.set(track.mmsi, {
+        timestamp: position.timestamp.getTime(),
+        latitude: position.latitude,
+        longitude: position.longitude,
+        speed: position.speed ?? 0,
+        seenThisSession: false
+      });
+      seeded++;
+    });
+    console.log(`🌑 Dark period detection seeded from ${seeded} persisted tracks`);
+  }
+
+  private createPeriod(mmsi: number, seen: LastSeen, expectedIntervalMin: number): DarkPeriod {
+    return {
+      id: `dark-${mmsi}-${seen.timestamp}`,
+      mmsi,
+      vesselName: seen.name,
+      source: seen.source,
+      status: 'ongoing',
+      start: new Date(seen.timestamp),
+      end: null,
+      durationMin: 0,
+      expectedIntervalMin,
+      lastSeenPosition: [seen.latitude, seen.longitude],
+      reappearPosition: null,
+      distanceNm: null,
+      impliedSpeedKnots: null
+    };
+  }
+
+  private closePeriod(period: DarkPeriod, vessel: Vessel, reportTime: number): void {
+    const distanceMeters = this.trackingService.calculateDistance(
+      period.lastSeenPosition[0], period.lastSeenPosition[1], vessel.latitude, vessel.longitude
+    );
+
+    period.status = 'closed';
+    period.end = new Date(reportTime);
+    period.durationMin = (reportTime - period.start.getTime()) / 60000;
+    period.vesselName = period.vesselName || vessel.name;
+    period.reappearPosition = [vessel.latitude, vessel.longitude];
+    period.distanceNm = distanceMeters / 1852;
+    period.impliedSpeedKnots = period.durationMin > 0 ? period.distanceNm / (period.durationMin / 60) : null;
+  }
+
+  private commit(changed: DarkPeriod[]): void {
+    const byId = new Map(this.periodsSubject.value.map(period => [period.id, period]));
+    changed.forEach(period => byId.set(period.id, { ...period }));
+
+    const periods = Array.from(byId.values())
+      .sort((a, b) => b.start.getTime() - a.start.getTime())
+      .slice(0, this.MAX_PERIODS);
+
+    // Periods trimmed off the end take their map layers with them
+    const kept = new Set(periods.map(period => period.id));
+    Array.from(this.gapLayers.entries()).forEach(([id, group]) => {
+      if (kept.has(id)) return;
+      this.gapLayer?.removeLayer(group);
+      this.gapLayers.delete(id);
+    });
+
+    changed.filter(period => kept.has(period.id)).forEach(period => this.drawPeriod(period));
+    this.zone.run(() => this.periodsSubject.next(periods));
+    console.log(`🌑 Dark periods updated: ${changed.length} changed, ${periods.length} recorded`);
+  }
+
+  // ===================================
+  // ✅ MAP RENDERING
+  // ===================================
+
+  private drawPeriod(period: DarkPeriod): void {
+    if (!this.gapLayer) return;
+
+    this.gapLayers.get(period.id)?.clearLayers();
+    const group = this.gapLayers.get(period.id) ?? this.L.layerGroup().addTo(this.gapLayer);
+    this.gapLayers.set(period.id, group);
+
+    const popup = this.createPeriodPopup(period);
+
+    this.L.circleMarker(period.lastSeenPosition, {
+      radius: 6,
+      color: '#1F2937',
+      fillColor: '#6B7280',
+      fillOpacity: 0.9,
+      weight: 2,
+      className: period.status === 'ongoing' ? 'dark-period-ongoing' : ''
+    }).bindPopup(popup).addTo(group);
+
+    if (period.reappearPosition) {
+      this.L.polyline([period.lastSeenPosition, period.reappearPosition], {
+        color: '#7C3AED',
+        weight: 2,
+        opacity: 0.8,
+        dashArray: '2, 8'
+      }).bindPopup(popup).addTo(group);
+
+      this.L.circleMarker(period.reappearPosition, {
+        radius: 6,
+        color: '#065F46',
+        fillColor: '#10B981',
+        fillOpacity: 0.9,
+        weight: 2
+      }).bindPopup(popup).addTo(group);
+    }
+  }
+
+  private createPeriodPopup(period: DarkPeriod): string {
+    return `
+      <div class="custom-popup dark-period-popup">
+        <div class="popup-header">
+          <strong>🌑 AIS Dark Period ${period.status === 'ongoing' ? '(berlangsung)' : ''}</strong>
+        </div>
+        <div class="popup-content">
+          <p><strong>Kapal:</strong> ${period.vesselName || 'Unknown'} (${period.mmsi})</p>
+          <p><strong>Terakhir terlihat:</strong> ${period.start.toLocaleString('id-ID')}</p>
+          <p><strong>Muncul kembali:</strong> ${period.end ? period.end.toLocaleString('id-ID') : '-'}</p>
+          <p><strong>Durasi:</strong> ${this.formatDuration(period.durationMin)} (normal ≤ ${period.expectedIntervalMin} menit)</p>
+          ${period.distanceNm !== null ? `<p><strong>Jarak:</strong> ${period.distanceNm.toFixed(2)} nm • ${period.impliedSpeedKnots?.toFixed(1) ?? '-'} kn rata-rata</p>` : ''}
+        </div>
+      </div>
+    `;
+  }
+
+  private formatDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    return hours > 0 ? `${hours}j ${mins}m` : `${mins}m`;
+  }
+
+  // ===================================
+  // ✅ EXPORT
+  // ===================================
+
+  exportCsv(): void {
+    const headers = [
+      'MMSI', 'Vessel Name', 'Status', 'Last Seen (UTC)', 'Reappeared (UTC)', 'Duration (min)',
+      'Expected Interval (min)', 'Last Seen Lat', 'Last Seen Lon', 'Reappear Lat', 'Reappear Lon',
+      'Distance (nm)', 'Implied Speed (kn)', 'Source'
+    ];
+
+    const rows = this.periodsSubject.value.map(period => [
+      period.mmsi,
+      `"${(period.vesselName || 'Unknown').replace(/"/g, '""')}"`,
+      period.status,
+      period.start.toISOString(),
+      period.end?.toISOString() ?? '',
+      period.durationMin.toFixed(1),
+      period.expectedIntervalMin,
+      period.lastSeenPosition[0].toFixed(6),
+      period.lastSeenPosition[1].toFixed(6),
+      period.reappearPosition?.[0].toFixed(6) ?? '',
+      period.reappearPosition?.[1].toFixed(6) ?? '',
+      period.distanceNm?.toFixed(2) ?? '',
+      period.impliedSpeedKnots?.toFixed(1) ?? '',
+      period.source ?? ''
+    ].join(','));
+
+    downloadFile([headers.join(','), ...rows].join('\n'), `ais-dark-periods-${Date.now()}.csv`, 'text/csv;charset=utf-8;');
+  }
+
+  exportGeoJson(): void {
+    const features = this.periodsSubject.value.map(period => ({
+      type: 'Feature',
+      geometry: period.reappearPosition
+        ? {
+            type: 'LineString',
+            coordinates: [
+              [period.lastSeenPosition[1], period.lastSeenPosition[0]],
+              [period.reappearPosition[1], period.reappearPosition[0]]
+            ]
+          }
+        : { type: 'Point', coordinates: [period.lastSeenPosition[1], period.lastSeenPosition[0]] },
+      properties: {
+        mmsi: period.mmsi,
+        vesselName: period.vesselName ?? null,
+        status: period.status,
+        start: period.start.toISOString(),
+        end: period.end?.toISOString() ?? null,
+        durationMin: Math.round(period.durationMin * 10) / 10,
+        expectedIntervalMin: period.expectedIntervalMin,
+        distanceNm: period.distanceNm,
+        impliedSpeedKnots: period.impliedSpeedKnots,
+        source: period.source ?? null
+      }
+    }));
+
+    downloadFile(
+      JSON.stringify({ type: 'FeatureCollection', features }, null, 2),
+      `ais-dark-periods-${Date.now()}.geojson`,
+      'application/geo+json'
+    );
+  }
+
+  cleanup(): void {
+    this.subscriptions.forEach(subscription => subscription.unsubscribe());
+    this.subscriptions = [];
+    if (this.map && this.gapLayer) {
+      this.map.removeLayer(this.gapLayer);
+    }
+    this.gapLayer = null;
+    this.gapLayers.clear();
+    this.lastSeen.clear();
+    this.ongoing.clear();
+  }
+}
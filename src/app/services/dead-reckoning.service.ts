@@ -0,0 +1,278 @@
+// dead-reckoning.service.ts - Predicted positions for vessels with stale reports
+import { Injectable } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { auditTime } from 'rxjs/operators';
+import { VesselWebSocketService, Vessel } from './vessel-websocket.service';
+import { VesselService } from './vessel-service';
+
+export interface PredictedPosition {
+  mmsi: number;
+  latitude: number;
+  longitude: number;
+  ageMinutes: number;
+  distanceMeters: number;
+  halfAngleDeg: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DeadReckoningService {
+  private map: any;
+  private L: any;
+  private ghostLayer: any;
+  private enabled = true;
+
+  // ✅ One ghost (marker + cone) per stale vessel
+  private ghosts: Map<number, { marker: any; cone: any; line: any }> = new Map();
+
+  private refreshTimer: any = null;
+  private updatesSubscription: Subscription | null = null;
+
+  private readonly STALE_AFTER_MS = 3 * 60 * 1000; // ghost after 3 minutes without report
+  private readonly MIN_SPEED_KNOTS = 0.5; // anchored/moored vessels are not predicted
+  private readonly MAX_SPEED_KNOTS = 50; // ignore implausible SOG values
+  private readonly MIN_ZOOM = 8;
+  private readonly MAX_GHOSTS = 200;
+  private readonly REFRESH_INTERVAL = 10000;
+
+  // ✅ Uncertainty model: cone half-angle and along-track error grow with age
+  private readonly BASE_HALF_ANGLE_DEG = 5;
+  private readonly HALF_ANGLE_PER_MINUTE = 0.5;
+  private readonly MAX_HALF_ANGLE_DEG = 45;
+  private readonly ALONG_TRACK_ERROR = 0.2; // ±20% of predicted distance
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private vesselService: VesselService
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.ghostLayer = L.layerGroup().addTo(map);
+
+    this.map.on('moveend', this.onMapMoveEnd);
+    this.refreshTimer = setInterval(() => this.refreshGhosts(), this.REFRESH_INTERVAL);
+
+    // ✅ A fresh report removes the ghost right away
+    this.updatesSubscription = this.webSocketService.vesselUpdates$
+      .pipe(auditTime(2000))
+      .subscribe(() => this.refreshGhosts());
+
+    console.log('👻 DeadReckoningService initialized');
+  }
+
+  toggle(enabled: boolean): void {
+    this.enabled = enabled;
+    if (enabled) {
+      this.refreshGhosts();
+    } else {
+      this.clearGhosts();
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // ✅ Predict current position from last course/speed (great-circle destination)
+  predictPosition(vessel: Vessel, now: number = Date.now()): PredictedPosition | null {
+    const ageMs = now - new Date(vessel.timestamp).getTime();
+    if (ageMs < this.STALE_AFTER_MS) return null;
+    if (!(vessel.speed >= this.MIN_SPEED_KNOTS) || vessel.speed > this.MAX_SPEED_KNOTS) return null;
+    if (vessel.course === undefined || vessel.course === null || vessel.course >= 360) return null;
+
+    const ageMinutes = ageMs / 60000;
+    const distanceMeters = vessel.speed * 1852 * (ageMs / 3600000);
+    const [latitude, longitude] = this.destinationPoint(vessel.latitude, vessel.longitude, vessel.course, distanceMeters);
+
+    return {
+      mmsi: vessel.mmsi,
+      latitude,
+      longitude,
+      ageMinutes,
+      distanceMeters,
+      halfAngleDeg: Math.min(
+        this.BASE_HALF_ANGLE_DEG + ageMinutes * this.HALF_ANGLE_PER_MINUTE,
+        this.MAX_HALF_ANGLE_DEG
+      )
+    };
+  }
+
+  private onMapMoveEnd = (): void => {
+    this.refreshGhosts();
+  };
+
+  private refreshGhosts(): void {
+    if (!this.map || !this.ghostLayer) return;
+
+    if (!this.enabled || this.map.getZoom() < this.MIN_ZOOM) {
+      this.clearGhosts();
+      return;
+    }
+
+    const bounds = this.map.getBounds().pad(0.2);
+    const now = Date.now();
+    const active = new Set<number>();
+
+    for (const vessel of this.vesselService.getFreshVesselData()) {
+      if (active.size >= this.MAX_GHOSTS) break;
+      if (!bounds.contains([vessel.latitude, vessel.longitude])) continue;
+
+      const prediction = this.predictPosition(vessel, now);
+      if (!prediction) continue;
+
+      active.add(vessel.mmsi);
+      this.drawGhost(vessel, prediction);
+    }
+
+    // ✅ Remove ghosts for vessels that reported again or left the view
+    this.ghosts.forEach((_, mmsi) => {
+      if (!active.has(mmsi)) this.removeGhost(mmsi);
+    });
+  }
+
+  private drawGhost(vessel: Vessel, prediction: PredictedPosition): void {
+    const conePoints = this.buildConePolygon(vessel, prediction);
+    const predictedLatLng = [prediction.latitude, prediction.longitude];
+    const existing = this.ghosts.get(vessel.mmsi);
+
+    if (existing) {
+      existing.marker.setLatLng(predictedLatLng);
+      existing.cone.setLatLngs(conePoints);
+      existing.line.setLatLngs([[vessel.latitude, vessel.longitude], predictedLatLng]);
+      existing.marker.setPopupContent(this.createGhostPopup(vessel, prediction));
+      return;
+    }
+
+    const cone = this.L.polygon(conePoints, {
+      color: '#64748b',
+      weight: 1,
+      opacity: 0.6,
+      fillColor: '#94a3b8',
+      fillOpacity: 0.15,
+      dashArray: '4, 4',
+      interactive: false
+    });
+
+    const line = this.L.polyline([[vessel.latitude, vessel.longitude], predictedLatLng], {
+      color: '#64748b',
+      weight: 1.5,
+      opacity: 0.7,
+      dashArray: '2, 6',
+      interactive: false
+    });
+
+    const icon = this.L.divIcon({
+      html: `
+        <div class="vessel-icon vessel-${this.vesselService.getVesselIconColor(vessel)} ghost-vessel-icon"
+             style="transform: rotate(${vessel.course}deg);">
+          <div class="arrow-shape"></div>
+        </div>
+      `,
+      className: 'custom-vessel-marker ghost-vessel-marker',
+      iconSize: [16, 16],
+      iconAnchor: [8, 8],
+      popupAnchor: [0, -8]
+    });
+
+    const marker = this.L.marker(predictedLatLng, {
+      icon,
+      title: `${vessel.name || vessel.mmsi} - Predicted position`,
+      zIndexOffset: -100
+    }).bindPopup(this.createGhostPopup(vessel, prediction));
+
+    cone.addTo(this.ghostLayer);
+    line.addTo(this.ghostLayer);
+    marker.addTo(this.ghostLayer);
+    this.ghosts.set(vessel.mmsi, { marker, cone, line });
+  }
+
+  // ✅ Sector from last known position, widened by half-angle and along-track error
+  private buildConePolygon(vessel: Vessel, prediction: PredictedPosition): [number, number][] {
+    const near = prediction.distanceMeters * (1 - this.ALONG_TRACK_ERROR);
+    const far = prediction.distanceMeters * (1 + this.ALONG_TRACK_ERROR);
+    const steps = 8;
+    const points: [number, number][] = [];
+
+    for (let i = 0; i <= steps; i++) {
+      const bearing = vessel.course - prediction.halfAngleDeg + (2 * prediction.halfAngleDeg * i) / steps;
+      points.push(this.destinationPoint(vessel.latitude, vessel.longitude, bearing, far));
+    }
+    for (let i = steps; i >= 0; i--) {
+      const bearing = vessel.course - prediction.halfAngleDeg + (2 * prediction.halfAngleDeg * i) / steps;
+      points.push(this.destinationPoint(vessel.latitude, vessel.longitude, bearing, near));
+    }
+    return points;
+  }
+
+  private createGhostPopup(vessel: Vessel, prediction: PredictedPosition): string {
+    return `
+      <div class="custom-popup ghost-popup">
+        <div class="popup-header">
+          <strong>👻 ${vessel.name || 'Unknown Vessel'}</strong>
+        </div>
+        <div class="popup-content">
+          <p><strong>MMSI:</strong> ${vessel.mmsi}</p>
+          <p><strong>Prediksi posisi:</strong> ${prediction.latitude.toFixed(5)}°, ${prediction.longitude.toFixed(5)}°</p>
+          <p><strong>Laporan terakhir:</strong> ${Math.round(prediction.ageMinutes)} menit lalu</p>
+          <p><strong>Dead reckoning:</strong> ${vessel.speed.toFixed(1)} kn @ ${vessel.course.toFixed(0)}° • ${(prediction.distanceMeters / 1852).toFixed(2)} nm</p>
+          <p><strong>Ketidakpastian:</strong> ±${prediction.halfAngleDeg.toFixed(0)}° / ±${(this.ALONG_TRACK_ERROR * 100).toFixed(0)}%</p>
+        </div>
+      </div>
+    `;
+  }
+
+  private destinationPoint(lat: number, lon: number, bearingDeg: number, distanceMeters: number): [number, number] {
+    const R = 6371000;
+    const angular = distanceMeters / R;
+    const bearing = this.toRadians(bearingDeg);
+    const lat1 = this.toRadians(lat);
+    const lon1 = this.toRadians(lon);
+
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+    );
+    const lon2 = lon1 + Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+    return [lat2 * 180 / Math.PI, ((lon2 * 180 / Math.PI + 540) % 360) - 180];
+  }
+
+  private toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+  }
+
+  private removeGhost(mmsi: number): void {
+    const ghost = this.ghosts.get(mmsi);
+    if (!ghost) return;
+    this.ghostLayer.removeLayer(ghost.marker);
+    this.ghostLayer.removeLayer(ghost.cone);
+    this.ghostLayer.removeLayer(ghost.line);
+    this.ghosts.delete(mmsi);
+  }
+
+  private clearGhosts(): void {
+    this.ghostLayer?.clearLayers();
+    this.ghosts.clear();
+  }
+
+  cleanup(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.updatesSubscription?.unsubscribe();
+    this.updatesSubscription = null;
+
+    if (this.map) {
+      this.map.off('moveend', this.onMapMoveEnd);
+      if (this.ghostLayer) this.map.removeLayer(this.ghostLayer);
+    }
+    this.clearGhosts();
+    this.ghostLayer = null;
+  }
+}
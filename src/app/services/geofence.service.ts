@@ -0,0 +1,319 @@
+// geofence.service.ts - Named polygon zones with enter/exit/dwell alerts
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subject, Subscription } from 'rxjs';
+import { auditTime } from 'rxjs/operators';
+import { VesselWebSocketService, Vessel } from './vessel-websocket.service';
+import { escapeHtml } from '../utils/escape-html';
+
+export type GeofenceType = 'anchorage' | 'restricted' | 'cable' | 'custom';
+export type GeofenceAlertType = 'enter' | 'exit' | 'dwell';
+
+export interface Geofence {
+  id: string;
+  name: string;
+  type: GeofenceType;
+  points: [number, number][]; // [lat, lng]
+  dwellThresholdMin: number;
+  createdAt: Date;
+}
+
+export interface GeofenceAlert {
+  id: string;
+  geofenceId: string;
+  geofenceName: string;
+  mmsi: number;
+  vesselName?: string;
+  type: GeofenceAlertType;
+  timestamp: Date;
+  position: [number, number];
+}
+
+export const GEOFENCE_TYPES: { value: GeofenceType; label: string; color: string }[] = [
+  { value: 'anchorage', label: 'Anchorage', color: '#3B82F6' },
+  { value: 'restricted', label: 'Restricted Area', color: '#EF4444' },
+  { value: 'cable', label: 'Cable Corridor', color: '#F59E0B' },
+  { value: 'custom', label: 'Custom', color: '#8B5CF6' }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class GeofenceService {
+  private map: any;
+  private L: any;
+  private geofenceLayer: any;
+  private geofenceLayers: Map<string, any> = new Map();
+  private updatesSubscription: Subscription | null = null;
+
+  // ✅ Membership state per geofence → mmsi
+  private membership: Map<string, Map<number, { enteredAt: number; dwellAlerted: boolean }>> = new Map();
+  private primedGeofences: Set<string> = new Set();
+
+  private readonly STORAGE_KEY = 'telkomsat-geofences';
+  private readonly MAX_ALERTS = 200;
+  private readonly EVALUATION_INTERVAL = 3000;
+
+  private geofencesSubject = new BehaviorSubject<Geofence[]>([]);
+  private alertsSubject = new BehaviorSubject<GeofenceAlert[]>([]);
+  private newAlertsSubject = new Subject<GeofenceAlert[]>();
+
+  public geofences$ = this.geofencesSubject.asObservable();
+  public alerts$ = this.alertsSubject.asObservable();
+  public newAlerts$ = this.newAlertsSubject.asObservable();
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private zone: NgZone
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.geofenceLayer = L.layerGroup().addTo(map);
+
+    this.geofencesSubject.next(this.loadGeofences());
+    this.geofencesSubject.value.forEach(geofence => this.drawGeofence(geofence));
+
+    this.updatesSubscription = this.webSocketService.vesselUpdates$
+      .pipe(auditTime(this.EVALUATION_INTERVAL))
+      .subscribe(() => this.evaluate());
+
+    console.log(`🛡️ GeofenceService initialized with ${this.geofencesSubject.value.length} geofences`);
+  }
+
+  getGeofences(): Geofence[] {
+    return this.geofencesSubject.value;
+  }
+
+  addGeofence(name: string, type: GeofenceType, points: [number, number][], dwellThresholdMin = 30): Geofence | null {
+    if (points.length < 3) return null;
+
+    const geofence: Geofence = {
+      id: `gf-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name: name.trim() || `Geofence ${this.geofencesSubject.value.length + 1}`,
+      type,
+      points,
+      dwellThresholdMin,
+      createdAt: new Date()
+    };
+
+    this.updateGeofences([...this.geofencesSubject.value, geofence]);
+    this.drawGeofence(geofence);
+    this.evaluate();
+
+    console.log(`🛡️ Geofence saved: ${geofence.name} (${points.length} points)`);
+    return geofence;
+  }
+
+  updateGeofence(id: string, changes: Partial<Pick<Geofence, 'name' | 'type' | 'dwellThresholdMin'>>): void {
+    const geofences = this.geofencesSubject.value.map(geofence =>
+      geofence.id === id ? { ...geofence, ...changes } : geofence
+    );
+    this.updateGeofences(geofences);
+
+    const updated = geofences.find(geofence => geofence.id === id);
+    if (updated) {
+      this.removeGeofenceLayer(id);
+      this.drawGeofence(updated);
+    }
+  }
+
+  removeGeofence(id: string): void {
+    this.updateGeofences(this.geofencesSubject.value.filter(geofence => geofence.id !== id));
+    this.removeGeofenceLayer(id);
+    this.membership.delete(id);
+    this.primedGeofences.delete(id);
+  }
+
+  focusOnGeofence(id: string): void {
+    const layer = this.geofenceLayers.get(id);
+    if (layer && this.map) {
+      this.map.fitBounds(layer.getBounds(), { padding: [40, 40] });
+      layer.openPopup();
+    }
+  }
+
+  getVesselsInside(id: string): number[] {
+    return Array.from(this.membership.get(id)?.keys() ?? []);
+  }
+
+  clearAlerts(): void {
+    this.alertsSubject.next([]);
+  }
+
+  // ✅ Ray casting point-in-polygon (lat/lng treated as planar - fine for zone sizes)
+  isPointInPolygon(lat: number, lng: number, points: [number, number][]): boolean {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const [latI, lngI] = points[i];
+      const [latJ, lngJ] = points[j];
+      const intersects = (latI > lat) !== (latJ > lat) &&
+        lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI;
+      if (intersects) inside = !inside;
+    }
+    return inside;
+  }
+
+  // ✅ Test every cached vessel against every geofence
+  evaluate(): void {
+    const geofences = this.geofencesSubject.value;
+    if (geofences.length === 0) return;
+
+    const vessels = this.webSocketService.getAllCachedVessels();
+    const now = Date.now();
+    const newAlerts: GeofenceAlert[] = [];
+
+    geofences.forEach(geofence => {
+      const bounds = this.getBoundingBox(geofence.points);
+      const members = this.membership.get(geofence.id) ?? new Map();
+      const primed = this.primedGeofences.has(geofence.id);
+      const insideNow = new Set<number>();
+
+      vessels.forEach(vessel => {
+        if (vessel.latitude < bounds.minLat || vessel.latitude > bounds.maxLat ||
+            vessel.longitude < bounds.minLng || vessel.longitude > bounds.maxLng) return;
+        if (!this.isPointInPolygon(vessel.latitude, vessel.longitude, geofence.points)) return;
+
+        insideNow.add(vessel.mmsi);
+        const state = members.get(vessel.mmsi);
+
+        if (!state) {
+          members.set(vessel.mmsi, { enteredAt: now, dwellAlerted: false });
+          // First pass only seeds membership - no alert storm on page load
+          if (primed) newAlerts.push(this.createAlert(geofence, vessel, 'enter'));
+        } else if (!state.dwellAlerted && now - state.enteredAt >= geofence.dwellThresholdMin * 60000) {
+          state.dwellAlerted = true;
+          if (primed) newAlerts.push(this.createAlert(geofence, vessel, 'dwell'));
+        }
+      });
+
+      // Vessels that were inside and are now reported outside
+      members.forEach((_, mmsi) => {
+        if (insideNow.has(mmsi)) return;
+        const vessel = this.webSocketService.getCachedVessel(mmsi);
+        members.delete(mmsi);
+        if (vessel && primed) newAlerts.push(this.createAlert(geofence, vessel, 'exit'));
+      });
+
+      this.membership.set(geofence.id, members);
+      this.primedGeofences.add(geofence.id);
+    });
+
+    if (newAlerts.length > 0) {
+      this.zone.run(() => {
+        this.alertsSubject.next([...newAlerts, ...this.alertsSubject.value].slice(0, this.MAX_ALERTS));
+        this.newAlertsSubject.next(newAlerts);
+      });
+      console.log(`🛡️ Geofence alerts: ${newAlerts.length}`);
+    }
+  }
+
+  private createAlert(geofence: Geofence, vessel: Vessel, type: GeofenceAlertType): GeofenceAlert {
+    return {
+      id: `${geofence.id}-${vessel.mmsi}-${type}-${Date.now()}`,
+      geofenceId: geofence.id,
+      geofenceName: geofence.name,
+      mmsi: vessel.mmsi,
+      vesselName: vessel.name,
+      type,
+      timestamp: new Date(),
+      position: [vessel.latitude, vessel.longitude]
+    };
+  }
+
+  private getBoundingBox(points: [number, number][]): { minLat: number; maxLat: number; minLng: number; maxLng: number } {
+    const lats = points.map(point => point[0]);
+    const lngs = points.map(point => point[1]);
+    return {
+      minLat: Math.min(...lats),
+      maxLat: Math.max(...lats),
+      minLng: Math.min(...lngs),
+      maxLng: Math.max(...lngs)
+    };
+  }
+
+  // ===================================
+  // ✅ MAP RENDERING
+  // ===================================
+
+  private drawGeofence(geofence: Geofence): void {
+    if (!this.geofenceLayer) return;
+
+    const color = GEOFENCE_TYPES.find(type => type.value === geofence.type)?.color ?? '#8B5CF6';
+    const polygon = this.L.polygon(geofence.points, {
+      color,
+      fillColor: color,
+      fillOpacity: 0.12,
+      weight: 2,
+      dashArray: geofence.type === 'restricted' ? '8, 4' : undefined
+    });
+
+    polygon.bindPopup(() => this.createGeofencePopup(geofence));
+    polygon.bindTooltip(escapeHtml(geofence.name), { sticky: true, className: 'geofence-tooltip' });
+    polygon.addTo(this.geofenceLayer);
+    this.geofenceLayers.set(geofence.id, polygon);
+  }
+
+  private createGeofencePopup(geofence: Geofence): string {
+    const typeLabel = GEOFENCE_TYPES.find(type => type.value === geofence.type)?.label ?? geofence.type;
+    return `
+      <div class="custom-popup geofence-popup">
+        <div class="popup-header">
+          <strong>🛡️ ${escapeHtml(geofence.name)}</strong>
+        </div>
+        <div class="popup-content">
+          <p><strong>Tipe:</strong> ${typeLabel}</p>
+          <p><strong>Kapal di dalam:</strong> ${this.getVesselsInside(geofence.id).length}</p>
+          <p><strong>Dwell alert:</strong> ${geofence.dwellThresholdMin} menit</p>
+        </div>
+      </div>
+    `;
+  }
+
+  private removeGeofenceLayer(id: string): void {
+    const layer = this.geofenceLayers.get(id);
+    if (layer && this.geofenceLayer) {
+      this.geofenceLayer.removeLayer(layer);
+    }
+    this.geofenceLayers.delete(id);
+  }
+
+  // ===================================
+  // ✅ PERSISTENCE
+  // ===================================
+
+  private updateGeofences(geofences: Geofence[]): void {
+    this.geofencesSubject.next(geofences);
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(geofences));
+    } catch (error) {
+      console.error('❌ Failed to save geofences:', error);
+    }
+  }
+
+  private loadGeofences(): Geofence[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return [];
+      return (JSON.parse(stored) as Geofence[]).map(geofence => ({
+        ...geofence,
+        createdAt: new Date(geofence.createdAt)
+      }));
+    } catch (error) {
+      console.error('❌ Failed to load geofences:', error);
+      return [];
+    }
+  }
+
+  cleanup(): void {
+    this.updatesSubscription?.unsubscribe();
+    this.updatesSubscription = null;
+    if (this.map && this.geofenceLayer) {
+      this.map.removeLayer(this.geofenceLayer);
+    }
+    this.geofenceLayer = null;
+    this.geofenceLayers.clear();
+    this.membership.clear();
+    this.primedGeofences.clear();
+  }
+}
@@ -0,0 +1,489 @@
+// heatmap.service.ts - Vessel density heatmap from the live cache or historical POI-area data
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subject, Subscription } from 'rxjs';
+import { auditTime, filter } from 'rxjs/operators';
+import { VesselWebSocketService } from './vessel-websocket.service';
+import { VesselTrackingService } from './vessel-tracking.service';
+import { VesselFilterService, VesselCategory, VESSEL_CATEGORIES } from './vessel-filter.service';
+import { POIAreaService } from './poi-area.service';
+
+export type HeatmapSource = 'live' | 'history';
+export type HeatmapWeighting = 'count' | 'time' | 'type';
+
+export interface HeatmapSettings {
+  radius: number; // px
+  blur: number; // px
+  intensity: number; // multiplier on normalised weight
+  weighting: HeatmapWeighting;
+  category: VesselCategory;
+}
+
+export interface HeatmapState {
+  visible: boolean;
+  source: HeatmapSource;
+  loading: boolean;
+  pointCount: number;
+  vesselCount: number;
+  range: { start: Date; end: Date } | null;
+}
+
+export type HeatmapHistoryResult =
+  | { status: 'loaded'; count: number }
+  | { status: 'too-many'; total: number; max: number }
+  | { status: 'cancelled' };
+
+interface HeatPoint {
+  lat: number;
+  lng: number;
+  weight: number;
+}
+
+// Raw report used for both sources before weighting
+interface DensitySample {
+  mmsi: number;
+  lat: number;
+  lng: number;
+  timestamp: number;
+  category: VesselCategory;
+}
+
+export const DEFAULT_HEATMAP_SETTINGS: HeatmapSettings = {
+  radius: 20,
+  blur: 15,
+  intensity: 1,
+  weighting: 'count',
+  category: 'fishing'
+};
+
+export const HEATMAP_GRADIENT: { stop: number; color: string }[] = [
+  { stop: 0.2, color: '#2563eb' },
+  { stop: 0.4, color: '#06b6d4' },
+  { stop: 0.6, color: '#22c55e' },
+  { stop: 0.8, color: '#facc15' },
+  { stop: 1, color: '#ef4444' }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HeatmapService {
+  private map: any;
+  private L: any;
+  private canvas: HTMLCanvasElement | null = null;
+  private stamp: HTMLCanvasElement | null = null;
+  private palette: Uint8ClampedArray | null = null;
+  private updatesSubscription?: Subscription;
+
+  private samples: DensitySample[] = [];
+  private points: HeatPoint[] = [];
+
+  private readonly STORAGE_KEY = 'telkomsat-heatmap-settings';
+  private readonly PANE_NAME = 'heatmapPane';
+  private readonly LIVE_REFRESH_INTERVAL = 5000;
+  private readonly MAX_DWELL_MIN = 60; // longer silences are data gaps, not time on station
+  private readonly COUNT_CELL_DEG = 0.01; // ~1 km - one vessel counts once per cell
+  private readonly MAX_WEIGHT_PERCENTILE = 0.98; // keep a few crowded ports from washing out the rest
+  private readonly MAX_HISTORY_POINTS = 10000; // what the backend returns in one /poi-area/all request
+
+  private cancelHistory$ = new Subject<void>();
+
+  private settingsSubject = new BehaviorSubject<HeatmapSettings>(DEFAULT_HEATMAP_SETTINGS);
+  private stateSubject = new BehaviorSubject<HeatmapState>({
+    visible: false,
+    source: 'live',
+    loading: false,
+    pointCount: 0,
+    vesselCount: 0,
+    range: null
+  });
+
+  public settings$ = this.settingsSubject.asObservable();
+  public state$ = this.stateSubject.asObservable();
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private trackingService: VesselTrackingService,
+    private vesselFilterService: VesselFilterService,
+    private poiAreaService: POIAreaService,
+    private zone: NgZone
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.settingsSubject.next(this.loadSettings());
+
+    // Between the tiles (200) and vector overlays (400)
+    const pane = map.createPane(this.PANE_NAME);
+    pane.style.zIndex = '350';
+    pane.style.pointerEvents = 'none';
+
+    this.canvas = L.DomUtil.create('canvas', 'heatmap-canvas leaflet-zoom-hide', pane);
+    this.palette = this.createPalette();
+
+    map.on('moveend resize', this.redraw, this);
+
+    this.updatesSubscription = this.webSocketService.vesselUpdates$
+      .pipe(
+        auditTime(this.LIVE_REFRESH_INTERVAL),
+        filter(() => this.stateSubject.value.visible && this.stateSubject.value.source === 'live')
+      )
+      .subscribe(() => this.loadLive());
+
+    console.log('🔥 HeatmapService initialized');
+  }
+
+  getSettings(): HeatmapSettings {
+    return this.settingsSubject.value;
+  }
+
+  updateSettings(settings: Partial<HeatmapSettings>): void {
+    const previous = this.settingsSubject.value;
+    const updated = { ...previous, ...settings };
+    this.settingsSubject.next(updated);
+    this.saveSettings(updated);
+
+    // Radius/blur/intensity only need a repaint; weighting changes the points themselves
+    if (updated.weighting !== previous.weighting && this.stateSubject.value.source === 'live') {
+      this.loadLive();
+    } else if (updated.weighting !== previous.weighting || updated.category !== previous.category) {
+      this.rebuildPoints();
+    } else {
+      this.stamp = null;
+      this.redraw();
+    }
+  }
+
+  setVisible(visible: boolean): void {
+    this.updateState({ visible });
+    if (visible && this.stateSubject.value.source === 'live') {
+      this.loadLive();
+    } else {
+      this.redraw();
+    }
+  }
+
+  // ✅ Live source: current cache positions, plus recent local tracks when weighting by time
+  showLive(): void {
+    this.updateState({ source: 'live', range: null });
+    this.setVisible(true);
+  }
+
+  // ✅ Historical source: POI-area reports inside the current view for the date range.
+  // Counted first - views above MAX_HISTORY_POINTS are refused instead of paged through.
+  async loadHistory(start: Date, end: Date): Promise<HeatmapHistoryResult> {
+    if (!this.map) return { status: 'cancelled' };
+
+    const mapBounds = this.map.getBounds();
+    const bounds = {
+      minLongitude: mapBounds.getWest(),
+      maxLongitude: mapBounds.getEast(),
+      minLatitude: mapBounds.getSouth(),
+      maxLatitude: mapBounds.getNorth(),
+      startDate: start,
+      endDate: end,
+      dataType: 'all' as const
+    };
+
+    this.cancelHistory$.next();
+    this.updateState({ loading: true });
+
+    try {
+      const total = await this.poiAreaService.countAreaRecords(bounds, this.cancelHistory$);
+      if (total === null) return { status: 'cancelled' };
+      if (total > this.MAX_HISTORY_POINTS) {
+        this.updateState({ loading: false });
+        return { status: 'too-many', total, max: this.MAX_HISTORY_POINTS };
+      }
+
+      const records = await this.poiAreaService.fetchAreaRecords(bounds, this.cancelHistory$);
+      if (records === null) return { status: 'cancelled' };
+
+      this.samples = records
+        .slice(0, this.MAX_HISTORY_POINTS)
+        .map(record => this.toSample(record))
+        .filter((sample): sample is DensitySample => sample !== null);
+
+      this.updateState({ source: 'history', range: { start, end }, visible: true, loading: false });
+      this.rebuildPoints();
+      console.log(`🔥 Heatmap loaded ${this.samples.length} historical reports`);
+      return { status: 'loaded', count: this.samples.length };
+    } catch (error) {
+      this.updateState({ loading: false });
+      throw error;
+    }
+  }
+
+  cancelHistory(): void {
+    if (!this.stateSubject.value.loading) return;
+    this.cancelHistory$.next();
+    this.updateState({ loading: false });
+    console.log('🔥 Heatmap history load cancelled');
+  }
+
+  clear(): void {
+    this.samples = [];
+    this.points = [];
+    this.updateState({ visible: false, source: 'live', range: null, pointCount: 0, vesselCount: 0 });
+    this.redraw();
+  }
+
+  // ===================================
+  // ✅ DATA
+  // ===================================
+
+  private loadLive(): void {
+    const settings = this.settingsSubject.value;
+
+    if (settings.weighting === 'time') {
+      this.samples = this.trackingService.getAllVesselTracks().flatMap(track => {
+        const category = this.vesselFilterService.getCategory(this.webSocketService.getCachedVessel(track.mmsi)?.vesselType ?? 0);
+        return track.positions.map(position => ({
+          mmsi: track.mmsi,
+          lat: position.latitude,
+          lng: position.longitude,
+          timestamp: new Date(position.timestamp).getTime(),
+          category
+        }));
+      });
+    } else {
+      this.samples = this.webSocketService.getAllCachedVessels().map(vessel => ({
+        mmsi: vessel.mmsi,
+        lat: vessel.latitude,
+        lng: vessel.longitude,
+        timestamp: new Date(vessel.timestamp).getTime(),
+        category: this.vesselFilterService.getCategory(vessel.vesselType)
+      }));
+    }
+
+    this.rebuildPoints();
+  }
+
+  private rebuildPoints(): void {
+    const settings = this.settingsSubject.value;
+    const samples = settings.weighting === 'type'
+      ? this.samples.filter(sample => sample.category === settings.category)
+      : this.samples;
+
+    this.points = settings.weighting === 'time'
+      ? this.weightByDwellTime(samples)
+      : this.weightByVesselCount(samples);
+
+    this.updateState({
+      pointCount: this.points.length,
+      vesselCount: new Set(samples.map(sample => sample.mmsi)).size
+    });
+    this.redraw();
+  }
+
+  // Each vessel contributes once per cell, so a vessel reporting every 10 s is not a "hotspot"
+  private weightByVesselCount(samples: DensitySample[]): HeatPoint[] {
+    const seen = new Set<string>();
+    const points: HeatPoint[] = [];
+
+    samples.forEach(sample => {
+      const key = `${sample.mmsi}:${Math.round(sample.lat / this.COUNT_CELL_DEG)}:${Math.round(sample.lng / this.COUNT_CELL_DEG)}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      points.push({ lat: sample.lat, lng: sample.lng, weight: 1 });
+    });
+    return points;
+  }
+
+  // Each report is weighted by the minutes until that vessel's next report
+  private weightByDwellTime(samples: DensitySample[]): HeatPoint[] {
+    const byVessel = new Map<number, DensitySample[]>();
+    samples.forEach(sample => {
+      const list = byVessel.get(sample.mmsi) ?? [];
+      list.push(sample);
+      byVessel.set(sample.mmsi, list);
+    });
+
+    const points: HeatPoint[] = [];
+    byVessel.forEach(reports => {
+      reports.sort((a, b) => a.timestamp - b.timestamp);
+      for (let i = 0; i < reports.length - 1; i++) {
+        const minutes = (reports[i + 1].timestamp - reports[i].timestamp) / 60000;
+        if (minutes <= 0) continue;
+        points.push({ lat: reports[i].lat, lng: reports[i].lng, weight: Math.min(minutes, this.MAX_DWELL_MIN) });
+      }
+    });
+    return points;
+  }
+
+  private toSample(record: any): DensitySample | null {
+    const lat = Number(record.latitude);
+    const lng = Number(record.longitude);
+    if (!isFinite(lat) || !isFinite(lng)) return null;
+
+    return {
+      mmsi: Number(record.mmsi),
+      lat,
+      lng,
+      timestamp: new Date(record.timestamp).getTime(),
+      category: this.toCategory(record.vesselType)
+    };
+  }
+
+  // Archive rows carry either the AIS type code or a type name
+  private toCategory(vesselType: unknown): VesselCategory {
+    const code = Number(vesselType);
+    if (isFinite(code) && code > 0) {
+      return this.vesselFilterService.getCategory(code);
+    }
+
+    const name = String(vesselType ?? '').toLowerCase();
+    const match = VESSEL_CATEGORIES.find(category =>
+      category.value !== 'other' && name.includes(category.value.replace('highspeed', 'high'))
+    );
+    return match?.value ?? 'other';
+  }
+
+  // ===================================
+  // ✅ RENDERING
+  // ===================================
+
+  private redraw(): void {
+    if (!this.map || !this.canvas) return;
+
+    const size = this.map.getSize();
+    const context = this.canvas.getContext('2d');
+    if (!context) return;
+
+    this.canvas.width = size.x;
+    this.canvas.height = size.y;
+    this.L.DomUtil.setPosition(this.canvas, this.map.containerPointToLayerPoint([0, 0]));
+    context.clearRect(0, 0, size.x, size.y);
+
+    if (!this.stateSubject.value.visible || this.points.length === 0) return;
+
+    const settings = this.settingsSubject.value;
+    const stamp = this.getStamp(settings.radius, settings.blur);
+    const reach = settings.radius + settings.blur;
+    const cells = this.aggregateToCells(reach, size);
+    const maxWeight = this.getMaxWeight(cells.map(cell => cell.weight));
+
+    cells.forEach(cell => {
+      context.globalAlpha = Math.min((cell.weight / maxWeight) * settings.intensity, 1);
+      context.drawImage(stamp, cell.x - reach, cell.y - reach);
+    });
+
+    this.colorize(context, size.x, size.y);
+  }
+
+  // Sum points into screen cells of a fraction of the radius - thousands of stamps become hundreds
+  private aggregateToCells(reach: number, size: { x: number; y: number }): { x: number; y: number; weight: number }[] {
+    const cellSize = Math.max(Math.floor(reach / 3), 2);
+    const cells = new Map<string, { x: number; y: number; weight: number }>();
+
+    this.points.forEach(point => {
+      const pixel = this.map.latLngToContainerPoint([point.lat, point.lng]);
+      if (pixel.x < -reach || pixel.y < -reach || pixel.x > size.x + reach || pixel.y > size.y + reach) return;
+
+      const key = `${Math.floor(pixel.x / cellSize)}:${Math.floor(pixel.y / cellSize)}`;
+      const cell = cells.get(key);
+      if (cell) {
+        // Weighted centroid keeps the blob where the vessels actually are
+        const total = cell.weight + point.weight;
+        cell.x = (cell.x * cell.weight + pixel.x * point.weight) / total;
+        cell.y = (cell.y * cell.weight + pixel.y * point.weight) / total;
+        cell.weight = total;
+      } else {
+        cells.set(key, { x: pixel.x, y: pixel.y, weight: point.weight });
+      }
+    });
+
+    return Array.from(cells.values());
+  }
+
+  private getMaxWeight(weights: number[]): number {
+    if (weights.length === 0) return 1;
+    const sorted = [...weights].sort((a, b) => a - b);
+    return Math.max(sorted[Math.floor((sorted.length - 1) * this.MAX_WEIGHT_PERCENTILE)], 1e-6);
+  }
+
+  // Soft black disc drawn once per radius/blur and reused for every cell
+  private getStamp(radius: number, blur: number): HTMLCanvasElement {
+    const reach = radius + blur;
+    if (this.stamp && this.stamp.width === reach * 2) return this.stamp;
+
+    const stamp = document.createElement('canvas');
+    stamp.width = stamp.height = reach * 2;
+    const context = stamp.getContext('2d')!;
+    const gradient = context.createRadialGradient(reach, reach, Math.max(radius - blur, 0), reach, reach, reach);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, reach * 2, reach * 2);
+
+    this.stamp = stamp;
+    return stamp;
+  }
+
+  // 256-entry RGBA lookup from accumulated alpha to gradient colour
+  private createPalette(): Uint8ClampedArray {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 1;
+    const context = canvas.getContext('2d')!;
+    const gradient = context.createLinearGradient(0, 0, 256, 0);
+    HEATMAP_GRADIENT.forEach(({ stop, color }) => gradient.addColorStop(stop, color));
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, 256, 1);
+    return context.getImageData(0, 0, 256, 1).data;
+  }
+
+  private colorize(context: CanvasRenderingContext2D, width: number, height: number): void {
+    if (!this.palette || width === 0 || height === 0) return;
+
+    const image = context.getImageData(0, 0, width, height);
+    const pixels = image.data;
+    for (let i = 3; i < pixels.length; i += 4) {
+      const alpha = pixels[i];
+      if (alpha === 0) continue;
+      const offset = alpha * 4;
+      pixels[i - 3] = this.palette[offset];
+      pixels[i - 2] = this.palette[offset + 1];
+      pixels[i - 1] = this.palette[offset + 2];
+      pixels[i] = Math.min(alpha * 1.5, 220);
+    }
+    context.putImageData(image, 0, 0);
+  }
+
+  // ===================================
+  // ✅ PERSISTENCE
+  // ===================================
+
+  private updateState(changes: Partial<HeatmapState>): void {
+    this.zone.run(() => this.stateSubject.next({ ...this.stateSubject.value, ...changes }));
+  }
+
+  private saveSettings(settings: HeatmapSettings): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('❌ Failed to save heatmap settings:', error);
+    }
+  }
+
+  private loadSettings(): HeatmapSettings {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? { ...DEFAULT_HEATMAP_SETTINGS, ...JSON.parse(stored) } : DEFAULT_HEATMAP_SETTINGS;
+    } catch (error) {
+      console.error('❌ Failed to load heatmap settings:', error);
+      return DEFAULT_HEATMAP_SETTINGS;
+    }
+  }
+
+  cleanup(): void {
+    this.updatesSubscription?.unsubscribe();
+    this.map?.off('moveend resize', this.redraw, this);
+    this.canvas?.remove();
+    this.canvas = null;
+    this.stamp = null;
+    this.samples = [];
+    this.points = [];
+    this.stateSubject.next({ ...this.stateSubject.value, visible: false, pointCount: 0, vesselCount: 0 });
+  }
+}
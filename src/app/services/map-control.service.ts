@@ -21,6 +21,13 @@ export class MapControlsService {
       enabled: false,
       description: 'Mengukur jarak dan area di peta (km, nm, meter)'
     },
+    {
+      id: 'rangebearing',
+      name: 'Jarak & Baringan',
+      icon: 'fas fa-compass',
+      enabled: false,
+      description: 'Ukur jarak (nm) dan baringan sejati antar dua titik'
+    },
     {
       id: 'marker',
       name: 'Marker',
@@ -48,6 +55,13 @@ export class MapControlsService {
       icon: 'fas fa-pen',
       enabled: false,
       description: 'Menggambar polygon dan hitung luas area'
+    },
+    {
+      id: 'poiselect',
+      name: 'Pilih Area POI',
+      icon: 'fas fa-vector-square',
+      enabled: false,
+      description: 'Tarik kotak atau gambar polygon lalu export data kapal di area'
     },
      { 
           id: 'vts', 
@@ -62,6 +76,34 @@ export class MapControlsService {
           icon: 'fas fa-anchor',
           enabled: true,
           description: 'Toggle AtoN visibility'
+        },
+        {
+          id: 'deadreckoning',
+          name: 'Prediksi Posisi',
+          icon: 'fas fa-ghost',
+          enabled: true,
+          description: 'Ghost marker dead-reckoning untuk kapal yang lama tidak melapor'
+        },
+        {
+          id: 'collision',
+          name: 'Risiko Tubrukan',
+          icon: 'fas fa-triangle-exclamation',
+          enabled: true,
+          description: 'Monitor CPA/TCPA antar kapal yang berdekatan'
+        },
+        {
+          id: 'darkperiods',
+          name: 'AIS Dark Period',
+          icon: 'fas fa-eye-slash',
+          enabled: true,
+          description: 'Tampilkan jeda transmisi AIS yang tidak wajar'
+        },
+        {
+          id: 'rendezvous',
+          name: 'Rendezvous Kapal',
+          icon: 'fas fa-handshake',
+          enabled: true,
+          description: 'Deteksi pertemuan kapal di luar area pelabuhan (indikasi transshipment)'
         }
    
   ]);
@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+
+import { CoordinateFormat, COORDINATE_FORMATS, MapCoordinateService } from './map-coordinate.service';
+
+// Both hemispheres, the UTM zone exceptions (Bergen 32V, Svalbard 33X) and a point near the prime meridian
+const POSITIONS: { name: string; lat: number; lng: number }[] = [
+  { name: 'Jakarta', lat: -6.2088, lng: 106.8456 },
+  { name: 'Paris', lat: 48.8584, lng: 2.2945 },
+  { name: 'New York', lat: 40.6892, lng: -74.0445 },
+  { name: 'Sydney', lat: -33.8568, lng: 151.2153 },
+  { name: 'Bergen', lat: 60.39, lng: 5.32 },
+  { name: 'Svalbard', lat: 78.22, lng: 15.65 },
+  { name: 'Ushuaia', lat: -54.8, lng: -68.3 },
+  { name: 'Gulf of Guinea', lat: 0.5, lng: -0.5 }
+];
+
+const FORMATS: CoordinateFormat[] = ['dd', 'dms', 'ddm', 'mgrs', 'utm'];
+
+describe('MapCoordinateService', () => {
+  let service: MapCoordinateService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(MapCoordinateService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('format/parse round-trip', () => {
+    POSITIONS.forEach(({ name, lat, lng }) => {
+      FORMATS.forEach(format => {
+        it(`${name} as ${format.toUpperCase()}`, () => {
+          const text = service.formatPosition(lat, lng, format);
+          const parsed = service.parse(text);
+
+          expect(parsed).withContext(text).not.toBeNull();
+          expect(parsed!.format).toBe(format);
+          // DMS 0.1", DDM 0.001' and 1 m grid references all stay within ~3 m
+          expect(parsed!.lat).withContext(text).toBeCloseTo(lat, 4);
+          expect(parsed!.lng).withContext(text).toBeCloseTo(lng, 4);
+        });
+      });
+    });
+  });
+
+  describe('formatting', () => {
+    it('formats the panel examples', () => {
+      COORDINATE_FORMATS.forEach(({ value, example }) => {
+        expect(service.formatPosition(-6.2088, 106.8456, value)).toBe(example);
+      });
+    });
+
+    it('carries rounded seconds and minutes into the next unit', () => {
+      expect(service.formatDms(10.99999, true)).toBe(`11°00'00.0"N`);
+      expect(service.formatDdm(-10.9999999, false)).toBe(`11°00.000'W`);
+    });
+
+    it('puts the equator on a central meridian at the UTM false origin', () => {
+      expect(service.formatPosition(0, 3, 'utm')).toBe('31N 500000 0');
+    });
+
+    it('applies the Norway and Svalbard zone exceptions', () => {
+      expect(service.toUtm(60.39, 5.32)!.zone).toBe(32);
+      expect(service.toUtm(78.22, 15.65)!.zone).toBe(33);
+    });
+
+    it('falls back to decimal degrees outside UTM coverage', () => {
+      expect(service.formatPosition(85, 10, 'utm')).toBe('85.000000, 10.000000');
+      expect(service.formatPosition(-81, 10, 'mgrs')).toBe('-81.000000, 10.000000');
+    });
+  });
+
+  describe('parsing', () => {
+    it('accepts hemisphere letters before the numbers and longitude first', () => {
+      const expected = service.parse(`6°12'31.7"S 106°50'44.2"E`)!;
+
+      [`S6 12 31.7 E106 50 44.2`, `106°50'44.2"E 6°12'31.7"S`, `6°12′31.7″S 106°50′44.2″E`].forEach(text => {
+        const parsed = service.parse(text);
+        expect(parsed).withContext(text).not.toBeNull();
+        expect(parsed!.lat).withContext(text).toBeCloseTo(expected.lat, 6);
+        expect(parsed!.lng).withContext(text).toBeCloseTo(expected.lng, 6);
+      });
+    });
+
+    it('reads bare signed numbers by their count', () => {
+      expect(service.parse('-6.2088 106.8456')?.format).toBe('dd');
+      expect(service.parse('-6 12.528 106 50.736')?.format).toBe('ddm');
+      expect(service.parse('-6 12 31.7 106 50 44.2')?.format).toBe('dms');
+    });
+
+    it('reads MGRS without spaces and at reduced precision', () => {
+      const full = service.parse('48MYU0420713358')!;
+      expect(full.format).toBe('mgrs');
+      expect(full.lat).toBeCloseTo(-6.2088, 4);
+      expect(full.lng).toBeCloseTo(106.8456, 4);
+
+      // 100 m precision resolves to the centre of the square
+      const coarse = service.parse('48M YU 042 133')!;
+      expect(coarse.lat).toBeCloseTo(-6.2088, 3);
+      expect(coarse.lng).toBeCloseTo(106.8456, 3);
+    });
+
+    it('rejects malformed input', () => {
+      ['', 'hello', '91, 10', '10, 181', '6 70 S 106 10 E', '6.5 30 S 106 10 E', '48M YU 0420 133', '0N 500000 0', '48M 50000 9313358']
+        .forEach(text => expect(service.parse(text)).withContext(text).toBeNull());
+    });
+  });
+});
@@ -1,5 +1,43 @@
 // map-coordinate.service.ts
 import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { escapeHtml } from '../utils/escape-html';
+
+export type CoordinateFormat = 'dd' | 'dms' | 'ddm' | 'mgrs' | 'utm';
+
+export interface ParsedPosition {
+  lat: number;
+  lng: number;
+  format: CoordinateFormat;
+}
+
+export const COORDINATE_FORMATS: { value: CoordinateFormat; label: string; example: string }[] = [
+  { value: 'dd', label: 'Decimal degrees', example: '-6.208800, 106.845600' },
+  { value: 'dms', label: 'Deg Min Sec', example: `6°12'31.7"S 106°50'44.2"E` },
+  { value: 'ddm', label: 'Deg Decimal Min', example: `6°12.528'S 106°50.736'E` },
+  { value: 'mgrs', label: 'MGRS', example: '48M YU 04207 13358' },
+  { value: 'utm', label: 'UTM', example: '48M 704207 9313358' }
+];
+
+// ✅ WGS84 / UTM constants
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const E2 = WGS84_F * (2 - WGS84_F);
+const EP2 = E2 / (1 - E2);
+const K0 = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING_SOUTH = 10000000;
+
+const BAND_LETTERS = 'CDEFGHJKLMNPQRSTUVWX';
+const MGRS_COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+
+interface UtmPosition {
+  zone: number;
+  band: string;
+  easting: number;
+  northing: number;
+}
 
 @Injectable({
   providedIn: 'root'
@@ -7,12 +45,19 @@ import { Injectable } from '@angular/core';
 export class MapCoordinateService {
   private map: any;
   private L: any;
+  private goToMarker: any = null;
+
+  private readonly STORAGE_KEY = 'telkomsat-coordinate-format';
+
+  private formatSubject = new BehaviorSubject<CoordinateFormat>('dd');
+  public format$ = this.formatSubject.asObservable();
 
   constructor() {}
 
   initialize(map: any, L: any): void {
     this.map = map;
     this.L = L;
+    this.formatSubject.next(this.loadFormat());
     this.addCoordinateDisplay();
   }
 
@@ -27,20 +72,20 @@ private addCoordinateDisplay(): void {
             <i class="fas fa-map-marker-alt coord-icon"></i>
             <span class="coord-title">Koordinat</span>
           </div>
-          <div class="coord-value" id="cursor-coords">-6.2088, 106.8456</div>
+          <div class="coord-value" id="cursor-coords">${this.formatPosition(-6.2088, 106.8456)}</div>
           <div class="markers-info" id="markers-info" style="display: none;">
             <i class="fas fa-map-pin marker-icon"></i>
             <span id="marker-count">0 Marker</span>
-            <button class="clear-btn" id="clear-markers-btn" onclick="window.mapService?.clearAllMarkers()">
+            <button class="clear-btn" id="clear-markers-btn" onclick="confirm('Hapus semua marker?') && window.mapService?.clearAllMarkers()">
               <i class="fas fa-trash-alt"></i>
             </button>
           </div>
         </div>
       `;
-      
+
       this.L.DomEvent.disableClickPropagation(div);
       this.L.DomEvent.disableScrollPropagation(div);
-      
+
       return div;
     }
   });
@@ -56,7 +101,329 @@ private addCoordinateDisplay(): void {
     }
   }
 
+  // ===================================
+  // ✅ DISPLAY FORMAT
+  // ===================================
+
+  getFormat(): CoordinateFormat {
+    return this.formatSubject.value;
+  }
+
+  setFormat(format: CoordinateFormat): void {
+    this.formatSubject.next(format);
+    try {
+      localStorage.setItem(this.STORAGE_KEY, format);
+    } catch (error) {
+      console.error('❌ Failed to save coordinate format:', error);
+    }
+  }
+
+  // ✅ Format a position in the chosen (or current) display format
+  formatPosition(lat: number, lng: number, format: CoordinateFormat = this.formatSubject.value): string {
+    switch (format) {
+      case 'dms':
+        return `${this.formatDms(lat, true)} ${this.formatDms(lng, false)}`;
+      case 'ddm':
+        return `${this.formatDdm(lat, true)} ${this.formatDdm(lng, false)}`;
+      case 'mgrs':
+        return this.toMgrs(lat, lng) ?? this.formatPosition(lat, lng, 'dd');
+      case 'utm': {
+        const utm = this.toUtm(lat, lng);
+        return utm
+          ? `${utm.zone}${utm.band} ${Math.round(utm.easting)} ${Math.round(utm.northing)}`
+          : this.formatPosition(lat, lng, 'dd');
+      }
+      default:
+        return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+    }
+  }
+
+  formatDms(value: number, isLat: boolean): string {
+    const absolute = Math.abs(value);
+    let degrees = Math.floor(absolute);
+    let minutes = Math.floor((absolute - degrees) * 60);
+    let seconds = Math.round((((absolute - degrees) * 60) - minutes) * 600) / 10;
+    // Rounding can carry 59.95" up to a whole minute
+    if (seconds >= 60) { seconds = 0; minutes++; }
+    if (minutes >= 60) { minutes = 0; degrees++; }
+    return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds.toFixed(1).padStart(4, '0')}"${this.hemisphere(value, isLat)}`;
+  }
+
+  formatDdm(value: number, isLat: boolean): string {
+    const absolute = Math.abs(value);
+    let degrees = Math.floor(absolute);
+    let minutes = Math.round((absolute - degrees) * 60 * 1000) / 1000;
+    if (minutes >= 60) { minutes = 0; degrees++; }
+    return `${degrees}°${minutes.toFixed(3).padStart(6, '0')}'${this.hemisphere(value, isLat)}`;
+  }
+
+  private hemisphere(value: number, isLat: boolean): string {
+    return value >= 0 ? (isLat ? 'N' : 'E') : (isLat ? 'S' : 'W');
+  }
+
+  // ===================================
+  // ✅ PARSING
+  // ===================================
+
+  // ✅ Accepts DD, DMS, DDM (symbols, spaces or hemisphere letters), MGRS and UTM
+  parse(input: string): ParsedPosition | null {
+    const text = input
+      .trim()
+      .toUpperCase()
+      .replace(/[º˚]/g, '°')
+      .replace(/[′’‘`]/g, "'")
+      .replace(/[″“”]|''/g, '"')
+      .replace(/\s+/g, ' ');
+    if (!text) return null;
+
+    return this.parseMgrs(text) ?? this.parseUtm(text) ?? this.parseLatLng(text);
+  }
+
+  private parseMgrs(text: string): ParsedPosition | null {
+    const match = text.match(/^(\d{1,2}) ?([C-HJ-NP-X]) ?([A-HJ-NP-Z])([A-HJ-NP-V]) ?(\d+)(?: (\d+))?$/);
+    if (!match) return null;
+
+    const zone = parseInt(match[1], 10);
+    const digits = match[6] !== undefined ? match[5] + match[6] : match[5];
+    if (zone < 1 || zone > 60 || digits.length % 2 !== 0 || digits.length > 10) return null;
+    if (match[6] !== undefined && match[5].length !== match[6].length) return null;
+
+    const precision = digits.length / 2;
+    const scale = Math.pow(10, 5 - precision);
+    // Centre of the square named by the truncated digits
+    const offset = precision < 5 ? scale / 2 : 0;
+    const easting100k = (MGRS_COLUMN_SETS[(zone - 1) % 3].indexOf(match[3]) + 1) * 100000;
+    const rowIndex = (MGRS_ROW_LETTERS.indexOf(match[4]) - (zone % 2 === 0 ? 5 : 0) + 20) % 20;
+    if (easting100k === 0) return null;
+
+    const easting = easting100k + (precision ? parseInt(digits.slice(0, precision), 10) * scale : 0) + offset;
+    let northing = rowIndex * 100000 + (precision ? parseInt(digits.slice(precision), 10) * scale : 0) + offset;
+
+    // Row letters repeat every 2000 km; the band picks the right cycle
+    const bandIndex = BAND_LETTERS.indexOf(match[2]);
+    const bandSouth = -80 + bandIndex * 8;
+    const minNorthing = Math.floor(this.toUtm(bandSouth, (zone - 1) * 6 - 177, zone)!.northing / 100000) * 100000;
+    while (northing < minNorthing) northing += 2000000;
+
+    const position = this.fromUtm(zone, match[2] >= 'N', easting, northing);
+    return position ? { ...position, format: 'mgrs' } : null;
+  }
+
+  private parseUtm(text: string): ParsedPosition | null {
+    const match = text.match(/^(\d{1,2}) ?([C-HJ-NP-X]) (\d+(?:\.\d+)?) ?M?E? (\d+(?:\.\d+)?) ?M?N?$/);
+    if (!match) return null;
+
+    const zone = parseInt(match[1], 10);
+    const easting = parseFloat(match[3]);
+    const northing = parseFloat(match[4]);
+    if (zone < 1 || zone > 60 || easting < 100000 || easting > 900000 || northing > FALSE_NORTHING_SOUTH) return null;
+
+    const position = this.fromUtm(zone, match[2] >= 'N', easting, northing);
+    return position ? { ...position, format: 'utm' } : null;
+  }
+
+  private parseLatLng(text: string): ParsedPosition | null {
+    const halves = this.splitLatLng(text);
+    if (!halves) return null;
+
+    const first = this.parseComponent(halves[0]);
+    const second = this.parseComponent(halves[1]);
+    if (!first || !second || first.parts !== second.parts) return null;
+
+    // Hemisphere letters may put longitude first
+    const swap = first.axis === 'lng' || second.axis === 'lat';
+    const lat = swap ? second.value : first.value;
+    const lng = swap ? first.value : second.value;
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+    const format: CoordinateFormat = first.parts === 3 ? 'dms' : first.parts === 2 ? 'ddm' : 'dd';
+    return { lat, lng, format };
+  }
+
+  private splitLatLng(text: string): [string, string] | null {
+    if (/[,;]/.test(text)) {
+      const parts = text.split(/[,;]/);
+      return parts.length === 2 ? [parts[0], parts[1]] : null;
+    }
+
+    const letters = [...text.matchAll(/[NSEW]/g)];
+    if (letters.length === 2) {
+      // "S6 12 E106 50" (prefix) or "6 12S 106 50E" (suffix)
+      const at = /^[NSEW]/.test(text) ? letters[1].index! : letters[0].index! + 1;
+      return [text.slice(0, at), text.slice(at)];
+    }
+    if (letters.length > 0) return null;
+
+    // Bare numbers: split the list in half (2 = DD, 4 = DDM, 6 = DMS)
+    const numbers = text.match(/-?\d+(?:\.\d+)?/g) ?? [];
+    if (![2, 4, 6].includes(numbers.length)) return null;
+    const half = numbers.length / 2;
+    return [numbers.slice(0, half).join(' '), numbers.slice(half).join(' ')];
+  }
+
+  private parseComponent(text: string): { value: number; parts: number; axis: 'lat' | 'lng' | null } | null {
+    const cleaned = text.replace(/[°'"]/g, ' ').trim();
+    if (/[A-DF-MO-RT-VX-Z]/.test(cleaned)) return null;
+
+    const letter = cleaned.match(/[NSEW]/)?.[0];
+    const numbers = (cleaned.replace(/[NSEW]/g, ' ').match(/-?\d+(?:\.\d+)?/g) ?? []).map(Number);
+    if (numbers.length < 1 || numbers.length > 3) return null;
+
+    const [degrees, minutes = 0, seconds = 0] = numbers;
+    if (minutes < 0 || minutes >= 60 || seconds < 0 || seconds >= 60) return null;
+    // Only the last part may carry decimals
+    if (numbers.slice(0, -1).some(part => !Number.isInteger(part))) return null;
+
+    const negative = degrees < 0 || Object.is(degrees, -0) || letter === 'S' || letter === 'W';
+    const value = (Math.abs(degrees) + minutes / 60 + seconds / 3600) * (negative ? -1 : 1);
+    const axis = letter === 'N' || letter === 'S' ? 'lat' : letter === 'E' || letter === 'W' ? 'lng' : null;
+    return { value, parts: numbers.length, axis };
+  }
+
+  // ===================================
+  // ✅ UTM / MGRS
+  // ===================================
+
+  private getUtmZone(lat: number, lng: number): number {
+    // Norway and Svalbard exceptions
+    if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32;
+    if (lat >= 72 && lat < 84 && lng >= 0 && lng < 42) {
+      return lng < 9 ? 31 : lng < 21 ? 33 : lng < 33 ? 35 : 37;
+    }
+    return Math.min(Math.floor((lng + 180) / 6) + 1, 60);
+  }
+
+  // Transverse Mercator forward projection (Snyder); UTM is undefined beyond 84°N / 80°S
+  toUtm(lat: number, lng: number, forcedZone?: number): UtmPosition | null {
+    if (lat < -80 || lat >= 84) return null;
+
+    const zone = forcedZone ?? this.getUtmZone(lat, lng);
+    const φ = lat * Math.PI / 180;
+    const λ0 = ((zone - 1) * 6 - 180 + 3) * Math.PI / 180;
+    const λ = lng * Math.PI / 180;
+
+    const sinφ = Math.sin(φ);
+    const cosφ = Math.cos(φ);
+    const N = WGS84_A / Math.sqrt(1 - E2 * sinφ * sinφ);
+    const T = Math.tan(φ) ** 2;
+    const C = EP2 * cosφ * cosφ;
+    const A = cosφ * (λ - λ0);
+    const M = this.meridionalArc(φ);
+
+    const easting = K0 * N * (A + (1 - T + C) * A ** 3 / 6 + (5 - 18 * T + T * T + 72 * C - 58 * EP2) * A ** 5 / 120) + FALSE_EASTING;
+    let northing = K0 * (M + N * Math.tan(φ) * (A * A / 2 + (5 - T + 9 * C + 4 * C * C) * A ** 4 / 24
+      + (61 - 58 * T + T * T + 600 * C - 330 * EP2) * A ** 6 / 720));
+    if (lat < 0) northing += FALSE_NORTHING_SOUTH;
+
+    return { zone, band: BAND_LETTERS[Math.min(Math.floor((lat + 80) / 8), 19)], easting, northing };
+  }
+
+  private fromUtm(zone: number, northern: boolean, easting: number, northing: number): { lat: number; lng: number } | null {
+    const x = easting - FALSE_EASTING;
+    const y = northern ? northing : northing - FALSE_NORTHING_SOUTH;
+    const λ0 = ((zone - 1) * 6 - 180 + 3) * Math.PI / 180;
+
+    const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+    const μ = (y / K0) / (WGS84_A * (1 - E2 / 4 - 3 * E2 ** 2 / 64 - 5 * E2 ** 3 / 256));
+    const φ1 = μ + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * μ)
+      + (21 * e1 ** 2 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * μ)
+      + (151 * e1 ** 3 / 96) * Math.sin(6 * μ)
+      + (1097 * e1 ** 4 / 512) * Math.sin(8 * μ);
+
+    const sinφ1 = Math.sin(φ1);
+    const cosφ1 = Math.cos(φ1);
+    const N1 = WGS84_A / Math.sqrt(1 - E2 * sinφ1 * sinφ1);
+    const T1 = Math.tan(φ1) ** 2;
+    const C1 = EP2 * cosφ1 * cosφ1;
+    const R1 = WGS84_A * (1 - E2) / Math.pow(1 - E2 * sinφ1 * sinφ1, 1.5);
+    const D = x / (N1 * K0);
+
+    const φ = φ1 - (N1 * Math.tan(φ1) / R1) * (D * D / 2
+      - (5 + 3 * T1 + 10 * C1 - 4 * C1 * C1 - 9 * EP2) * D ** 4 / 24
+      + (61 + 90 * T1 + 298 * C1 + 45 * T1 * T1 - 252 * EP2 - 3 * C1 * C1) * D ** 6 / 720);
+    const λ = λ0 + (D - (1 + 2 * T1 + C1) * D ** 3 / 6
+      + (5 - 2 * C1 + 28 * T1 - 3 * C1 * C1 + 8 * EP2 + 24 * T1 * T1) * D ** 5 / 120) / cosφ1;
+
+    const lat = φ * 180 / Math.PI;
+    const lng = ((λ * 180 / Math.PI + 540) % 360) - 180;
+    return isFinite(lat) && isFinite(lng) && Math.abs(lat) <= 90 ? { lat, lng } : null;
+  }
+
+  private meridionalArc(φ: number): number {
+    return WGS84_A * ((1 - E2 / 4 - 3 * E2 ** 2 / 64 - 5 * E2 ** 3 / 256) * φ
+      - (3 * E2 / 8 + 3 * E2 ** 2 / 32 + 45 * E2 ** 3 / 1024) * Math.sin(2 * φ)
+      + (15 * E2 ** 2 / 256 + 45 * E2 ** 3 / 1024) * Math.sin(4 * φ)
+      - (35 * E2 ** 3 / 3072) * Math.sin(6 * φ));
+  }
+
+  // 1 m precision: zone, band, 100 km square, 5+5 digits
+  toMgrs(lat: number, lng: number): string | null {
+    const utm = this.toUtm(lat, lng);
+    if (!utm) return null;
+
+    const column = MGRS_COLUMN_SETS[(utm.zone - 1) % 3][Math.floor(utm.easting / 100000) - 1];
+    const row = MGRS_ROW_LETTERS[(Math.floor(utm.northing / 100000) + (utm.zone % 2 === 0 ? 5 : 0)) % 20];
+    const easting = String(Math.floor(utm.easting % 100000)).padStart(5, '0');
+    const northing = String(Math.floor(utm.northing % 100000)).padStart(5, '0');
+    return `${utm.zone}${utm.band} ${column}${row} ${easting} ${northing}`;
+  }
+
+  // ===================================
+  // ✅ GO TO POSITION
+  // ===================================
+
+  // ✅ Fly to the position and leave a labelled marker (one at a time)
+  goTo(lat: number, lng: number, label?: string): void {
+    if (!this.map) return;
+
+    this.clearGoToMarker();
+    const title = label?.trim() || this.formatPosition(lat, lng);
+    const rows = COORDINATE_FORMATS.map(format => `
+      <div class="popup-row">
+        <span class="label">${format.label}:</span>
+        <span class="value">${this.formatPosition(lat, lng, format.value)}</span>
+      </div>`).join('');
+
+    this.goToMarker = this.L.marker([lat, lng], {
+      icon: this.L.divIcon({
+        className: 'goto-marker',
+        html: '<div class="goto-marker-icon">⌖</div>',
+        iconSize: [28, 28],
+        iconAnchor: [14, 14]
+      })
+    })
+      .bindTooltip(escapeHtml(title), { permanent: true, direction: 'top', offset: [0, -14], className: 'goto-marker-label' })
+      .bindPopup(`
+        <div class="custom-popup goto-popup">
+          <div class="popup-header"><strong>⌖ ${escapeHtml(title)}</strong></div>
+          <div class="popup-content">${rows}</div>
+        </div>
+      `)
+      .addTo(this.map);
+
+    this.map.flyTo([lat, lng], Math.max(this.map.getZoom(), 12), { duration: 1.2 });
+    console.log(`⌖ Go to ${lat.toFixed(6)}, ${lng.toFixed(6)}`);
+  }
+
+  clearGoToMarker(): void {
+    if (this.goToMarker && this.map) {
+      this.map.removeLayer(this.goToMarker);
+    }
+    this.goToMarker = null;
+  }
+
+  private loadFormat(): CoordinateFormat {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY) as CoordinateFormat | null;
+      return stored && COORDINATE_FORMATS.some(format => format.value === stored) ? stored : 'dd';
+    } catch (error) {
+      console.error('❌ Failed to load coordinate format:', error);
+      return 'dd';
+    }
+  }
+
   cleanup(): void {
     // Coordinate display will be removed when map is destroyed
+    this.clearGoToMarker();
   }
 }
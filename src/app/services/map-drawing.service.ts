@@ -1,5 +1,125 @@
-// map-drawing.service.ts
-import { Injectable } from '@angular/core';
+// map-drawing.service.ts - Drawing toolkit: polygon, polyline, circle, rectangle and line buffers
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { auditTime } from 'rxjs/operators';
+import { GeofenceService, GeofenceType, GEOFENCE_TYPES } from './geofence.service';
+import { VesselWebSocketService } from './vessel-websocket.service';
+import { escapeHtml } from '../utils/escape-html';
+
+export type DrawTool = 'polygon' | 'polyline' | 'circle' | 'rectangle' | 'buffer';
+
+export interface ShapeStyle {
+  color: string;
+  weight: number;
+  fillOpacity: number;
+  dashed: boolean;
+}
+
+export interface DrawnShape {
+  id: string;
+  name: string;
+  type: DrawTool;
+  // polygon/polyline/buffer: vertices; rectangle: [south-west, north-east]; circle: [centre]
+  points: [number, number][]; // [lat, lng]
+  radiusM?: number;
+  bufferM?: number;
+  style: ShapeStyle;
+  createdAt: Date;
+}
+
+export interface ShapeVessel {
+  mmsi: number;
+  name?: string;
+}
+
+export interface DrawingHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const DRAW_TOOLS: { value: DrawTool; label: string; icon: string; hint: string }[] = [
+  { value: 'polygon', label: 'Polygon', icon: 'pentagon', hint: 'Klik titik-titik, double-click untuk selesai' },
+  { value: 'polyline', label: 'Line', icon: 'polyline', hint: 'Klik titik-titik, double-click untuk selesai' },
+  { value: 'circle', label: 'Circle', icon: 'radio_button_unchecked', hint: 'Klik pusat, lalu klik radius' },
+  { value: 'rectangle', label: 'Rectangle', icon: 'crop_square', hint: 'Klik dua sudut yang berseberangan' },
+  { value: 'buffer', label: 'Buffer', icon: 'route', hint: 'Gambar garis, double-click - area buffer di sekitarnya' }
+];
+
+export const DEFAULT_SHAPE_STYLE: ShapeStyle = {
+  color: '#FF6B35',
+  weight: 3,
+  fillOpacity: 0.2,
+  dashed: false
+};
+
+const NM_IN_METERS = 1852;
+const EARTH_RADIUS = 6378137;
+
+// ✅ Headline measurement for a shape, e.g. "12.40 km² · 3.62 nm²"
+export function describeShape(shape: DrawnShape): string {
+  switch (shape.type) {
+    case 'polyline':
+      return formatLength(polylineLength(shape.points));
+    case 'buffer':
+      return `${formatLength(polylineLength(shape.points))} ± ${((shape.bufferM ?? 0) / NM_IN_METERS).toFixed(2)} nm`;
+    case 'circle':
+      return `r ${((shape.radiusM ?? 0) / NM_IN_METERS).toFixed(2)} nm · ${formatArea(Math.PI * (shape.radiusM ?? 0) ** 2)}`;
+    default:
+      return formatArea(geodesicArea(shapeRing(shape)));
+  }
+}
+
+function formatLength(meters: number): string {
+  return `${(meters / NM_IN_METERS).toFixed(2)} nm (${(meters / 1000).toFixed(2)} km)`;
+}
+
+function formatArea(squareMeters: number): string {
+  return `${(squareMeters / 1e6).toFixed(2)} km² · ${(squareMeters / NM_IN_METERS ** 2).toFixed(2)} nm²`;
+}
+
+function distanceMeters(from: [number, number], to: [number, number]): number {
+  const φ1 = from[0] * Math.PI / 180;
+  const φ2 = to[0] * Math.PI / 180;
+  const Δφ = (to[0] - from[0]) * Math.PI / 180;
+  const Δλ = (to[1] - from[1]) * Math.PI / 180;
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  return EARTH_RADIUS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function polylineLength(points: [number, number][]): number {
+  return points.slice(1).reduce((total, point, index) => total + distanceMeters(points[index], point), 0);
+}
+
+// Spherical polygon area (same approach as Leaflet.draw's geodesicArea)
+function geodesicArea(ring: [number, number][]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [lat1, lng1] = ring[i];
+    const [lat2, lng2] = ring[(i + 1) % ring.length];
+    area += (lng2 - lng1) * Math.PI / 180 * (2 + Math.sin(lat1 * Math.PI / 180) + Math.sin(lat2 * Math.PI / 180));
+  }
+  return Math.abs(area * EARTH_RADIUS * EARTH_RADIUS / 2);
+}
+
+// Closed outline of an area shape (circles approximated by a 48-gon)
+function shapeRing(shape: DrawnShape): [number, number][] {
+  if (shape.type === 'rectangle') {
+    const [[south, west], [north, east]] = shape.points;
+    return [[south, west], [south, east], [north, east], [north, west]];
+  }
+  if (shape.type === 'circle') {
+    const [lat, lng] = shape.points[0];
+    const radius = shape.radiusM ?? 0;
+    return Array.from({ length: 48 }, (_, i) => {
+      const angle = (i / 48) * 2 * Math.PI;
+      return [
+        lat + (radius * Math.cos(angle) / EARTH_RADIUS) * 180 / Math.PI,
+        lng + (radius * Math.sin(angle) / (EARTH_RADIUS * Math.cos(lat * Math.PI / 180))) * 180 / Math.PI
+      ] as [number, number];
+    });
+  }
+  return shape.points;
+}
 
 @Injectable({
   providedIn: 'root'
@@ -8,337 +128,725 @@ export class MapDrawingService {
   private map: any;
   private L: any;
   private drawLayer: any;
-  
-  private isDrawingActive: boolean = false;
-  private currentDrawingPoints: any[] = [];
-  private temporaryPolygon: any;
-  private temporaryPopup: any;
-  private isMouseTracking: boolean = false;
+  private shapesLayer: any;
+  private editLayer: any;
+  private shapeLayers: Map<string, any> = new Map();
+  private updatesSubscription: Subscription | null = null;
+
+  // ✅ In-progress drawing
+  private lastTool: DrawTool = 'polygon';
+  private draftPoints: [number, number][] = [];
+  private draftBufferM = NM_IN_METERS;
+
+  // ✅ Undo / redo snapshots of the whole shape list
+  private undoStack: DrawnShape[][] = [];
+  private redoStack: DrawnShape[][] = [];
+
+  private readonly STORAGE_KEY = 'telkomsat-drawn-shapes';
+  private readonly MAX_HISTORY = 50;
+  private readonly EVALUATION_INTERVAL = 3000;
+
+  private shapesSubject = new BehaviorSubject<DrawnShape[]>([]);
+  private activeToolSubject = new BehaviorSubject<DrawTool | null>(null);
+  private editingIdSubject = new BehaviorSubject<string | null>(null);
+  private historySubject = new BehaviorSubject<DrawingHistoryState>({ canUndo: false, canRedo: false });
+  private vesselsInsideSubject = new BehaviorSubject<Record<string, ShapeVessel[]>>({});
 
-  constructor() {}
+  public shapes$ = this.shapesSubject.asObservable();
+  public activeTool$ = this.activeToolSubject.asObservable();
+  public editingId$ = this.editingIdSubject.asObservable();
+  public history$ = this.historySubject.asObservable();
+  public vesselsInside$ = this.vesselsInsideSubject.asObservable();
+
+  constructor(
+    private geofenceService: GeofenceService,
+    private webSocketService: VesselWebSocketService,
+    private zone: NgZone
+  ) {}
 
   initialize(map: any, L: any): void {
     this.map = map;
     this.L = L;
+    this.shapesLayer = L.layerGroup().addTo(map);
     this.drawLayer = L.layerGroup().addTo(map);
-    (window as any).mapService = this;
+    this.editLayer = L.layerGroup().addTo(map);
+
+    this.shapesSubject.next(this.loadShapes());
+    this.shapesSubject.value.forEach(shape => this.drawShape(shape));
+    this.updateVesselsInside();
+
+    this.updatesSubscription = this.webSocketService.vesselUpdates$
+      .pipe(auditTime(this.EVALUATION_INTERVAL))
+      .subscribe(() => this.updateVesselsInside());
+
+    console.log(`✏️ MapDrawingService initialized with ${this.shapesSubject.value.length} shapes`);
   }
 
   isActive(): boolean {
-    return this.isDrawingActive;
+    return this.activeToolSubject.value !== null;
   }
 
   toggle(enabled: boolean): void {
-    this.isDrawingActive = enabled;
     if (enabled) {
-      this.map.getContainer().style.cursor = 'crosshair';
-      console.log('✏️ Drawing mode enabled');
+      this.startTool(this.lastTool);
     } else {
-      this.map.getContainer().style.cursor = '';
-      this.clearDrawing();
-      console.log('✏️ Drawing mode disabled');
+      this.cancelTool();
     }
   }
 
   disable(): void {
-    this.isDrawingActive = false;
-    this.stopRealTimeTracking();
-    this.clearDrawing();
+    this.cancelTool();
+  }
+
+  // ===================================
+  // ✅ DRAWING
+  // ===================================
+
+  startTool(tool: DrawTool, bufferNm?: number): void {
+    if (!this.map) return;
+
+    this.clearDraft();
+    this.stopEditing();
+    this.lastTool = tool;
+    if (bufferNm && bufferNm > 0) this.draftBufferM = bufferNm * NM_IN_METERS;
+
+    this.activeToolSubject.next(tool);
+    this.map.getContainer().style.cursor = 'crosshair';
+    this.map.doubleClickZoom?.disable();
+    this.map.off('mousemove', this.onMouseMove);
+    this.map.on('mousemove', this.onMouseMove);
+    console.log(`✏️ Drawing mode enabled (${tool})`);
+  }
+
+  cancelTool(): void {
+    if (!this.activeToolSubject.value) return;
+
+    this.clearDraft();
+    this.activeToolSubject.next(null);
+    if (this.map) {
+      this.map.getContainer().style.cursor = '';
+      this.map.doubleClickZoom?.enable();
+      this.map.off('mousemove', this.onMouseMove);
+    }
+    console.log('✏️ Drawing mode disabled');
   }
 
   handleClick(e: any): void {
-    const lat = e.latlng.lat;
-    const lng = e.latlng.lng;
-    
-    const pointIcon = this.L.divIcon({
-      className: 'drawing-point',
-      html: `<div class="draw-point">${this.currentDrawingPoints.length + 1}</div>`,
-      iconSize: [20, 20],
-      iconAnchor: [10, 10]
-    });
-    
-    const marker = this.L.marker([lat, lng], { icon: pointIcon }).addTo(this.drawLayer);
-    this.currentDrawingPoints.push({ marker, latlng: e.latlng });
-    
-    if (this.currentDrawingPoints.length === 1) {
-      this.startRealTimeAreaTracking();
-      this.showInitialPopup(e.latlng);
-    } else if (this.currentDrawingPoints.length >= 3) {
-      this.updateAreaPopup(e.latlng);
-      this.drawPolygonPreview();
-    } else {
-      this.drawLinePreview();
+    const tool = this.activeToolSubject.value;
+    if (!tool) return;
+
+    this.draftPoints.push([e.latlng.lat, e.latlng.lng]);
+
+    // Two-click shapes finish on the second click
+    if ((tool === 'circle' || tool === 'rectangle') && this.draftPoints.length === 2) {
+      this.finishDrawing();
+      return;
     }
+    this.renderDraft(null);
+    this.updateHistoryState();
   }
 
   handleDoubleClick(e: any): void {
-    if (this.currentDrawingPoints.length >= 3) {
-      this.finishDrawing();
+    if (this.activeToolSubject.value) this.finishDrawing();
+  }
+
+  finishDrawing(): void {
+    const tool = this.activeToolSubject.value;
+    if (!tool) return;
+
+    // The two clicks of a double-click land on the same spot
+    const points = this.draftPoints.filter((point, index) =>
+      index === 0 || !this.isSamePixel(point, this.draftPoints[index - 1])
+    );
+    const minPoints = tool === 'polygon' ? 3 : 2;
+    if (points.length < minPoints) return;
+
+    let shape: Omit<DrawnShape, 'id' | 'name' | 'createdAt'>;
+    switch (tool) {
+      case 'circle':
+        shape = { type: tool, points: [points[0]], radiusM: distanceMeters(points[0], points[1]), style: { ...DEFAULT_SHAPE_STYLE } };
+        break;
+      case 'rectangle':
+        shape = { type: tool, points: this.normaliseBounds(points[0], points[1]), style: { ...DEFAULT_SHAPE_STYLE } };
+        break;
+      case 'buffer':
+        shape = { type: tool, points, bufferM: this.draftBufferM, style: { ...DEFAULT_SHAPE_STYLE, dashed: true } };
+        break;
+      default:
+        shape = { type: tool, points, style: { ...DEFAULT_SHAPE_STYLE } };
     }
+
+    this.clearDraft();
+    const added = this.addShape(shape);
+    this.shapeLayers.get(added.id)?.openPopup();
+  }
+
+  private onMouseMove = (e: any) => {
+    if (this.draftPoints.length > 0) this.renderDraft([e.latlng.lat, e.latlng.lng]);
+  };
+
+  // ✅ Preview of the shape being drawn, following the cursor
+  private renderDraft(cursor: [number, number] | null): void {
+    const tool = this.activeToolSubject.value;
+    if (!tool || !this.drawLayer) return;
+
+    this.drawLayer.clearLayers();
+
+    this.draftPoints.forEach((point, index) => {
+      this.L.marker(point, {
+        icon: this.L.divIcon({
+          className: 'drawing-point',
+          html: `<div class="draw-point">${index + 1}</div>`,
+          iconSize: [20, 20],
+          iconAnchor: [10, 10]
+        }),
+        interactive: false
+      }).addTo(this.drawLayer);
+    });
+
+    const points = cursor ? [...this.draftPoints, cursor] : this.draftPoints;
+    if (points.length < 2) return;
+
+    const preview: DrawnShape = {
+      id: 'draft',
+      name: '',
+      type: tool,
+      points,
+      style: { ...DEFAULT_SHAPE_STYLE, dashed: true },
+      createdAt: new Date()
+    };
+    if (tool === 'circle') {
+      preview.points = [points[0]];
+      preview.radiusM = distanceMeters(points[0], points[points.length - 1]);
+    } else if (tool === 'rectangle') {
+      preview.points = this.normaliseBounds(points[0], points[points.length - 1]);
+    } else if (tool === 'buffer') {
+      preview.bufferM = this.draftBufferM;
+    } else if (tool === 'polygon' && points.length < 3) {
+      preview.type = 'polyline';
+    }
+
+    this.createShapeLayer(preview, true).addTo(this.drawLayer);
+    this.L.tooltip({ permanent: true, direction: 'right', offset: [12, 0], className: 'draw-measure-label' })
+      .setLatLng(points[points.length - 1])
+      .setContent(describeShape(preview))
+      .addTo(this.drawLayer);
+  }
+
+  private clearDraft(): void {
+    this.draftPoints = [];
+    this.drawLayer?.clearLayers();
+    this.updateHistoryState();
+  }
+
+  private isSamePixel(a: [number, number], b: [number, number]): boolean {
+    if (!this.map) return false;
+    return this.map.latLngToContainerPoint(a).distanceTo(this.map.latLngToContainerPoint(b)) < 4;
+  }
+
+  private normaliseBounds(a: [number, number], b: [number, number]): [number, number][] {
+    return [
+      [Math.min(a[0], b[0]), Math.min(a[1], b[1])],
+      [Math.max(a[0], b[0]), Math.max(a[1], b[1])]
+    ];
+  }
+
+  // ===================================
+  // ✅ SHAPE CRUD
+  // ===================================
+
+  getShapes(): DrawnShape[] {
+    return this.shapesSubject.value;
+  }
+
+  addShape(data: Omit<DrawnShape, 'id' | 'name' | 'createdAt'> & { name?: string }): DrawnShape {
+    const label = DRAW_TOOLS.find(tool => tool.value === data.type)?.label ?? 'Shape';
+    const shape: DrawnShape = {
+      ...data,
+      id: `sh-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name: data.name?.trim() || `${label} ${this.shapesSubject.value.filter(item => item.type === data.type).length + 1}`,
+      createdAt: new Date()
+    };
+
+    this.commit([...this.shapesSubject.value, shape]);
+    console.log(`✏️ Shape saved: ${shape.name}`);
+    return shape;
+  }
+
+  updateShape(id: string, changes: Partial<Pick<DrawnShape, 'name' | 'points' | 'radiusM' | 'bufferM'>> & { style?: Partial<ShapeStyle> }): void {
+    this.commit(this.shapesSubject.value.map(shape =>
+      shape.id === id ? { ...shape, ...changes, style: { ...shape.style, ...changes.style } } : shape
+    ));
+  }
+
+  removeShape(id: string): void {
+    if (this.editingIdSubject.value === id) this.stopEditing();
+    this.commit(this.shapesSubject.value.filter(shape => shape.id !== id));
+  }
+
+  clearShapes(): void {
+    this.stopEditing();
+    this.commit([]);
   }
 
-  private startRealTimeAreaTracking(): void {
-    this.isMouseTracking = true;
-    this.map.on('mousemove', this.onMouseMoveForArea, this);
+  focusOnShape(id: string): void {
+    const layer = this.shapeLayers.get(id);
+    if (layer && this.map) {
+      this.map.fitBounds(layer.getBounds(), { padding: [40, 40], maxZoom: 14 });
+    }
   }
 
-  private stopRealTimeTracking(): void {
-    this.isMouseTracking = false;
-    this.map.off('mousemove', this.onMouseMoveForArea, this);
+  // ✅ Every change to the shape list goes through here so it can be undone
+  private commit(shapes: DrawnShape[]): void {
+    this.undoStack.push(this.cloneShapes(this.shapesSubject.value));
+    if (this.undoStack.length > this.MAX_HISTORY) this.undoStack.shift();
+    this.redoStack = [];
+    this.applyShapes(shapes);
   }
 
-  private onMouseMoveForArea = (e: any) => {
-    if (!this.isMouseTracking || this.currentDrawingPoints.length === 0) return;
-    
-    const currentMousePos = e.latlng;
-    
-    if (this.currentDrawingPoints.length >= 2) {
-      const tempPoints = [...this.currentDrawingPoints.map(p => p.latlng), currentMousePos];
-      const area = this.calculatePolygonArea(tempPoints);
-      
-      this.drawTemporaryPolygon(currentMousePos);
-      this.updateLiveAreaPopup(area);
+  private applyShapes(shapes: DrawnShape[]): void {
+    this.updateShapes(shapes);
+
+    this.shapesLayer?.clearLayers();
+    this.shapeLayers.clear();
+    shapes.forEach(shape => this.drawShape(shape));
+
+    const editingId = this.editingIdSubject.value;
+    if (editingId && shapes.some(shape => shape.id === editingId)) {
+      this.drawEditHandles(editingId);
+    } else {
+      this.stopEditing();
     }
+
+    this.updateVesselsInside();
+    this.updateHistoryState();
   }
 
-  private drawTemporaryPolygon(currentMousePos: any): void {
-    if (this.temporaryPolygon) {
-      this.drawLayer.removeLayer(this.temporaryPolygon);
+  // ===================================
+  // ✅ UNDO / REDO
+  // ===================================
+
+  undo(): void {
+    // While drawing, undo takes back the last vertex first
+    if (this.activeToolSubject.value && this.draftPoints.length > 0) {
+      this.draftPoints.pop();
+      if (this.draftPoints.length > 0) this.renderDraft(null); else this.drawLayer?.clearLayers();
+      this.updateHistoryState();
+      return;
     }
-    
-    if (this.currentDrawingPoints.length >= 2) {
-      const tempPoints = [...this.currentDrawingPoints.map(p => p.latlng), currentMousePos];
-      this.temporaryPolygon = this.L.polygon(tempPoints, {
-        color: '#FF6B35',
-        fillColor: '#FF6B35',
-        fillOpacity: 0.1,
-        weight: 1,
-        opacity: 0.5
-      }).addTo(this.drawLayer);
+
+    const previous = this.undoStack.pop();
+    if (!previous) return;
+    this.redoStack.push(this.cloneShapes(this.shapesSubject.value));
+    this.applyShapes(previous);
+  }
+
+  redo(): void {
+    const next = this.redoStack.pop();
+    if (!next) return;
+    this.undoStack.push(this.cloneShapes(this.shapesSubject.value));
+    this.applyShapes(next);
+  }
+
+  private updateHistoryState(): void {
+    const state = {
+      canUndo: this.undoStack.length > 0 || this.draftPoints.length > 0,
+      canRedo: this.redoStack.length > 0
+    };
+    const current = this.historySubject.value;
+    if (current.canUndo !== state.canUndo || current.canRedo !== state.canRedo) {
+      this.zone.run(() => this.historySubject.next(state));
     }
   }
 
-  private showInitialPopup(latlng: any): void {
-    this.temporaryPopup = this.L.popup()
-      .setLatLng(latlng)
-      .setContent(`
-        <div class="custom-popup draw-popup">
-          <div class="popup-header">
-            <strong>✏️ Mulai Menggambar</strong>
-          </div>
-          <div class="popup-content">
-            <div class="live-area" id="live-area">
-              <div class="instruction">📐 Gerakkan mouse untuk melihat area</div>
-            </div>
-            <div class="draw-actions">
-              <button onclick="window.mapService?.clearDrawing()" class="clear-btn">
-                🗑️ Batal
-              </button>
-            </div>
-          </div>
-        </div>
-      `)
-      .openOn(this.map);
-  }
-
-  private updateLiveAreaPopup(area: number): void {
-    const areaKm2 = (area / 1000000).toFixed(2);
-    const areaHa = (area / 10000).toFixed(2);
-    const areaM2 = area.toFixed(0);
-    
-    const liveAreaElement = document.getElementById('live-area');
-    if (liveAreaElement) {
-      liveAreaElement.innerHTML = `
-        <div class="live-area-measurement">
-          <h4>📐 Luas Real-time:</h4>
-          <div class="area-values">
-            <div class="area-item">
-              <span class="area-icon">🏞️</span>
-              <span class="area-badge km2">${areaKm2} km²</span>
-            </div>
-            <div class="area-item">
-              <span class="area-icon">🌾</span>
-              <span class="area-badge ha">${areaHa} ha</span>
-            </div>
-            <div class="area-item">
-              <span class="area-icon">📏</span>
-              <span class="area-badge m2">${areaM2} m²</span>
-            </div>
-          </div>
-        </div>
-        <p class="instruction">👆 Klik lagi | 🖱️ Double-click untuk selesai</p>
-      `;
+  private cloneShapes(shapes: DrawnShape[]): DrawnShape[] {
+    return shapes.map(shape => ({
+      ...shape,
+      points: shape.points.map(point => [point[0], point[1]] as [number, number]),
+      style: { ...shape.style }
+    }));
+  }
+
+  // ===================================
+  // ✅ VERTEX EDITING
+  // ===================================
+
+  startEditing(id: string): void {
+    if (!this.shapesSubject.value.some(shape => shape.id === id)) return;
+    this.cancelTool();
+    this.map?.closePopup();
+    this.editingIdSubject.next(id);
+    this.drawEditHandles(id);
+  }
+
+  stopEditing(): void {
+    this.editLayer?.clearLayers();
+    if (this.editingIdSubject.value !== null) this.editingIdSubject.next(null);
+  }
+
+  private drawEditHandles(id: string): void {
+    const shape = this.shapesSubject.value.find(item => item.id === id);
+    if (!shape || !this.editLayer) return;
+    this.editLayer.clearLayers();
+
+    switch (shape.type) {
+      case 'circle':
+        this.drawCircleHandles(shape);
+        break;
+      case 'rectangle':
+        this.drawRectangleHandles(shape);
+        break;
+      default:
+        this.drawVertexHandles(shape);
     }
   }
 
-  private updateAreaPopup(latlng: any): void {
-    const latlngs = this.currentDrawingPoints.map(p => p.latlng);
-    const area = this.calculatePolygonArea(latlngs);
-    const areaKm2 = (area / 1000000).toFixed(2);
-    const areaHa = (area / 10000).toFixed(2);
-    const areaM2 = area.toFixed(0);
-    
-    const popup = this.L.popup()
-      .setLatLng(latlng)
-      .setContent(`
-        <div class="custom-popup draw-popup">
-          <div class="popup-header">
-            <strong>📐 Hasil Luas Area</strong>
-          </div>
-          <div class="popup-content">
-            <div class="area-results">
-              <div class="area-item">
-                <span class="area-icon">🏞️</span>
-                <span class="area-value">${areaKm2} km²</span>
-              </div>
-              <div class="area-item">
-                <span class="area-icon">🌾</span>
-                <span class="area-value">${areaHa} hektar</span>
-              </div>
-              <div class="area-item">
-                <span class="area-icon">📏</span>
-                <span class="area-value">${areaM2} m²</span>
-              </div>
-            </div>
-            <div class="draw-actions">
-              <button onclick="navigator.clipboard.writeText('${areaKm2} km²'); alert('Luas disalin!')" class="copy-btn">
-                📋 Copy
-              </button>
-              <button onclick="window.mapService?.finishDrawing()" class="finish-btn">
-                ✅ Selesai
-              </button>
-              <button onclick="window.mapService?.clearDrawing()" class="clear-btn">
-                🗑️ Batal
-              </button>
-            </div>
-          </div>
-        </div>
-      `);
-      
-    if (this.temporaryPopup) {
-      this.map.closePopup(this.temporaryPopup);
+  // Drag a vertex to move it, right-click to delete it, drag or click a midpoint to insert one
+  private drawVertexHandles(shape: DrawnShape): void {
+    const closed = shape.type === 'polygon';
+    const minPoints = closed ? 3 : 2;
+    const working = shape.points.map(point => [point[0], point[1]] as [number, number]);
+
+    working.forEach((point, index) => {
+      const handle = this.createHandle(point, 'vertex');
+      handle.on('drag', () => {
+        const { lat, lng } = handle.getLatLng();
+        working[index] = [lat, lng];
+        this.previewShape({ ...shape, points: working });
+      });
+      handle.on('dragend', () => this.updateShape(shape.id, { points: working }));
+      handle.on('contextmenu', () => {
+        if (working.length <= minPoints) return;
+        this.updateShape(shape.id, { points: working.filter((_, i) => i !== index) });
+      });
+    });
+
+    const segments = closed ? working.length : working.length - 1;
+    for (let index = 0; index < segments; index++) {
+      const from = working[index];
+      const to = working[(index + 1) % working.length];
+      const handle = this.createHandle([(from[0] + to[0]) / 2, (from[1] + to[1]) / 2], 'midpoint');
+      const insert = () => {
+        const { lat, lng } = handle.getLatLng();
+        const points = [...working];
+        points.splice(index + 1, 0, [lat, lng]);
+        this.updateShape(shape.id, { points });
+      };
+      handle.on('dragend', insert);
+      handle.on('click', insert);
     }
-    this.temporaryPopup = popup;
-    popup.openOn(this.map);
   }
 
-  private drawLinePreview(): void {
-    const latlngs = this.currentDrawingPoints.map(p => p.latlng);
-    this.L.polyline(latlngs, {
-      color: '#FF6B35',
-      weight: 2,
-      opacity: 0.6,
-      dashArray: '5, 5'
-    }).addTo(this.drawLayer);
+  private drawRectangleHandles(shape: DrawnShape): void {
+    const corners = shapeRing(shape);
+    corners.forEach((corner, index) => {
+      const opposite = corners[(index + 2) % 4];
+      const handle = this.createHandle(corner, 'vertex');
+      const boundsFromHandle = () => {
+        const { lat, lng } = handle.getLatLng();
+        return this.normaliseBounds([lat, lng], opposite);
+      };
+      handle.on('drag', () => this.previewShape({ ...shape, points: boundsFromHandle() }));
+      handle.on('dragend', () => this.updateShape(shape.id, { points: boundsFromHandle() }));
+    });
   }
 
-  private drawPolygonPreview(): void {
-    this.drawLayer.eachLayer((layer: any) => {
-      if (layer instanceof this.L.Polygon) {
-        this.drawLayer.removeLayer(layer);
-      }
+  private drawCircleHandles(shape: DrawnShape): void {
+    const [lat, lng] = shape.points[0];
+    const radius = shape.radiusM ?? 0;
+    const radiusPoint = (centre: [number, number], radiusM: number): [number, number] =>
+      [centre[0], centre[1] + (radiusM / (EARTH_RADIUS * Math.cos(centre[0] * Math.PI / 180))) * 180 / Math.PI];
+
+    const centreHandle = this.createHandle([lat, lng], 'vertex');
+    const radiusHandle = this.createHandle(radiusPoint([lat, lng], radius), 'radius');
+
+    centreHandle.on('drag', () => {
+      const { lat: centreLat, lng: centreLng } = centreHandle.getLatLng();
+      radiusHandle.setLatLng(radiusPoint([centreLat, centreLng], radius));
+      this.previewShape({ ...shape, points: [[centreLat, centreLng]] });
+    });
+    centreHandle.on('dragend', () => {
+      const { lat: centreLat, lng: centreLng } = centreHandle.getLatLng();
+      this.updateShape(shape.id, { points: [[centreLat, centreLng]] });
     });
-    
-    const latlngs = this.currentDrawingPoints.map(p => p.latlng);
-    this.L.polygon(latlngs, {
-      color: '#FF6B35',
-      fillColor: '#FF6B35',
-      fillOpacity: 0.2,
-      weight: 2,
-      opacity: 0.8
-    }).addTo(this.drawLayer);
-  }
-
-  private calculatePolygonArea(points: any[]): number {
-    let area = 0;
-    const n = points.length;
-    
-    for (let i = 0; i < n; i++) {
-      const j = (i + 1) % n;
-      area += points[i].lat * points[j].lng;
-      area -= points[j].lat * points[i].lng;
+
+    const radiusFromHandle = () => {
+      const { lat: handleLat, lng: handleLng } = radiusHandle.getLatLng();
+      return distanceMeters([lat, lng], [handleLat, handleLng]);
+    };
+    radiusHandle.on('drag', () => this.previewShape({ ...shape, radiusM: radiusFromHandle() }));
+    radiusHandle.on('dragend', () => this.updateShape(shape.id, { radiusM: radiusFromHandle() }));
+  }
+
+  private createHandle(point: [number, number], kind: 'vertex' | 'midpoint' | 'radius'): any {
+    return this.L.marker(point, {
+      draggable: true,
+      icon: this.L.divIcon({
+        className: `draw-edit-handle ${kind}`,
+        iconSize: kind === 'midpoint' ? [10, 10] : [14, 14]
+      })
+    }).addTo(this.editLayer);
+  }
+
+  // Redraw one shape while a handle is dragged, without touching history
+  private previewShape(shape: DrawnShape): void {
+    this.removeShapeLayer(shape.id);
+    this.drawShape(shape);
+  }
+
+  // ===================================
+  // ✅ RENDERING
+  // ===================================
+
+  private drawShape(shape: DrawnShape): void {
+    if (!this.shapesLayer) return;
+
+    const layer = this.createShapeLayer(shape, false)
+      .bindPopup(() => this.createShapePopup(shape.id))
+      .addTo(this.shapesLayer);
+    layer.on('popupopen', (e: any) => this.bindShapePopup(e.popup, shape.id));
+
+    this.shapeLayers.set(shape.id, layer);
+  }
+
+  private createShapeLayer(shape: DrawnShape, preview: boolean): any {
+    const options = {
+      color: shape.style.color,
+      fillColor: shape.style.color,
+      weight: preview ? 2 : shape.style.weight,
+      opacity: preview ? 0.7 : 0.9,
+      fillOpacity: preview ? 0.1 : shape.style.fillOpacity,
+      dashArray: shape.style.dashed ? '8, 6' : undefined,
+      interactive: !preview
+    };
+
+    switch (shape.type) {
+      case 'circle':
+        return this.L.circle(shape.points[0], { ...options, radius: shape.radiusM ?? 0 });
+      case 'rectangle':
+        return this.L.rectangle(shape.points, options);
+      case 'polyline':
+        return this.L.polyline(shape.points, options);
+      case 'buffer':
+        // Fill-only capsule union plus the centre line carrying the stroke style
+        return this.L.featureGroup([
+          this.L.polygon(this.bufferRings(shape.points, shape.bufferM ?? 0), {
+            ...options,
+            stroke: false,
+            fillRule: 'nonzero'
+          }),
+          this.L.polyline(shape.points, { ...options, fill: false })
+        ]);
+      default:
+        return this.L.polygon(shape.points, options);
     }
-    
-    area = Math.abs(area) / 2;
-    const R = 6371000;
-    return area * Math.PI * R * R / (180 * 180);
   }
 
-  finishDrawing(): void {
-    if (this.currentDrawingPoints.length >= 3) {
-      this.stopRealTimeTracking();
-      
-      const latlngs = this.currentDrawingPoints.map(p => p.latlng);
-      const area = this.calculatePolygonArea(latlngs);
-      const areaKm2 = (area / 1000000).toFixed(2);
-      const areaHa = (area / 10000).toFixed(2);
-      const areaM2 = area.toFixed(0);
-      
-      const finalPolygon = this.L.polygon(latlngs, {
-        color: '#FF6B35',
-        fillColor: '#FF6B35',
-        fillOpacity: 0.3,
-        weight: 3
-      }).addTo(this.drawLayer);
-      
-      finalPolygon.bindPopup(`
-        <div class="custom-popup final-result">
-          <div class="popup-header">
-            <strong>✅ Polygon Selesai</strong>
+  // One capsule per segment, all wound the same way so a nonzero fill paints their union
+  private bufferRings(points: [number, number][], bufferM: number): [number, number][][] {
+    const [lat0, lng0] = points[0];
+    const cosLat0 = Math.cos(lat0 * Math.PI / 180);
+    const toLocal = ([lat, lng]: [number, number]) => [
+      (lng - lng0) * Math.PI / 180 * EARTH_RADIUS * cosLat0,
+      (lat - lat0) * Math.PI / 180 * EARTH_RADIUS
+    ];
+    const toLatLng = (x: number, y: number): [number, number] => [
+      lat0 + (y / EARTH_RADIUS) * 180 / Math.PI,
+      lng0 + (x / (EARTH_RADIUS * cosLat0)) * 180 / Math.PI
+    ];
+    const arc = (cx: number, cy: number, from: number, to: number): [number, number][] =>
+      Array.from({ length: 13 }, (_, i) => {
+        const angle = from + (to - from) * (i / 12);
+        return toLatLng(cx + bufferM * Math.cos(angle), cy + bufferM * Math.sin(angle));
+      });
+
+    const segments = points.length > 1 ? points.slice(1).map((point, index) => [points[index], point]) : [[points[0], points[0]]];
+    return segments.map(([from, to]) => {
+      const [ax, ay] = toLocal(from);
+      const [bx, by] = toLocal(to);
+      const heading = Math.atan2(by - ay, bx - ax);
+      return [
+        ...arc(bx, by, heading - Math.PI / 2, heading + Math.PI / 2),
+        ...arc(ax, ay, heading + Math.PI / 2, heading + 3 * Math.PI / 2)
+      ];
+    });
+  }
+
+  private createShapePopup(id: string): string {
+    const shape = this.shapesSubject.value.find(item => item.id === id);
+    if (!shape) return '';
+
+    const vessels = this.vesselsInsideSubject.value[id];
+    const canBecomeGeofence = shape.type === 'polygon' || shape.type === 'rectangle' || shape.type === 'circle';
+
+    return `
+      <div class="custom-popup final-result">
+        <div class="popup-header">
+          <strong>✏️ ${escapeHtml(shape.name)}</strong>
+        </div>
+        <div class="popup-content">
+          <div class="final-area">
+            <h4>📐 ${DRAW_TOOLS.find(tool => tool.value === shape.type)?.label}</h4>
+            <p>${describeShape(shape)}</p>
+            ${vessels ? `<p>🚢 Kapal di dalam: <strong>${vessels.length}</strong></p>` : ''}
           </div>
-          <div class="popup-content">
-            <div class="final-area">
-              <h4>📐 Luas Area Final:</h4>
-              <p>🏞️ ${areaKm2} km²</p>
-              <p>🌾 ${areaHa} hektar</p>
-              <p>📏 ${areaM2} m²</p>
-            </div>
+          <div class="draw-actions">
+            <button data-action="edit-shape" class="finish-btn">✏️ Edit titik</button>
+            <button data-action="delete-shape" class="clear-btn">🗑️ Hapus</button>
           </div>
+          ${canBecomeGeofence ? `
+          <div class="geofence-form">
+            <h4>🛡️ Simpan sebagai Geofence</h4>
+            <input type="text" class="geofence-name" placeholder="Nama zona" value="${escapeHtml(shape.name)}">
+            <select class="geofence-type">
+              ${GEOFENCE_TYPES.map(type => `<option value="${type.value}">${type.label}</option>`).join('')}
+            </select>
+            <label class="geofence-dwell">
+              Dwell alert (menit)
+              <input type="number" class="geofence-dwell-input" min="1" value="30">
+            </label>
+            <button data-action="save-geofence" class="finish-btn">💾 Simpan Geofence</button>
+          </div>
+          ` : ''}
         </div>
-      `);
-      
-      this.currentDrawingPoints.forEach(p => {
-        this.drawLayer.removeLayer(p.marker);
+      </div>
+    `;
+  }
+
+  // ✅ Popup buttons: edit vertices, delete, or turn the shape into a geofence
+  private bindShapePopup(popup: any, id: string): void {
+    const container: HTMLElement | undefined = popup.getElement();
+    if (!container) return;
+
+    const bind = (action: string, handler: () => void) => {
+      const button = container.querySelector(`[data-action="${action}"]`) as HTMLButtonElement | null;
+      if (!button || button.dataset['bound']) return;
+      button.dataset['bound'] = 'true';
+      button.addEventListener('click', () => {
+        this.map.closePopup(popup);
+        this.zone.run(handler);
       });
-      if (this.temporaryPolygon) {
-        this.drawLayer.removeLayer(this.temporaryPolygon);
-      }
-      this.currentDrawingPoints = [];
-      
-      if (this.temporaryPopup) {
-        this.map.closePopup(this.temporaryPopup);
-        this.temporaryPopup = null;
-      }
+    };
+
+    bind('edit-shape', () => this.startEditing(id));
+    bind('delete-shape', () => this.removeShape(id));
+    bind('save-geofence', () => {
+      const shape = this.shapesSubject.value.find(item => item.id === id);
+      if (!shape) return;
+
+      const name = (container.querySelector('.geofence-name') as HTMLInputElement)?.value || shape.name;
+      const type = ((container.querySelector('.geofence-type') as HTMLSelectElement)?.value || 'custom') as GeofenceType;
+      const dwell = parseInt((container.querySelector('.geofence-dwell-input') as HTMLInputElement)?.value, 10);
+
+      const geofence = this.geofenceService.addGeofence(name, type, shapeRing(shape), dwell > 0 ? dwell : 30);
+      // The geofence layer now owns the shape
+      if (geofence) this.removeShape(id);
+    });
+  }
+
+  private removeShapeLayer(id: string): void {
+    const layer = this.shapeLayers.get(id);
+    if (layer && this.shapesLayer) {
+      this.shapesLayer.removeLayer(layer);
     }
+    this.shapeLayers.delete(id);
   }
 
-  clearDrawing(): void {
-    this.stopRealTimeTracking();
-    this.currentDrawingPoints.forEach(point => {
-      this.drawLayer.removeLayer(point.marker);
+  // ===================================
+  // ✅ VESSELS INSIDE
+  // ===================================
+
+  // ✅ Test every cached vessel against every area shape (lines have no inside)
+  private updateVesselsInside(): void {
+    const shapes = this.shapesSubject.value.filter(shape => shape.type !== 'polyline');
+    const vessels = this.webSocketService.getAllCachedVessels();
+    const result: Record<string, ShapeVessel[]> = {};
+
+    shapes.forEach(shape => {
+      const ring = shape.type === 'buffer' ? null : shapeRing(shape);
+      result[shape.id] = vessels
+        .filter(vessel => this.containsPoint(shape, ring, [vessel.latitude, vessel.longitude]))
+        .map(vessel => ({ mmsi: vessel.mmsi, name: vessel.name }));
     });
-    this.drawLayer.eachLayer((layer: any) => {
-      if (layer instanceof this.L.Polygon || layer instanceof this.L.Polyline) {
-        this.drawLayer.removeLayer(layer);
+
+    this.zone.run(() => this.vesselsInsideSubject.next(result));
+  }
+
+  private containsPoint(shape: DrawnShape, ring: [number, number][] | null, point: [number, number]): boolean {
+    switch (shape.type) {
+      case 'circle':
+        return distanceMeters(shape.points[0], point) <= (shape.radiusM ?? 0);
+      case 'rectangle': {
+        const [[south, west], [north, east]] = shape.points;
+        return point[0] >= south && point[0] <= north && point[1] >= west && point[1] <= east;
       }
-    });
-    this.currentDrawingPoints = [];
-    
-    if (this.temporaryPolygon) {
-      this.drawLayer.removeLayer(this.temporaryPolygon);
-      this.temporaryPolygon = null;
+      case 'buffer':
+        return this.distanceToPolyline(point, shape.points) <= (shape.bufferM ?? 0);
+      default:
+        return this.geofenceService.isPointInPolygon(point[0], point[1], ring ?? shape.points);
+    }
+  }
+
+  // Shortest distance from a point to any segment, in a local flat projection around the point
+  private distanceToPolyline(point: [number, number], points: [number, number][]): number {
+    const cosLat = Math.cos(point[0] * Math.PI / 180);
+    const toLocal = ([lat, lng]: [number, number]) => [
+      (lng - point[1]) * Math.PI / 180 * EARTH_RADIUS * cosLat,
+      (lat - point[0]) * Math.PI / 180 * EARTH_RADIUS
+    ];
+
+    let min = Infinity;
+    for (let i = 0; i < Math.max(points.length - 1, 1); i++) {
+      const [ax, ay] = toLocal(points[i]);
+      const [bx, by] = toLocal(points[Math.min(i + 1, points.length - 1)]);
+      const lengthSq = (bx - ax) ** 2 + (by - ay) ** 2;
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * (bx - ax) + ay * (by - ay)) / lengthSq));
+      min = Math.min(min, Math.hypot(ax + t * (bx - ax), ay + t * (by - ay)));
     }
-    
-    if (this.temporaryPopup) {
-      this.map.closePopup(this.temporaryPopup);
-      this.temporaryPopup = null;
+    return min;
+  }
+
+  // ===================================
+  // ✅ PERSISTENCE
+  // ===================================
+
+  private updateShapes(shapes: DrawnShape[]): void {
+    this.zone.run(() => this.shapesSubject.next(shapes));
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(shapes));
+    } catch (error) {
+      console.error('❌ Failed to save drawn shapes:', error);
+    }
+  }
+
+  private loadShapes(): DrawnShape[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return [];
+      return (JSON.parse(stored) as DrawnShape[]).map(shape => ({
+        ...shape,
+        style: { ...DEFAULT_SHAPE_STYLE, ...shape.style },
+        createdAt: new Date(shape.createdAt)
+      }));
+    } catch (error) {
+      console.error('❌ Failed to load drawn shapes:', error);
+      return [];
     }
   }
 
   cleanup(): void {
     this.disable();
-    if (this.drawLayer) {
-      this.drawLayer.clearLayers();
-    }
+    this.stopEditing();
+    this.updatesSubscription?.unsubscribe();
+    this.updatesSubscription = null;
+    [this.shapesLayer, this.drawLayer, this.editLayer].forEach(layer => {
+      if (this.map && layer) this.map.removeLayer(layer);
+    });
+    this.shapesLayer = null;
+    this.drawLayer = null;
+    this.editLayer = null;
+    this.shapeLayers.clear();
+    this.undoStack = [];
+    this.redoStack = [];
   }
 }
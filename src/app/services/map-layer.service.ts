@@ -1,4 +1,8 @@
 import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+export type TileSourceType = 'xyz' | 'wms' | 'wmts';
+export type TileSourceRole = 'base' | 'overlay';
 
 export interface MapLayer {
   name: string;
@@ -6,12 +10,33 @@ export interface MapLayer {
   attribution: string;
   maxZoom?: number;
   subdomains?: string[];
+
+  // ✅ User-managed sources (built-in layers leave these unset)
+  id?: string;
+  custom?: boolean;
+  type?: TileSourceType;
+  role?: TileSourceRole;
+  opacity?: number;
+  format?: string; // image/png, image/jpeg...
+  transparent?: boolean;
+  wmsLayers?: string; // comma separated WMS LAYERS
+  wmsVersion?: string;
+  wmtsLayer?: string;
+  wmtsStyle?: string;
+  tileMatrixSet?: string;
 }
 
+export type TileSourceInput = Omit<MapLayer, 'id' | 'custom'>;
+
 @Injectable({
   providedIn: 'root'
 })
 export class MapLayerService {
+  private readonly STORAGE_KEY = 'telkomsat-tile-sources';
+
+  private customSourcesSubject = new BehaviorSubject<MapLayer[]>([]);
+  public customSources$ = this.customSourcesSubject.asObservable();
+
   private layers: MapLayer[] = [
     {
       name: 'OpenStreetMap',
@@ -52,21 +77,147 @@ export class MapLayerService {
     }
   ];
 
+  constructor() {
+    this.customSourcesSubject.next(this.loadSources());
+  }
+
+  // Base layers: built-in first, then the user's own
   getLayers(): MapLayer[] {
-    return this.layers;
+    return [...this.layers, ...this.customSourcesSubject.value.filter(source => source.role !== 'overlay')];
+  }
+
+  getOverlaySources(): MapLayer[] {
+    return this.customSourcesSubject.value.filter(source => source.role === 'overlay');
+  }
+
+  getCustomSources(): MapLayer[] {
+    return this.customSourcesSubject.value;
   }
 
   getLayerByName(name: string): MapLayer | undefined {
-    return this.layers.find(layer => layer.name === name);
+    return this.getLayers().find(layer => layer.name === name);
+  }
+
+  // ===================================
+  // ✅ CUSTOM SOURCES
+  // ===================================
+
+  addSource(input: TileSourceInput): MapLayer | null {
+    const name = input.name.trim();
+    if (!name || !input.url.trim() || this.isNameTaken(name)) return null;
+
+    const source: MapLayer = {
+      ...input,
+      name,
+      url: input.url.trim(),
+      id: `tiles-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      custom: true
+    };
+    this.updateSources([...this.customSourcesSubject.value, source]);
+    console.log(`🧱 Added ${source.type?.toUpperCase()} tile source: ${source.name}`);
+    return source;
+  }
+
+  updateSource(id: string, input: TileSourceInput): boolean {
+    const name = input.name.trim();
+    if (!name || !input.url.trim() || this.isNameTaken(name, id)) return false;
+
+    this.updateSources(this.customSourcesSubject.value.map(source =>
+      source.id === id ? { ...input, name, url: input.url.trim(), id, custom: true } : source
+    ));
+    return true;
   }
 
+  removeSource(id: string): void {
+    this.updateSources(this.customSourcesSubject.value.filter(source => source.id !== id));
+  }
+
+  private isNameTaken(name: string, exceptId?: string): boolean {
+    const lower = name.toLowerCase();
+    return [...this.layers, ...this.customSourcesSubject.value]
+      .some(layer => layer.id !== exceptId && layer.name.toLowerCase() === lower);
+  }
+
+  // ===================================
+  // ✅ LEAFLET LAYERS
+  // ===================================
+
   createLeafletLayer(layerConfig: MapLayer, L: any): any {
     const options = {
       attribution: layerConfig.attribution,
       maxZoom: layerConfig.maxZoom || 18,
-      ...(layerConfig.subdomains && { subdomains: layerConfig.subdomains })
+      ...(layerConfig.subdomains && { subdomains: layerConfig.subdomains }),
+      ...(layerConfig.opacity !== undefined && { opacity: layerConfig.opacity })
     };
 
-    return L.tileLayer(layerConfig.url, options);
+    switch (layerConfig.type) {
+      case 'wms':
+        return L.tileLayer.wms(layerConfig.url, {
+          ...options,
+          layers: layerConfig.wmsLayers || '',
+          format: layerConfig.format || 'image/png',
+          transparent: layerConfig.transparent ?? layerConfig.role === 'overlay',
+          version: layerConfig.wmsVersion || '1.1.1'
+        });
+      default:
+        return L.tileLayer(this.getUrlTemplate(layerConfig), options);
+    }
+  }
+
+  // ✅ Leaflet {s}/{z}/{x}/{y} template for XYZ and WMTS sources
+  getUrlTemplate(layerConfig: MapLayer): string {
+    return layerConfig.type === 'wmts' ? this.buildWmtsUrl(layerConfig) : layerConfig.url;
+  }
+
+  // RESTful WMTS templates are mapped onto Leaflet's {z}/{x}/{y}; plain endpoints get KVP GetTile
+  private buildWmtsUrl(layerConfig: MapLayer): string {
+    if (layerConfig.url.includes('{')) {
+      return layerConfig.url
+        .replace(/\{TileMatrix\}/gi, '{z}')
+        .replace(/\{TileRow\}/gi, '{y}')
+        .replace(/\{TileCol\}/gi, '{x}')
+        .replace(/\{Style\}/gi, layerConfig.wmtsStyle || 'default')
+        .replace(/\{TileMatrixSet\}/gi, layerConfig.tileMatrixSet || 'GoogleMapsCompatible')
+        .replace(/\{Layer\}/gi, layerConfig.wmtsLayer || '');
+    }
+
+    const separator = layerConfig.url.includes('?') ? '&' : '?';
+    const params = [
+      'SERVICE=WMTS',
+      'REQUEST=GetTile',
+      'VERSION=1.0.0',
+      `LAYER=${encodeURIComponent(layerConfig.wmtsLayer || '')}`,
+      `STYLE=${encodeURIComponent(layerConfig.wmtsStyle || 'default')}`,
+      `TILEMATRIXSET=${encodeURIComponent(layerConfig.tileMatrixSet || 'GoogleMapsCompatible')}`,
+      `FORMAT=${encodeURIComponent(layerConfig.format || 'image/png')}`,
+      'TILEMATRIX={z}',
+      'TILEROW={y}',
+      'TILECOL={x}'
+    ];
+    return `${layerConfig.url}${separator}${params.join('&')}`;
+  }
+
+  // ===================================
+  // ✅ PERSISTENCE
+  // ===================================
+
+  private updateSources(sources: MapLayer[]): void {
+    this.customSourcesSubject.next(sources);
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(sources));
+    } catch (error) {
+      console.error('❌ Failed to save tile sources:', error);
+    }
+  }
+
+  private loadSources(): MapLayer[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('❌ Failed to load tile sources:', error);
+      return [];
+    }
   }
 }
@@ -1,5 +1,40 @@
-// map-marker.service.ts
-import { Injectable } from '@angular/core';
+// map-marker.service.ts - Persistent user markers with notes, drag-to-move and CSV/GeoJSON import/export
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { COORDINATE_FORMATS, MapCoordinateService } from './map-coordinate.service';
+import { downloadFile } from '../utils/download-file';
+import { escapeHtml } from '../utils/escape-html';
+
+export interface UserMarker {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  notes: string;
+  lat: number;
+  lng: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type UserMarkerChanges = Partial<Pick<UserMarker, 'name' | 'icon' | 'color' | 'notes' | 'lat' | 'lng'>>;
+
+export const USER_MARKER_ICONS: { value: string; label: string }[] = [
+  { value: '📍', label: 'Pin' },
+  { value: '⚠️', label: 'Incident' },
+  { value: '🤝', label: 'Rendezvous' },
+  { value: '⚓', label: 'Anchorage' },
+  { value: '🚩', label: 'Flag' },
+  { value: '⭐', label: 'Point of interest' },
+  { value: '🛟', label: 'Search & rescue' },
+  { value: '❌', label: 'Hazard' }
+];
+
+export const USER_MARKER_COLORS = ['#EF4444', '#F59E0B', '#10B981', '#3B82F6', '#8B5CF6', '#111827'];
+
+export const USER_MARKER_FILE_ACCEPT = '.csv,.geojson,.json';
+
+const CSV_HEADERS = ['name', 'lat', 'lng', 'icon', 'color', 'notes', 'createdAt', 'updatedAt'];
 
 @Injectable({
   providedIn: 'root'
@@ -7,15 +42,34 @@ import { Injectable } from '@angular/core';
 export class MapMarkerService {
   private map: any;
   private L: any;
-  private clickMarkers: any[] = [];
+  private markerLayer: any;
+  private markerLayers: Map<string, any> = new Map();
   private isMarkerActive: boolean = false;
 
-  constructor() {}
+  private readonly STORAGE_KEY = 'telkomsat-user-markers';
+
+  private markersSubject = new BehaviorSubject<UserMarker[]>([]);
+  private editRequestsSubject = new Subject<string>();
+
+  public markers$ = this.markersSubject.asObservable();
+  public editRequests$ = this.editRequestsSubject.asObservable();
+
+  constructor(
+    private coordinateService: MapCoordinateService,
+    private zone: NgZone
+  ) {}
 
   initialize(map: any, L: any): void {
     this.map = map;
     this.L = L;
+    this.markerLayer = L.layerGroup().addTo(map);
     (window as any).mapService = this;
+
+    this.markersSubject.next(this.loadMarkers());
+    this.markersSubject.value.forEach(marker => this.drawMarker(marker));
+    this.updateMarkersDisplay();
+
+    console.log(`📍 MapMarkerService initialized with ${this.markersSubject.value.length} markers`);
   }
 
   isActive(): boolean {
@@ -38,49 +92,153 @@ export class MapMarkerService {
   }
 
   handleClick(e: any): void {
-    const lat = e.latlng.lat;
-    const lng = e.latlng.lng;
-    
-    const customIcon = this.L.divIcon({
-      className: 'custom-click-marker',
-      html: `<div class="click-marker-icon">📍</div>`,
+    const marker = this.addMarker({ lat: e.latlng.lat, lng: e.latlng.lng });
+    this.markerLayers.get(marker.id)?.openPopup();
+  }
+
+  // ===================================
+  // ✅ MARKER CRUD
+  // ===================================
+
+  getMarkers(): UserMarker[] {
+    return this.markersSubject.value;
+  }
+
+  addMarker(data: UserMarkerChanges & { lat: number; lng: number }, createdAt = new Date()): UserMarker {
+    const marker = this.createMarker(data, this.markersSubject.value.length + 1, createdAt);
+    this.updateMarkers([...this.markersSubject.value, marker]);
+    this.drawMarker(marker);
+
+    console.log(`📍 Marker saved: ${marker.name}`);
+    return marker;
+  }
+
+  updateMarker(id: string, changes: UserMarkerChanges): void {
+    if (changes.color !== undefined) changes = { ...changes, color: this.sanitizeColor(changes.color) };
+    const markers = this.markersSubject.value.map(marker =>
+      marker.id === id ? { ...marker, ...changes, updatedAt: new Date() } : marker
+    );
+    this.updateMarkers(markers);
+
+    const updated = markers.find(marker => marker.id === id);
+    if (updated) {
+      this.removeMarkerLayer(id);
+      this.drawMarker(updated);
+    }
+  }
+
+  removeMarker(id: string): void {
+    this.updateMarkers(this.markersSubject.value.filter(marker => marker.id !== id));
+    this.removeMarkerLayer(id);
+    console.log(`🗑️ Marker ${id} removed`);
+  }
+
+  clearAllMarkers(): void {
+    this.markerLayer?.clearLayers();
+    this.markerLayers.clear();
+    this.updateMarkers([]);
+    console.log('🗑️ All markers cleared');
+  }
+
+  focusOnMarker(id: string): void {
+    const layer = this.markerLayers.get(id);
+    if (layer && this.map) {
+      this.map.setView(layer.getLatLng(), Math.max(this.map.getZoom(), 12));
+      layer.openPopup();
+    }
+  }
+
+  // ✅ Called from the popup's Edit button - the sidebar opens the marker's editor
+  editMarker(id: string): void {
+    this.map?.closePopup();
+    this.zone.run(() => this.editRequestsSubject.next(id));
+  }
+
+  copyMarkerPosition(id: string): void {
+    const marker = this.markersSubject.value.find(item => item.id === id);
+    if (!marker) return;
+    navigator.clipboard.writeText(this.coordinateService.formatPosition(marker.lat, marker.lng));
+  }
+
+  getMarkersCount(): number {
+    return this.markersSubject.value.length;
+  }
+
+  private createMarker(data: UserMarkerChanges & { lat: number; lng: number }, index: number, createdAt: Date): UserMarker {
+    return {
+      id: `mk-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name: data.name?.trim() || `Marker ${index}`,
+      icon: data.icon || USER_MARKER_ICONS[0].value,
+      color: this.sanitizeColor(data.color),
+      notes: data.notes ?? '',
+      lat: data.lat,
+      lng: data.lng,
+      createdAt,
+      updatedAt: createdAt
+    };
+  }
+
+  // ===================================
+  // ✅ RENDERING
+  // ===================================
+
+  private drawMarker(marker: UserMarker): void {
+    if (!this.markerLayer) return;
+
+    const icon = this.L.divIcon({
+      className: 'custom-click-marker user-marker',
+      html: `
+        <div class="user-marker-icon" style="border-color: ${marker.color}; background: ${marker.color}22;">${escapeHtml(marker.icon)}</div>
+        <div class="user-marker-name" style="color: ${marker.color};">${escapeHtml(marker.name)}</div>
+      `,
       iconSize: [30, 30],
-      iconAnchor: [15, 30],
+      iconAnchor: [15, 15],
+      popupAnchor: [0, -15]
     });
-    
-    const marker = this.L.marker([lat, lng], { icon: customIcon }).addTo(this.map);
-    const popupContent = this.createClickMarkerPopup(lat, lng, this.clickMarkers.length + 1);
-    marker.bindPopup(popupContent).openPopup();
-    
-    this.clickMarkers.push(marker);
-    this.updateMarkersDisplay();
+
+    const layer = this.L.marker([marker.lat, marker.lng], { icon, draggable: true })
+      .bindPopup(() => this.createMarkerPopup(this.markersSubject.value.find(item => item.id === marker.id) ?? marker))
+      .addTo(this.markerLayer);
+
+    layer.on('dragend', () => {
+      const { lat, lng } = layer.getLatLng();
+      this.zone.run(() => this.updateMarker(marker.id, { lat, lng }));
+    });
+
+    this.markerLayers.set(marker.id, layer);
   }
 
-  private createClickMarkerPopup(lat: number, lng: number, markerNumber: number): string {
-    const formattedLat = lat.toFixed(6);
-    const formattedLng = lng.toFixed(6);
-    const ddmsLat = this.convertToDDMS(lat, true);
-    const ddmsLng = this.convertToDDMS(lng, false);
-    
+  private createMarkerPopup(marker: UserMarker): string {
+    const formattedLat = marker.lat.toFixed(6);
+    const formattedLng = marker.lng.toFixed(6);
+    const format = this.coordinateService.getFormat();
+    const formatLabel = COORDINATE_FORMATS.find(option => option.value === format)?.label;
+
     return `
       <div class="custom-popup marker-popup">
-        <div class="popup-header">
-          <strong>📍 Marker #${markerNumber}</strong>
+        <div class="popup-header" style="border-left: 4px solid ${marker.color}; padding-left: 6px;">
+          <strong>${escapeHtml(marker.icon)} ${escapeHtml(marker.name)}</strong>
         </div>
         <div class="popup-content">
+          ${marker.notes ? `<p class="marker-notes">${escapeHtml(marker.notes)}</p>` : ''}
           <div class="coord-section">
             <h4>🌐 Koordinat Decimal:</h4>
             <p class="coord-decimal">${formattedLat}, ${formattedLng}</p>
-            <h4>📐 Koordinat DMS:</h4>
-            <p class="coord-dms">${ddmsLat}</p>
-            <p class="coord-dms">${ddmsLng}</p>
+            ${format !== 'dd' ? `
+            <h4>📐 Koordinat ${formatLabel}:</h4>
+            <p class="coord-dms">${this.coordinateService.formatPosition(marker.lat, marker.lng)}</p>
+            ` : ''}
           </div>
+          <p class="marker-updated">Updated ${marker.updatedAt.toLocaleString()}</p>
           <div class="marker-actions">
-            <button onclick="navigator.clipboard.writeText('${formattedLat}, ${formattedLng}'); alert('Koordinat disalin!')" class="copy-btn">
-              📋 Copy Koordinat
+            <button onclick="window.mapService?.copyMarkerPosition('${marker.id}'); alert('Koordinat disalin!')" class="copy-btn">
+              📋 Copy
             </button>
-            <button onclick="window.mapService?.removeMarker(${markerNumber - 1})" class="remove-btn">
-              🗑️ Hapus Marker
+            <button onclick="window.mapService?.editMarker('${marker.id}')" class="copy-btn">
+              ✏️ Edit
+            </button>
+            <button onclick="window.mapService?.removeMarker('${marker.id}')" class="remove-btn">
+              🗑️ Hapus
             </button>
           </div>
         </div>
@@ -88,51 +246,229 @@ export class MapMarkerService {
     `;
   }
 
-  private convertToDDMS(value: number, isLat: boolean): string {
-    const degrees = Math.floor(Math.abs(value));
-    const minutes = Math.floor((Math.abs(value) - degrees) * 60);
-    const seconds = (((Math.abs(value) - degrees) * 60) - minutes) * 60;
-    const direction = value >= 0 ? (isLat ? 'N' : 'E') : (isLat ? 'S' : 'W');
-    return `${degrees}° ${minutes}' ${seconds.toFixed(2)}" ${direction}`;
-  }
-
-  removeMarker(index: number): void {
-    if (this.clickMarkers[index]) {
-      this.map.removeLayer(this.clickMarkers[index]);
-      this.clickMarkers.splice(index, 1);
-      this.updateMarkersDisplay();
-      console.log(`🗑️ Marker ${index + 1} removed`);
+  private removeMarkerLayer(id: string): void {
+    const layer = this.markerLayers.get(id);
+    if (layer && this.markerLayer) {
+      this.markerLayer.removeLayer(layer);
     }
-  }
-
-  clearAllMarkers(): void {
-    this.clickMarkers.forEach(marker => {
-      this.map.removeLayer(marker);
-    });
-    this.clickMarkers = [];
-    this.updateMarkersDisplay();
-    console.log('🗑️ All markers cleared');
+    this.markerLayers.delete(id);
   }
 
   private updateMarkersDisplay(): void {
     const markersInfo = document.getElementById('markers-info');
     const markerCount = document.getElementById('marker-count');
-    
+    const count = this.markersSubject.value.length;
+
     if (markersInfo && markerCount) {
-      if (this.clickMarkers.length > 0) {
+      if (count > 0) {
         markersInfo.style.display = 'flex';
-        markerCount.textContent = `${this.clickMarkers.length} Marker${this.clickMarkers.length > 1 ? 's' : ''}`;
+        markerCount.textContent = `${count} Marker${count > 1 ? 's' : ''}`;
       } else {
         markersInfo.style.display = 'none';
       }
     }
   }
 
-  getMarkersCount(): number {
-    return this.clickMarkers.length;
+  // Colours end up in inline styles, so only plain hex values get through
+  private sanitizeColor(color: string | undefined): string {
+    return color && /^#[0-9a-f]{6}$/i.test(color.trim()) ? color.trim() : USER_MARKER_COLORS[0];
+  }
+
+  // ===================================
+  // ✅ IMPORT / EXPORT
+  // ===================================
+
+  // ✅ Appends the markers found in a CSV or GeoJSON file; returns how many were added
+  async importFile(file: File): Promise<number> {
+    const text = await file.text();
+    const isCsv = file.name.toLowerCase().endsWith('.csv');
+    const rows = isCsv ? this.parseCsv(text) : this.parseGeoJson(text);
+
+    if (rows.length === 0) {
+      throw new Error(`No markers found in ${file.name}`);
+    }
+
+    const offset = this.markersSubject.value.length;
+    const imported = rows.map((row, index) => this.createMarker(row, offset + index + 1, row.createdAt ?? new Date()));
+    this.updateMarkers([...this.markersSubject.value, ...imported]);
+    imported.forEach(marker => this.drawMarker(marker));
+
+    console.log(`📍 Imported ${imported.length} markers from ${file.name}`);
+    return imported.length;
+  }
+
+  exportCsv(): void {
+    const rows = this.markersSubject.value.map(marker => [
+      this.csvField(marker.name),
+      marker.lat.toFixed(6),
+      marker.lng.toFixed(6),
+      marker.icon,
+      marker.color,
+      this.csvField(marker.notes),
+      marker.createdAt.toISOString(),
+      marker.updatedAt.toISOString()
+    ].join(','));
+
+    downloadFile([CSV_HEADERS.join(','), ...rows].join('\n'), `user-markers-${Date.now()}.csv`, 'text/csv;charset=utf-8;');
+  }
+
+  exportGeoJson(): void {
+    const features = this.markersSubject.value.map(marker => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [marker.lng, marker.lat] },
+      properties: {
+        name: marker.name,
+        icon: marker.icon,
+        color: marker.color,
+        notes: marker.notes,
+        createdAt: marker.createdAt.toISOString(),
+        updatedAt: marker.updatedAt.toISOString()
+      }
+    }));
+
+    downloadFile(
+      JSON.stringify({ type: 'FeatureCollection', features }, null, 2),
+      `user-markers-${Date.now()}.geojson`,
+      'application/geo+json'
+    );
+  }
+
+  private parseCsv(text: string): (UserMarkerChanges & { lat: number; lng: number; createdAt?: Date })[] {
+    const records = this.splitCsv(text.replace(/^﻿/, ''));
+    if (records.length < 2) return [];
+
+    const headers = records[0].map(header => header.trim().toLowerCase());
+    const column = (...names: string[]) => headers.findIndex(header => names.includes(header));
+    const latIndex = column('lat', 'latitude');
+    const lngIndex = column('lng', 'lon', 'long', 'longitude');
+    if (latIndex < 0 || lngIndex < 0) {
+      throw new Error('CSV needs lat and lng (or latitude/longitude) columns');
+    }
+
+    const nameIndex = column('name', 'label', 'title');
+    const iconIndex = column('icon');
+    const colorIndex = column('color', 'colour');
+    const notesIndex = column('notes', 'note', 'description');
+    const createdIndex = column('createdat', 'created');
+
+    return records.slice(1)
+      .map(record => ({
+        name: record[nameIndex],
+        icon: record[iconIndex],
+        color: record[colorIndex],
+        notes: record[notesIndex],
+        lat: parseFloat(record[latIndex]),
+        lng: parseFloat(record[lngIndex]),
+        createdAt: this.parseDate(record[createdIndex])
+      }))
+      .filter(row => this.isValidPosition(row.lat, row.lng));
+  }
+
+  // RFC 4180: quoted fields may contain commas, doubled quotes and newlines
+  private splitCsv(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+        else if (char === '"') quoted = false;
+        else field += char;
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        record.push(field);
+        if (record.some(value => value.trim() !== '')) records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    record.push(field);
+    if (record.some(value => value.trim() !== '')) records.push(record);
+    return records;
+  }
+
+  private parseGeoJson(text: string): (UserMarkerChanges & { lat: number; lng: number; createdAt?: Date })[] {
+    const data = JSON.parse(text);
+    const features: any[] = data?.type === 'FeatureCollection' ? data.features ?? [] : data?.type === 'Feature' ? [data] : [];
+
+    return features
+      .filter(feature => feature?.geometry?.type === 'Point')
+      .map(feature => {
+        const properties = feature.properties ?? {};
+        const [lng, lat] = feature.geometry.coordinates ?? [];
+        return {
+          // Also accept simplestyle-spec properties from other tools
+          name: properties.name ?? properties.title,
+          icon: properties.icon,
+          color: properties.color ?? properties['marker-color'],
+          notes: properties.notes ?? properties.description,
+          lat: Number(lat),
+          lng: Number(lng),
+          createdAt: this.parseDate(properties.createdAt)
+        };
+      })
+      .filter(row => this.isValidPosition(row.lat, row.lng));
+  }
+
+  private parseDate(value: string | undefined): Date | undefined {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : undefined;
+  }
+
+  private isValidPosition(lat: number, lng: number): boolean {
+    return isFinite(lat) && isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+  }
+
+  private csvField(value: string): string {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+
+  // ===================================
+  // ✅ PERSISTENCE
+  // ===================================
+
+  private updateMarkers(markers: UserMarker[]): void {
+    this.markersSubject.next(markers);
+    this.updateMarkersDisplay();
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(markers));
+    } catch (error) {
+      console.error('❌ Failed to save user markers:', error);
+    }
+  }
+
+  private loadMarkers(): UserMarker[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return [];
+      return (JSON.parse(stored) as UserMarker[]).map(marker => ({
+        ...marker,
+        createdAt: new Date(marker.createdAt),
+        updatedAt: new Date(marker.updatedAt)
+      }));
+    } catch (error) {
+      console.error('❌ Failed to load user markers:', error);
+      return [];
+    }
   }
 
   cleanup(): void {
-    this.clearAllMarkers();
+    // Markers stay in storage; only the map layers go
+    if (this.map && this.markerLayer) {
+      this.map.removeLayer(this.markerLayer);
+    }
+    this.markerLayer = null;
+    this.markerLayers.clear();
   }
 }
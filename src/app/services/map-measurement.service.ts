@@ -1,4 +1,32 @@
-import { Injectable } from '@angular/core';
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { auditTime } from 'rxjs/operators';
+import { VesselWebSocketService } from './vessel-websocket.service';
+
+export type MeasurementMode = 'distance' | 'rangeBearing';
+
+export type RangeAnchor =
+  | { type: 'point'; lat: number; lng: number }
+  | { type: 'vessel'; mmsi: number; name?: string };
+
+// Radar-style Electronic Bearing Line / Variable Range Marker pair sharing one anchor
+export interface EblVrm {
+  id: string;
+  label: string;
+  anchor: RangeAnchor;
+  position: [number, number] | null;
+  bearingDeg: number | null; // true bearing, null hides the EBL
+  rangeNm: number | null; // null hides the VRM
+  color: string;
+}
+
+export interface RangeBearing {
+  rangeNm: number;
+  bearingDeg: number;
+  reciprocalDeg: number;
+}
+
+const EBL_VRM_COLORS = ['#F97316', '#22D3EE', '#A3E635', '#E879F9'];
 
 @Injectable({
   providedIn: 'root'
@@ -14,29 +42,67 @@ export class MapMeasurementService {
   private temporaryLine: any;
   private temporaryPopup: any;
   private isMouseTracking: boolean = false;
+  private mode: MeasurementMode = 'distance';
+
+  // ✅ Range & bearing state
+  private rangeOrigin: any = null;
+  private rangeOriginMarker: any = null;
+  private rangeLabel: any = null;
+  private rangeLayers: any[] = [];
 
-  constructor() {}
+  // ✅ EBL / VRM state
+  private eblVrmLayer: any;
+  private eblVrmLayers: Map<string, any> = new Map();
+  private isPickingAnchor = false;
+  private updatesSubscription?: Subscription;
+
+  private readonly NM_IN_METERS = 1852;
+  private readonly MAX_EBL_VRM = 4;
+  private readonly MAX_EBL_LENGTH_NM = 500;
+  private readonly ANCHOR_UPDATE_INTERVAL = 1000;
+
+  private eblVrmSubject = new BehaviorSubject<EblVrm[]>([]);
+  private pickingAnchorSubject = new BehaviorSubject<boolean>(false);
+
+  public eblVrm$ = this.eblVrmSubject.asObservable();
+  public pickingAnchor$ = this.pickingAnchorSubject.asObservable();
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private zone: NgZone
+  ) {}
 
   initialize(map: any, L: any): void {
     this.map = map;
     this.L = L;
     this.drawLayer = L.layerGroup().addTo(map);
+    this.eblVrmLayer = L.layerGroup().addTo(map);
     (window as any).mapService = this;
+
+    // EBLs run to the edge of the view, so they are re-cut whenever the view changes
+    map.on('moveend', this.redrawEblVrm, this);
+    map.on('popupopen', this.onPopupOpen);
+
+    this.updatesSubscription = this.webSocketService.vesselUpdates$
+      .pipe(auditTime(this.ANCHOR_UPDATE_INTERVAL))
+      .subscribe(() => this.updateVesselAnchors());
   }
 
   isActive(): boolean {
-    return this.isRulerActive;
+    return this.isRulerActive || this.isPickingAnchor;
   }
 
-  toggle(enabled: boolean): void {
+  toggle(enabled: boolean, mode: MeasurementMode = 'distance'): void {
     this.isRulerActive = enabled;
+    this.mode = mode;
+    const label = mode === 'rangeBearing' ? 'Range & bearing' : 'Ruler';
     if (enabled) {
       this.map.getContainer().style.cursor = 'crosshair';
-      console.log('📏 Ruler mode enabled');
+      console.log(`📏 ${label} mode enabled`);
     } else {
       this.map.getContainer().style.cursor = '';
       this.clearMeasurement();
-      console.log('📏 Ruler mode disabled');
+      console.log(`📏 ${label} mode disabled`);
     }
   }
 
@@ -44,9 +110,20 @@ export class MapMeasurementService {
     this.isRulerActive = false;
     this.stopRealTimeTracking();
     this.clearMeasurement();
+    this.cancelAnchorPick();
   }
 
   handleClick(e: any): void {
+    if (this.isPickingAnchor) {
+      this.cancelAnchorPick();
+      this.zone.run(() => this.addEblVrm({ type: 'point', lat: e.latlng.lat, lng: e.latlng.lng }));
+      return;
+    }
+    if (this.mode === 'rangeBearing') {
+      this.handleRangeBearingClick(e.latlng);
+      return;
+    }
+
     const lat = e.latlng.lat;
     const lng = e.latlng.lng;
     
@@ -253,7 +330,337 @@ export class MapMeasurementService {
     return R * c;
   }
 
+  // ✅ Initial great-circle bearing, degrees true
+  calculateBearing(from: { lat: number; lng: number }, to: { lat: number; lng: number }): number {
+    const φ1 = from.lat * Math.PI / 180;
+    const φ2 = to.lat * Math.PI / 180;
+    const Δλ = (to.lng - from.lng) * Math.PI / 180;
+
+    const y = Math.sin(Δλ) * Math.cos(φ2);
+    const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+    return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+  }
+
+  getRangeBearing(from: { lat: number; lng: number }, to: { lat: number; lng: number }): RangeBearing {
+    const bearingDeg = this.calculateBearing(from, to);
+    return {
+      rangeNm: this.calculateDistance(from, to) / this.NM_IN_METERS,
+      bearingDeg,
+      reciprocalDeg: (bearingDeg + 180) % 360
+    };
+  }
+
+  // Point reached travelling distanceNm along a great circle from origin
+  private destinationPoint(origin: [number, number], bearingDeg: number, distanceNm: number): [number, number] {
+    const δ = (distanceNm * this.NM_IN_METERS) / 6371000;
+    const θ = bearingDeg * Math.PI / 180;
+    const φ1 = origin[0] * Math.PI / 180;
+    const λ1 = origin[1] * Math.PI / 180;
+
+    const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+    const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+    return [φ2 * 180 / Math.PI, ((λ2 * 180 / Math.PI + 540) % 360) - 180];
+  }
+
+  private formatBearing(degrees: number): string {
+    return `${degrees.toFixed(1).padStart(5, '0')}°T`;
+  }
+
+  // ===================================
+  // ✅ RANGE & BEARING MODE
+  // ===================================
+
+  // First click sets the origin, second fixes the line; the next click starts a new pair
+  private handleRangeBearingClick(latlng: any): void {
+    if (!this.rangeOrigin) {
+      this.rangeOrigin = latlng;
+      this.rangeOriginMarker = this.L.marker(latlng, {
+        icon: this.L.divIcon({
+          className: 'measurement-point',
+          html: '<div class="measure-point">A</div>',
+          iconSize: [24, 24],
+          iconAnchor: [12, 12]
+        })
+      }).addTo(this.drawLayer);
+      this.map.on('mousemove', this.onMouseMoveForRangeBearing, this);
+      return;
+    }
+
+    this.map.off('mousemove', this.onMouseMoveForRangeBearing, this);
+    this.removeRangeLive();
+
+    const result = this.getRangeBearing(this.rangeOrigin, latlng);
+    const line = this.L.polyline([this.rangeOrigin, latlng], {
+      color: '#E91E63',
+      weight: 3,
+      opacity: 0.9
+    }).bindTooltip(this.formatRangeBearing(result), {
+      permanent: true,
+      direction: 'center',
+      className: 'range-bearing-label'
+    }).addTo(this.drawLayer);
+    const end = this.L.circleMarker(latlng, { radius: 4, color: '#E91E63', fillOpacity: 1 }).addTo(this.drawLayer);
+
+    this.rangeLayers.push(this.rangeOriginMarker, line, end);
+    this.rangeOrigin = null;
+    this.rangeOriginMarker = null;
+    console.log(`📐 Range ${result.rangeNm.toFixed(2)} nm, bearing ${this.formatBearing(result.bearingDeg)}`);
+  }
+
+  private onMouseMoveForRangeBearing = (e: any) => {
+    if (!this.rangeOrigin) return;
+
+    this.drawTemporaryLineFrom(this.rangeOrigin, e.latlng);
+    const content = this.formatRangeBearing(this.getRangeBearing(this.rangeOrigin, e.latlng));
+    if (!this.rangeLabel) {
+      this.rangeLabel = this.L.tooltip({ permanent: true, direction: 'right', offset: [12, 0], className: 'range-bearing-label' })
+        .setLatLng(e.latlng)
+        .setContent(content)
+        .addTo(this.drawLayer);
+    } else {
+      this.rangeLabel.setLatLng(e.latlng).setContent(content);
+    }
+  }
+
+  private drawTemporaryLineFrom(origin: any, currentMousePos: any): void {
+    if (this.temporaryLine) {
+      this.drawLayer.removeLayer(this.temporaryLine);
+    }
+    this.temporaryLine = this.L.polyline([origin, currentMousePos], {
+      color: '#FF6B35',
+      weight: 2,
+      opacity: 0.7,
+      dashArray: '8, 4'
+    }).addTo(this.drawLayer);
+  }
+
+  private formatRangeBearing(result: RangeBearing): string {
+    return `
+      <div class="range-bearing">
+        <strong>${this.formatBearing(result.bearingDeg)}</strong> · ${result.rangeNm.toFixed(2)} nm
+        <span class="reciprocal">recip ${this.formatBearing(result.reciprocalDeg)}</span>
+      </div>
+    `;
+  }
+
+  private removeRangeLive(): void {
+    if (this.temporaryLine) {
+      this.drawLayer.removeLayer(this.temporaryLine);
+      this.temporaryLine = null;
+    }
+    if (this.rangeLabel) {
+      this.drawLayer.removeLayer(this.rangeLabel);
+      this.rangeLabel = null;
+    }
+  }
+
+  private clearRangeBearing(): void {
+    this.map?.off('mousemove', this.onMouseMoveForRangeBearing, this);
+    this.removeRangeLive();
+    [...this.rangeLayers, this.rangeOriginMarker].forEach(layer => {
+      if (layer) this.drawLayer.removeLayer(layer);
+    });
+    this.rangeLayers = [];
+    this.rangeOrigin = null;
+    this.rangeOriginMarker = null;
+  }
+
+  // ===================================
+  // ✅ EBL / VRM
+  // ===================================
+
+  startAnchorPick(): void {
+    if (!this.map) return;
+    this.isPickingAnchor = true;
+    this.pickingAnchorSubject.next(true);
+    this.map.getContainer().style.cursor = 'crosshair';
+  }
+
+  cancelAnchorPick(): void {
+    if (!this.isPickingAnchor) return;
+    this.isPickingAnchor = false;
+    this.pickingAnchorSubject.next(false);
+    if (!this.isRulerActive && this.map) {
+      this.map.getContainer().style.cursor = '';
+    }
+  }
+
+  addEblVrm(anchor: RangeAnchor): EblVrm | null {
+    const existing = this.eblVrmSubject.value;
+    if (existing.length >= this.MAX_EBL_VRM) return null;
+
+    const usedLabels = new Set(existing.map(item => item.label));
+    const index = [1, 2, 3, 4].find(n => !usedLabels.has(String(n)))!;
+    const item: EblVrm = {
+      id: `ebl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      label: String(index),
+      anchor,
+      position: this.resolveAnchor(anchor),
+      bearingDeg: 0,
+      rangeNm: 1,
+      color: EBL_VRM_COLORS[(index - 1) % EBL_VRM_COLORS.length]
+    };
+    if (!item.position) return null;
+
+    this.eblVrmSubject.next([...existing, item]);
+    this.drawEblVrm(item);
+    console.log(`📡 EBL/VRM ${item.label} anchored to ${anchor.type === 'vessel' ? `vessel ${anchor.mmsi}` : 'fixed point'}`);
+    return item;
+  }
+
+  anchorToVessel(mmsi: number): EblVrm | null {
+    const vessel = this.webSocketService.getCachedVessel(mmsi);
+    if (!vessel) return null;
+    return this.addEblVrm({ type: 'vessel', mmsi, name: vessel.name });
+  }
+
+  updateEblVrm(id: string, changes: Partial<Pick<EblVrm, 'bearingDeg' | 'rangeNm'>>): void {
+    const normalised = { ...changes };
+    if (normalised.bearingDeg !== undefined && normalised.bearingDeg !== null) {
+      normalised.bearingDeg = ((normalised.bearingDeg % 360) + 360) % 360;
+    }
+    if (normalised.rangeNm !== undefined && normalised.rangeNm !== null && !(normalised.rangeNm > 0)) return;
+
+    this.eblVrmSubject.next(
+      this.eblVrmSubject.value.map(item => item.id === id ? { ...item, ...normalised } : item)
+    );
+    const updated = this.eblVrmSubject.value.find(item => item.id === id);
+    if (updated) this.drawEblVrm(updated);
+  }
+
+  removeEblVrm(id: string): void {
+    const layer = this.eblVrmLayers.get(id);
+    if (layer) this.eblVrmLayer.removeLayer(layer);
+    this.eblVrmLayers.delete(id);
+    this.eblVrmSubject.next(this.eblVrmSubject.value.filter(item => item.id !== id));
+  }
+
+  clearEblVrm(): void {
+    this.eblVrmLayer?.clearLayers();
+    this.eblVrmLayers.clear();
+    this.eblVrmSubject.next([]);
+  }
+
+  private resolveAnchor(anchor: RangeAnchor): [number, number] | null {
+    if (anchor.type === 'point') return [anchor.lat, anchor.lng];
+    const vessel = this.webSocketService.getCachedVessel(anchor.mmsi);
+    return vessel ? [vessel.latitude, vessel.longitude] : null;
+  }
+
+  // Vessel-anchored markers follow the latest reported position
+  private updateVesselAnchors(): void {
+    const items = this.eblVrmSubject.value;
+    if (!items.some(item => item.anchor.type === 'vessel')) return;
+
+    let changed = false;
+    const updated = items.map(item => {
+      if (item.anchor.type !== 'vessel') return item;
+      const position = this.resolveAnchor(item.anchor);
+      if (!position || (item.position && position[0] === item.position[0] && position[1] === item.position[1])) return item;
+      changed = true;
+      return { ...item, position };
+    });
+
+    if (!changed) return;
+    this.zone.run(() => this.eblVrmSubject.next(updated));
+    this.redrawEblVrm();
+  }
+
+  private redrawEblVrm(): void {
+    this.eblVrmSubject.value.forEach(item => this.drawEblVrm(item));
+  }
+
+  private drawEblVrm(item: EblVrm): void {
+    if (!this.map || !this.eblVrmLayer) return;
+
+    const previous = this.eblVrmLayers.get(item.id);
+    if (previous) this.eblVrmLayer.removeLayer(previous);
+    this.eblVrmLayers.delete(item.id);
+    if (!item.position) return;
+
+    const group = this.L.layerGroup();
+    const anchorName = item.anchor.type === 'vessel' ? (item.anchor.name || `MMSI ${item.anchor.mmsi}`) : 'Fixed point';
+
+    this.L.circleMarker(item.position, {
+      radius: 5,
+      color: item.color,
+      weight: 2,
+      fillColor: '#ffffff',
+      fillOpacity: 1
+    }).bindTooltip(`EBL/VRM ${item.label} · ${anchorName}`).addTo(group);
+
+    if (item.bearingDeg !== null) {
+      const end = this.destinationPoint(item.position, item.bearingDeg, this.getEblLengthNm(item));
+      this.L.polyline([item.position, end], {
+        color: item.color,
+        weight: 2,
+        dashArray: '10, 6',
+        interactive: false
+      }).addTo(group);
+
+      // Label a short way out so it stays on screen next to the anchor
+      const labelAt = this.destinationPoint(item.position, item.bearingDeg, this.getLabelOffsetNm());
+      this.L.tooltip({ permanent: true, direction: 'right', className: 'ebl-vrm-label' })
+        .setLatLng(labelAt)
+        .setContent(`<span style="color:${item.color}">EBL${item.label}</span> ${this.formatBearing(item.bearingDeg)}`)
+        .addTo(group);
+    }
+
+    if (item.rangeNm !== null) {
+      this.L.circle(item.position, {
+        radius: item.rangeNm * this.NM_IN_METERS,
+        color: item.color,
+        weight: 2,
+        fill: false,
+        dashArray: '4, 6',
+        interactive: false
+      }).addTo(group);
+
+      this.L.tooltip({ permanent: true, direction: 'top', className: 'ebl-vrm-label' })
+        .setLatLng(this.destinationPoint(item.position, 0, item.rangeNm))
+        .setContent(`<span style="color:${item.color}">VRM${item.label}</span> ${item.rangeNm.toFixed(2)} nm`)
+        .addTo(group);
+    }
+
+    group.addTo(this.eblVrmLayer);
+    this.eblVrmLayers.set(item.id, group);
+  }
+
+  // Long enough to reach the far corner of the current view
+  private getEblLengthNm(item: EblVrm): number {
+    const bounds = this.map.getBounds();
+    const anchor = { lat: item.position![0], lng: item.position![1] };
+    const farthest = [bounds.getNorthWest(), bounds.getNorthEast(), bounds.getSouthWest(), bounds.getSouthEast()]
+      .reduce((max, corner) => Math.max(max, this.calculateDistance(anchor, corner)), 0) / this.NM_IN_METERS;
+    return Math.min(Math.max(farthest, item.rangeNm ?? 0), this.MAX_EBL_LENGTH_NM);
+  }
+
+  private getLabelOffsetNm(): number {
+    const size = this.map.getSize();
+    const bounds = this.map.getBounds();
+    const viewWidthNm = this.calculateDistance(bounds.getNorthWest(), bounds.getNorthEast()) / this.NM_IN_METERS;
+    return (viewWidthNm / Math.max(size.x, 1)) * 120; // ~120 px from the anchor
+  }
+
+  // ===================================
+  // ✅ POPUP ACTION
+  // ===================================
+
+  private onPopupOpen = (e: any) => {
+    const container: HTMLElement | undefined = e.popup.getElement();
+    const button = container?.querySelector<HTMLButtonElement>('[data-action="ebl-vrm"]');
+    if (!button || button.dataset['bound']) return;
+
+    button.dataset['bound'] = 'true';
+    button.addEventListener('click', () => {
+      const mmsi = Number(button.dataset['mmsi']);
+      this.map.closePopup(e.popup);
+      this.zone.run(() => this.anchorToVessel(mmsi));
+    });
+  };
+
   clearMeasurement(): void {
+    this.clearRangeBearing();
     this.stopRealTimeTracking();
     this.measurementPoints.forEach(point => {
       this.drawLayer.removeLayer(point.marker);
@@ -278,6 +685,10 @@ export class MapMeasurementService {
 
   cleanup(): void {
     this.disable();
+    this.updatesSubscription?.unsubscribe();
+    this.map?.off('moveend', this.redrawEblVrm, this);
+    this.map?.off('popupopen', this.onPopupOpen);
+    this.clearEblVrm();
     if (this.drawLayer) {
       this.drawLayer.clearLayers();
     }
@@ -1,19 +1,33 @@
 // map.service.ts - SIMPLE ZOOM CONTROL DENGAN DISTANCE VIEW
 import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
 import { isPlatformBrowser } from '@angular/common';
-import { BehaviorSubject } from 'rxjs';
+import { BehaviorSubject, Subscription } from 'rxjs';
 
 // Impor semua layanan yang dibutuhkan
 import { MapLayerService, MapLayer } from './map-layer.service';
 import { MapControlsService } from './map-control.service';
 import { MapMeasurementService } from './map-measurement.service';
 import { MapDrawingService } from './map-drawing.service';
+import { PoiAreaSelectionService } from './poi-area-selection.service';
 import { MapMarkerService } from './map-marker.service';
 import { MapCoordinateService } from './map-coordinate.service';
 import { VesselService } from './vessel-service'; // Pastikan path ini benar
 import { VtsService } from './vts.service';
 import { AtonService } from './aton.service';
 import { MapLegendService } from './map-legend.service';
+import { PlaybackService } from './playback.service';
+import { DeadReckoningService } from './dead-reckoning.service';
+import { CollisionRiskService } from './collision-risk.service';
+import { GeofenceService } from './geofence.service';
+import { AlertEngineService } from './alert-engine.service';
+import { DarkPeriodService } from './dark-period.service';
+import { RendezvousService } from './rendezvous.service';
+import { VesselFollowService } from './vessel-follow.service';
+import { VesselDetailService } from './vessel-detail.service';
+import { TrackViewerService } from './track-viewer.service';
+import { OverlayService } from './overlay.service';
+import { TileCacheService } from './tile-cache.service';
+import { HeatmapService } from './heatmap.service';
 
 @Injectable({
   providedIn: 'root'
@@ -21,6 +35,7 @@ import { MapLegendService } from './map-legend.service';
 export class MapService {
   private map: any;
   private currentLayer: any;
+  private tileOverlayLayers: Map<string, any> = new Map();
   private L: any;
   
   // ✅ Simple zoom level control properties
@@ -30,11 +45,15 @@ export class MapService {
   
   // Properti publik untuk state peta
   public layers: MapLayer[] = [];
+  public tileOverlays: MapLayer[] = [];
+  public activeTileOverlays: Set<string> = new Set();
   public controls: any[] = [];
   public activeLayer: string = '';
   public coords: string = '-6.2088, 106.8456';
   public zoomLevel: number = 6;
   public cursorCoords: string = '-6.2088, 106.8456';
+  private lastCursorLatLng: { lat: number; lng: number } = { lat: -6.2088, lng: 106.8456 };
+  private coordinateFormatSub?: Subscription;
   leaflet: any;
 
   constructor(
@@ -44,14 +63,29 @@ export class MapService {
     private mapControlsService: MapControlsService,
     private measurementService: MapMeasurementService,
     private drawingService: MapDrawingService,
+    private poiSelectionService: PoiAreaSelectionService,
     private markerService: MapMarkerService,
     private coordinateService: MapCoordinateService,
     private vesselService: VesselService,
     private vtsService: VtsService,
     private atonService: AtonService,
-    private mapLegendService: MapLegendService
+    private mapLegendService: MapLegendService,
+    private playbackService: PlaybackService,
+    private deadReckoningService: DeadReckoningService,
+    private collisionRiskService: CollisionRiskService,
+    private geofenceService: GeofenceService,
+    private alertEngineService: AlertEngineService,
+    private darkPeriodService: DarkPeriodService,
+    private rendezvousService: RendezvousService,
+    private vesselFollowService: VesselFollowService,
+    private vesselDetailService: VesselDetailService,
+    private trackViewerService: TrackViewerService,
+    private overlayService: OverlayService,
+    private tileCacheService: TileCacheService,
+    private heatmapService: HeatmapService
   ) {
     this.initializeData();
+    this.mapLayerService.customSources$.subscribe(() => this.refreshTileSources());
   }
 
   public getLeaflet(): any | undefined {
@@ -95,6 +129,7 @@ export class MapService {
         { id: 'fullscreen', name: 'Fullscreen', icon: 'fas fa-expand', enabled: false, description: 'Layar penuh' },
         { id: 'geolocation', name: 'Lokasi Saya', icon: 'fas fa-location-arrow', enabled: false, description: 'Temukan lokasi saya' },
         { id: 'draw', name: 'Gambar', icon: 'fas fa-pen', enabled: false, description: 'Gambar di peta' },
+        { id: 'poiselect', name: 'Pilih Area POI', icon: 'fas fa-vector-square', enabled: false, description: 'Pilih area untuk export POI' },
         { id: 'zoomlevel', name: 'Zoom Level', icon: 'zoom_in', enabled: false, description: 'Simple zoom control' },
         { id: 'vts', name: 'VTS', icon: 'cell_tower', enabled: false, description: 'Vessel Traffic Service' },
         { id: 'aton', name: 'AtoN', icon: 'navigation', enabled: false, description: 'Aid to Navigation' }
@@ -104,6 +139,11 @@ export class MapService {
   }
 
   public getLayerIcon(name: string): string {
+    const custom = this.layers.find(layer => layer.name === name && layer.custom);
+    if (custom) {
+      return custom.type === 'wms' ? 'public' : custom.type === 'wmts' ? 'grid_on' : 'dns';
+    }
+
     const icons: { [key: string]: string } = {
       'OpenStreetMap': 'map',
       'Satellite': 'satellite_alt',
@@ -116,13 +156,19 @@ export class MapService {
   public getControlIcon(id: string): string {
     const icons: { [key: string]: string } = {
       'ruler': 'straighten',
+      'rangebearing': 'explore',
       'marker': 'place',
       'fullscreen': 'fullscreen',
       'geolocation': 'my_location',
       'draw': 'edit',
+      'poiselect': 'highlight_alt',
       'zoomlevel': 'zoom_in',
       'vts': 'cell_tower',
-      'aton': 'navigation'
+      'aton': 'navigation',
+      'deadreckoning': 'update',
+      'collision': 'warning',
+      'darkperiods': 'visibility_off',
+      'rendezvous': 'handshake'
     };
     return icons[id] || 'settings';
   }
@@ -140,7 +186,7 @@ export class MapService {
       
       const defaultLayer = this.layers[0];
       this.activeLayer = defaultLayer.name;
-      this.currentLayer = this.mapLayerService.createLeafletLayer(defaultLayer, this.L);
+      this.currentLayer = this.tileCacheService.createLayer(defaultLayer, this.L);
 
       // 1. Buat objek peta dengan zoom control disabled
       this.map = this.L.map(containerId, {
@@ -262,13 +308,29 @@ export class MapService {
     if (!this.map) return;
 
     this.coordinateService.initialize(this.map, this.L);
+    this.coordinateFormatSub?.unsubscribe();
+    this.coordinateFormatSub = this.coordinateService.format$.subscribe(() => this.renderCursorCoords());
     this.measurementService.initialize(this.map, this.L);
     this.drawingService.initialize(this.map, this.L);
+    this.poiSelectionService.initialize(this.map, this.L);
     this.markerService.initialize(this.map, this.L);
     this.vesselService.initialize(this.map, this.L);
     this.vtsService.initialize(this.map, this.L);
     this.atonService.initialize(this.map, this.L);
     this.mapLegendService.initialize(this.map, this.L);
+    this.playbackService.initialize(this.map, this.L);
+    this.deadReckoningService.initialize(this.map, this.L);
+    this.collisionRiskService.initialize(this.map, this.L);
+    this.geofenceService.initialize(this.map, this.L);
+    this.alertEngineService.initialize(this.map, this.L);
+    this.darkPeriodService.initialize(this.map, this.L);
+    this.rendezvousService.initialize(this.map, this.L);
+    this.vesselFollowService.initialize(this.map, this.L);
+    this.vesselDetailService.initialize(this.map, this.L);
+    this.trackViewerService.initialize(this.map, this.L);
+    this.overlayService.initialize(this.map, this.L);
+    this.tileCacheService.initialize(this.map, this.L);
+    this.heatmapService.initialize(this.map, this.L);
     
     const legend = this.mapLegendService.createLegend();
     legend.addTo(this.map);
@@ -283,16 +345,23 @@ export class MapService {
     this.map.on('click', (e: any) => {
       if (this.measurementService.isActive()) return this.measurementService.handleClick(e);
       if (this.drawingService.isActive()) return this.drawingService.handleClick(e);
+      if (this.poiSelectionService.isActive()) return this.poiSelectionService.handleClick(e);
       if (this.markerService.isActive()) return this.markerService.handleClick(e);
     });
   }
 
+  // ✅ Cursor readout in the user's chosen coordinate format
+  private renderCursorCoords(): void {
+    const { lat, lng } = this.lastCursorLatLng;
+    this.cursorCoords = this.coordinateService.formatPosition(lat, lng);
+    this.coordinateService.updateCursorCoords(this.cursorCoords);
+  }
+
   // ✅ ENHANCED: Setup map events dengan zoom tracking
   private setupMapEvents(): void {
     this.map.on('mousemove', (e: any) => {
-      const { lat, lng } = e.latlng;
-      this.cursorCoords = `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
-      this.coordinateService.updateCursorCoords(this.cursorCoords);
+      this.lastCursorLatLng = e.latlng;
+      this.renderCursorCoords();
     });
 
     this.map.on('zoomend moveend', () => {
@@ -303,6 +372,7 @@ export class MapService {
 
     this.map.on('dblclick', (e: any) => {
       if (this.drawingService.isActive()) this.drawingService.handleDoubleClick(e);
+      if (this.poiSelectionService.isActive()) this.poiSelectionService.handleDoubleClick(e);
     });
   }
 
@@ -312,6 +382,12 @@ export class MapService {
     this.coords = `${center.lat.toFixed(4)}, ${center.lng.toFixed(4)}`;
   }
 
+  // ✅ Reflect a state change made outside the toggle UI (e.g. a restored view)
+  public setControlState(controlId: string, isEnabled: boolean): void {
+    const control = this.controls.find(c => c.id === controlId);
+    if (control) control.enabled = isEnabled;
+  }
+
   // Control toggle handler
   public handleControlToggle(controlId: string, isEnabled: boolean): void {
     const control = this.controls.find(c => c.id === controlId);
@@ -321,7 +397,9 @@ export class MapService {
     
     switch (controlId) {
       case 'ruler': this.measurementService.toggle(isEnabled); break;
+      case 'rangebearing': this.measurementService.toggle(isEnabled, 'rangeBearing'); break;
       case 'draw': this.drawingService.toggle(isEnabled); break;
+      case 'poiselect': this.poiSelectionService.toggle(isEnabled); break;
       case 'marker': this.markerService.toggle(isEnabled); break;
       case 'fullscreen': if (isEnabled) this.toggleFullscreen(); break;
       case 'geolocation': if (isEnabled) this.getCurrentLocation(); break;
@@ -331,12 +409,17 @@ export class MapService {
         break;
       case 'vts': this.vtsService.toggleVtsVisibility(isEnabled); break;
       case 'aton': this.atonService.toggleAtonVisibility(isEnabled); break;
+      case 'deadreckoning': this.deadReckoningService.toggle(isEnabled); break;
+      case 'collision': this.collisionRiskService.toggle(isEnabled); break;
+      case 'darkperiods': this.darkPeriodService.toggle(isEnabled); break;
+      case 'rendezvous': this.rendezvousService.toggle(isEnabled); break;
     }
   }
 
   private disableAllInteractiveServices(): void {
     this.measurementService.disable();
     this.drawingService.disable();
+    this.poiSelectionService.disable();
     this.markerService.disable();
   }
 
@@ -373,12 +456,47 @@ export class MapService {
     if (layerConfig && this.map) {
       if (this.currentLayer) this.map.removeLayer(this.currentLayer);
       
-      this.currentLayer = this.mapLayerService.createLeafletLayer(layerConfig, this.L);
+      this.currentLayer = this.tileCacheService.createLayer(layerConfig, this.L);
       this.map.addLayer(this.currentLayer);
       this.activeLayer = layerName;
     }
   }
 
+  // ✅ User tile sources - keep base list, active base and overlay layers in step with the manager
+  private refreshTileSources(): void {
+    this.layers = this.mapLayerService.getLayers();
+    this.tileOverlays = this.mapLayerService.getOverlaySources();
+
+    if (this.map && this.activeLayer && !this.layers.some(layer => layer.name === this.activeLayer)) {
+      this.switchLayer(this.layers[0].name);
+    }
+
+    // Re-create active overlays so edits take effect; drop removed ones
+    Array.from(this.activeTileOverlays).forEach(id => {
+      this.setTileOverlayVisible(id, false);
+      if (this.tileOverlays.some(source => source.id === id)) {
+        this.setTileOverlayVisible(id, true);
+      }
+    });
+  }
+
+  public setTileOverlayVisible(id: string, visible: boolean): void {
+    const existing = this.tileOverlayLayers.get(id);
+    if (existing && this.map) {
+      this.map.removeLayer(existing);
+    }
+    this.tileOverlayLayers.delete(id);
+    this.activeTileOverlays.delete(id);
+
+    const source = this.tileOverlays.find(overlay => overlay.id === id);
+    if (!visible || !source || !this.map) return;
+
+    const layer = this.tileCacheService.createLayer(source, this.L);
+    this.map.addLayer(layer);
+    this.tileOverlayLayers.set(id, layer);
+    this.activeTileOverlays.add(id);
+  }
+
   // Utility functions
   private setupLeafletIcons(): void {
     delete (this.L.Icon.Default.prototype as any)._getIconUrl;
@@ -444,12 +562,27 @@ export class MapService {
     if (this.map) {
       this.measurementService.cleanup();
       this.drawingService.cleanup();
+      this.poiSelectionService.cleanup();
       this.markerService.cleanup();
       this.coordinateService.cleanup();
+      this.coordinateFormatSub?.unsubscribe();
       this.vesselService.cleanup();
       this.vtsService.cleanup();
       this.atonService.cleanup();
       this.mapLegendService.cleanup();
+      this.playbackService.cleanup();
+      this.deadReckoningService.cleanup();
+      this.collisionRiskService.cleanup();
+      this.geofenceService.cleanup();
+      this.alertEngineService.cleanup();
+      this.darkPeriodService.cleanup();
+      this.rendezvousService.cleanup();
+      this.vesselFollowService.cleanup();
+      this.vesselDetailService.cleanup();
+      this.trackViewerService.cleanup();
+      this.overlayService.cleanup();
+      this.tileCacheService.cleanup();
+      this.heatmapService.cleanup();
       
       // ✅ Cleanup simple zoom control
       if (this.customZoomControl) {
@@ -461,6 +594,8 @@ export class MapService {
       this.map.remove();
       this.map = null;
       this.currentLayer = null;
+      this.tileOverlayLayers.clear();
+      this.activeTileOverlays.clear();
     }
   }
 }
@@ -0,0 +1,168 @@
+// map-view-state.service.ts - Saved map views and query-param encoding of the current view
+import { Injectable } from '@angular/core';
+import { Params } from '@angular/router';
+import { BehaviorSubject } from 'rxjs';
+import { VesselFilter, VesselCategory, DEFAULT_VESSEL_FILTER, VESSEL_CATEGORIES } from './vessel-filter.service';
+
+export interface MapViewState {
+  center: [number, number]; // [lat, lng]
+  zoom: number;
+  baseLayer: string;
+  vtsVisible: boolean;
+  atonVisible: boolean;
+  filter: VesselFilter;
+}
+
+export interface SavedMapView {
+  id: string;
+  name: string;
+  state: MapViewState;
+  createdAt: Date;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class MapViewStateService {
+  private readonly STORAGE_KEY = 'telkomsat-saved-views';
+  private readonly MAX_VIEWS = 50;
+
+  private viewsSubject = new BehaviorSubject<SavedMapView[]>([]);
+  public views$ = this.viewsSubject.asObservable();
+
+  constructor() {
+    this.viewsSubject.next(this.loadViews());
+  }
+
+  getViews(): SavedMapView[] {
+    return this.viewsSubject.value;
+  }
+
+  getView(id: string): SavedMapView | undefined {
+    return this.viewsSubject.value.find(view => view.id === id);
+  }
+
+  saveView(name: string, state: MapViewState): SavedMapView {
+    const trimmed = name.trim() || `View ${this.viewsSubject.value.length + 1}`;
+    // Saving under an existing name overwrites that view
+    const existing = this.viewsSubject.value.find(view => view.name.toLowerCase() === trimmed.toLowerCase());
+
+    const view: SavedMapView = {
+      id: existing?.id ?? `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name: trimmed,
+      state,
+      createdAt: new Date()
+    };
+
+    const others = this.viewsSubject.value.filter(v => v.id !== view.id);
+    this.updateViews([view, ...others].slice(0, this.MAX_VIEWS));
+    console.log(`💾 Saved map view: ${view.name}`);
+    return view;
+  }
+
+  removeView(id: string): void {
+    this.updateViews(this.viewsSubject.value.filter(view => view.id !== id));
+  }
+
+  // ===================================
+  // ✅ QUERY PARAMS
+  // ===================================
+
+  // Compact keys keep shared links short; only non-default filter fields are encoded
+  toQueryParams(state: MapViewState): Params {
+    const filterChanges = (Object.keys(state.filter) as (keyof VesselFilter)[])
+      .filter(key => JSON.stringify(state.filter[key]) !== JSON.stringify(DEFAULT_VESSEL_FILTER[key]))
+      .map(key => [key, state.filter[key]]);
+
+    return {
+      lat: state.center[0].toFixed(5),
+      lng: state.center[1].toFixed(5),
+      z: state.zoom,
+      layer: state.baseLayer,
+      vts: state.vtsVisible ? '1' : '0',
+      aton: state.atonVisible ? '1' : '0',
+      filter: filterChanges.length > 0 ? JSON.stringify(Object.fromEntries(filterChanges)) : null
+    };
+  }
+
+  fromQueryParams(params: Params): Partial<MapViewState> {
+    const state: Partial<MapViewState> = {};
+
+    const lat = parseFloat(params['lat']);
+    const lng = parseFloat(params['lng']);
+    if (!isNaN(lat) && !isNaN(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+      state.center = [lat, lng];
+    }
+
+    const zoom = parseInt(params['z'], 10);
+    if (!isNaN(zoom)) state.zoom = Math.min(Math.max(zoom, 1), 19);
+
+    if (params['layer']) state.baseLayer = String(params['layer']);
+    if (params['vts'] !== undefined) state.vtsVisible = params['vts'] !== '0';
+    if (params['aton'] !== undefined) state.atonVisible = params['aton'] !== '0';
+
+    if (params['filter']) {
+      try {
+        state.filter = this.sanitizeFilter(JSON.parse(params['filter']));
+      } catch (error) {
+        console.error('❌ Failed to parse filter from URL:', error);
+      }
+    }
+    return state;
+  }
+
+  // ✅ Shared links are untrusted - keep only known keys with the right types
+  private sanitizeFilter(raw: unknown): VesselFilter {
+    const source = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    const numbers = (value: unknown) =>
+      Array.isArray(value) ? value.filter((item): item is number => typeof item === 'number' && isFinite(item)) : [];
+    const strings = (value: unknown) =>
+      Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+    const bound = (value: unknown) => typeof value === 'number' && isFinite(value) ? value : null;
+    const categories = VESSEL_CATEGORIES.map(category => category.value);
+
+    return {
+      logic: source['logic'] === 'or' ? 'or' : DEFAULT_VESSEL_FILTER.logic,
+      categories: strings(source['categories']).filter((value): value is VesselCategory => categories.includes(value as VesselCategory)),
+      flags: strings(source['flags']),
+      navStatuses: numbers(source['navStatuses']),
+      sources: strings(source['sources']),
+      speedMin: bound(source['speedMin']),
+      speedMax: bound(source['speedMax']),
+      lengthMin: bound(source['lengthMin']),
+      lengthMax: bound(source['lengthMax']),
+      widthMin: bound(source['widthMin']),
+      widthMax: bound(source['widthMax']),
+      maxAgeMin: bound(source['maxAgeMin'])
+    };
+  }
+
+  // ===================================
+  // ✅ PERSISTENCE
+  // ===================================
+
+  private updateViews(views: SavedMapView[]): void {
+    this.viewsSubject.next(views);
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(views));
+    } catch (error) {
+      console.error('❌ Failed to save map views:', error);
+    }
+  }
+
+  private loadViews(): SavedMapView[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return [];
+      return (JSON.parse(stored) as SavedMapView[]).map(view => ({
+        ...view,
+        state: { ...view.state, filter: { ...DEFAULT_VESSEL_FILTER, ...view.state.filter } },
+        createdAt: new Date(view.createdAt)
+      }));
+    } catch (error) {
+      console.error('❌ Failed to load map views:', error);
+      return [];
+    }
+  }
+}
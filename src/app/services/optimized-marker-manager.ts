@@ -44,6 +44,11 @@ export class OptimizedMarkerManager {
   private geoJSONPoints: Array<PointFeature<Vessel>> = [];
   private popupService: VesselPopupService | null = null;
 
+  // ✅ Attribute filter applied before indexing
+  private sourceVessels: Vessel[] = [];
+  private vesselFilter: ((vessel: Vessel) => boolean) | null = null;
+  private filterListener: ((matching: number, total: number) => void) | null = null;
+
   // ✅ MEMORY MONITORING
   private memoryStats = {
     markersCreated: 0,
@@ -81,6 +86,19 @@ export class OptimizedMarkerManager {
     console.log('✅ Popup service connected to Memory-Optimized MarkerManager');
   }
 
+  // ✅ Rebuild the cluster index from the last input with the new predicate
+  public setVesselFilter(predicate: ((vessel: Vessel) => boolean) | null): void {
+    this.vesselFilter = predicate;
+    if (this.sourceVessels.length > 0) {
+      this.lastViewport = null; // same viewport, different data
+      this.updateVessels(this.sourceVessels);
+    }
+  }
+
+  public setFilterListener(listener: (matching: number, total: number) => void): void {
+    this.filterListener = listener;
+  }
+
   // ✅ MEMORY OPTIMIZED SETTINGS
   private settings: ViewportSettings = {
     updateThrottle: 200,              // ✅ SLOWER: Reduce update frequency
@@ -364,9 +382,12 @@ export class OptimizedMarkerManager {
   // ✅ MEMORY OPTIMIZED: Update vessels with strict limits
   public updateVessels(vessels: Vessel[]): void {
     if (!vessels || vessels.length === 0) {
+      this.sourceVessels = [];
+      this.filterListener?.(0, 0);
       this.clearAllDataSafely();
       return;
     }
+    this.sourceVessels = vessels;
 
     this.zone.runOutsideAngular(() => {
       // ✅ MEMORY CONTROL: Strict input limiting
@@ -380,6 +401,13 @@ export class OptimizedMarkerManager {
           .slice(0, this.MAX_CACHE_SIZE);
       }
 
+      // ✅ FILTER: Only matching vessels reach the index, so clusters and counts follow the filter
+      const totalBeforeFilter = processVessels.length;
+      if (this.vesselFilter) {
+        processVessels = processVessels.filter(this.vesselFilter);
+      }
+      this.filterListener?.(processVessels.length, totalBeforeFilter);
+
       const currentZoom = this.map.getZoom();
       this.isClusteringEnabled = currentZoom < this.settings.disableClusteringAtZoom;
       
@@ -479,7 +507,12 @@ export class OptimizedMarkerManager {
 
   // ✅ MEMORY OPTIMIZED: Viewport marker update with strict controls
   private updateViewportMarkers(): void {
-    if (this.geoJSONPoints.length === 0) return;
+    if (this.geoJSONPoints.length === 0) {
+      // Nothing matches (e.g. filter excludes everything) - drop what is rendered
+      this.clearClustersMemoryOptimized();
+      this.hideUnusedMarkersMemoryOptimized(new Set());
+      return;
+    }
 
     const currentBounds = this.map.getBounds();
     const currentZoom = this.map.getZoom();
@@ -939,6 +972,8 @@ export class OptimizedMarkerManager {
     this.clusterMarkers.clear();
     this.vesselsCache.length = 0;
     this.geoJSONPoints.length = 0;
+    this.sourceVessels = [];
+    this.filterListener = null;
 
     // ✅ Clear map layers
     this.vesselLayer.clearLayers();
@@ -1003,6 +1038,11 @@ export class OptimizedMarkerManager {
     return this.visibleMarkers.has(mmsi) || this.hiddenMarkers.has(mmsi);
   }
 
+  // ✅ NEW: Rendered marker for MMSI (undefined while clustered or off-screen)
+  public getVisibleMarker(mmsi: number): any {
+    return this.visibleMarkers.get(mmsi);
+  }
+
   // ✅ NEW: Get all marker MMSIs (for debugging)
   public getAllMarkerMMSIs(): number[] {
     const visibleMMSIs = Array.from(this.visibleMarkers.keys());
@@ -0,0 +1,335 @@
+// overlay.service.ts - User-imported vector overlays (GeoJSON, KML, zipped Shapefile)
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { escapeHtml } from '../utils/escape-html';
+
+export type OverlayFormat = 'geojson' | 'kml' | 'shapefile';
+
+export interface OverlayStyle {
+  color: string;
+  weight: number;
+  opacity: number;
+  fillOpacity: number;
+  dashed: boolean;
+}
+
+export interface VectorOverlay {
+  id: string;
+  name: string;
+  fileName: string;
+  format: OverlayFormat;
+  featureCount: number;
+  visible: boolean;
+  style: OverlayStyle;
+  createdAt: Date;
+}
+
+export interface OverlayImportResult {
+  fileName: string;
+  overlays: VectorOverlay[];
+  error?: string;
+}
+
+export const OVERLAY_FILE_ACCEPT = '.geojson,.json,.kml,.zip';
+
+const OVERLAY_COLORS = ['#E91E63', '#0EA5E9', '#F59E0B', '#10B981', '#8B5CF6', '#EF4444'];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class OverlayService {
+  private map: any;
+  private L: any;
+  private overlayLayers: Map<string, any> = new Map();
+  private dropTarget: HTMLElement | null = null;
+  private dragDepth = 0;
+
+  private readonly MAX_POPUP_PROPERTIES = 30;
+
+  private overlaysSubject = new BehaviorSubject<VectorOverlay[]>([]);
+  private importResultsSubject = new Subject<OverlayImportResult>();
+
+  public overlays$ = this.overlaysSubject.asObservable();
+  public importResults$ = this.importResultsSubject.asObservable();
+
+  constructor(private zone: NgZone) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.setupDropTarget(map.getContainer());
+    console.log('🗂️ OverlayService initialized');
+  }
+
+  // ✅ Parse a file into one overlay per feature collection (a zip may hold several shapefiles)
+  async importFile(file: File): Promise<VectorOverlay[]> {
+    const format = this.detectFormat(file.name);
+    if (!format) {
+      throw new Error(`Unsupported file type: ${file.name}`);
+    }
+
+    const collections = await this.parseFile(file, format);
+    const overlays = collections
+      .filter(collection => collection.features?.length > 0)
+      .map(collection => this.addOverlay(collection, file.name, format));
+
+    if (overlays.length === 0) {
+      throw new Error(`No features found in ${file.name}`);
+    }
+
+    console.log(`🗂️ Imported ${overlays.length} overlay(s) from ${file.name}`);
+    return overlays;
+  }
+
+  // ✅ Import several files, reporting each outcome on importResults$
+  async importFiles(files: File[]): Promise<void> {
+    for (const file of files) {
+      try {
+        const overlays = await this.importFile(file);
+        this.zone.run(() => this.importResultsSubject.next({ fileName: file.name, overlays }));
+      } catch (error: any) {
+        console.error(`❌ Failed to import overlay ${file.name}:`, error);
+        this.zone.run(() => this.importResultsSubject.next({
+          fileName: file.name,
+          overlays: [],
+          error: error?.message || 'Could not read file'
+        }));
+      }
+    }
+  }
+
+  setVisible(id: string, visible: boolean): void {
+    const layer = this.overlayLayers.get(id);
+    if (!layer || !this.map) return;
+
+    if (visible && !this.map.hasLayer(layer)) {
+      this.map.addLayer(layer);
+    } else if (!visible && this.map.hasLayer(layer)) {
+      this.map.removeLayer(layer);
+    }
+    this.updateOverlay(id, { visible });
+  }
+
+  updateStyle(id: string, style: Partial<OverlayStyle>): void {
+    const overlay = this.overlaysSubject.value.find(o => o.id === id);
+    if (!overlay) return;
+
+    const updated = { ...overlay.style, ...style };
+    this.overlayLayers.get(id)?.setStyle(this.toPathOptions(updated));
+    this.updateOverlay(id, { style: updated });
+  }
+
+  renameOverlay(id: string, name: string): void {
+    if (name.trim()) this.updateOverlay(id, { name: name.trim() });
+  }
+
+  zoomToOverlay(id: string): void {
+    const layer = this.overlayLayers.get(id);
+    if (!layer || !this.map) return;
+
+    const bounds = layer.getBounds();
+    if (bounds.isValid()) {
+      this.map.fitBounds(bounds, { padding: [30, 30] });
+    }
+  }
+
+  removeOverlay(id: string): void {
+    const layer = this.overlayLayers.get(id);
+    if (layer && this.map) {
+      this.map.removeLayer(layer);
+    }
+    this.overlayLayers.delete(id);
+    this.overlaysSubject.next(this.overlaysSubject.value.filter(o => o.id !== id));
+  }
+
+  // ===================================
+  // ✅ PARSING
+  // ===================================
+
+  private detectFormat(fileName: string): OverlayFormat | null {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    switch (extension) {
+      case 'geojson':
+      case 'json':
+        return 'geojson';
+      case 'kml':
+        return 'kml';
+      case 'zip':
+        return 'shapefile';
+      default:
+        return null;
+    }
+  }
+
+  // Parsers are loaded on demand so they stay out of the initial bundle
+  private async parseFile(file: File, format: OverlayFormat): Promise<GeoJSON.FeatureCollection[]> {
+    switch (format) {
+      case 'geojson': {
+        const data = JSON.parse(await file.text());
+        return [this.toFeatureCollection(data)];
+      }
+      case 'kml': {
+        const { kml } = await import('@tmcw/togeojson');
+        const document = new DOMParser().parseFromString(await file.text(), 'text/xml');
+        if (document.getElementsByTagName('parsererror').length > 0) {
+          throw new Error(`Invalid KML in ${file.name}`);
+        }
+        return [kml(document) as GeoJSON.FeatureCollection];
+      }
+      case 'shapefile': {
+        const shp = (await import('shpjs')).default;
+        const result = await shp(await file.arrayBuffer());
+        return Array.isArray(result) ? result : [result];
+      }
+    }
+  }
+
+  private toFeatureCollection(data: any): GeoJSON.FeatureCollection {
+    if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) {
+      return data;
+    }
+    if (data?.type === 'Feature') {
+      return { type: 'FeatureCollection', features: [data] };
+    }
+    if (data?.type && data?.coordinates) {
+      return { type: 'FeatureCollection', features: [{ type: 'Feature', geometry: data, properties: {} }] };
+    }
+    throw new Error('File is not valid GeoJSON');
+  }
+
+  // ===================================
+  // ✅ LAYERS
+  // ===================================
+
+  private addOverlay(collection: GeoJSON.FeatureCollection & { fileName?: string }, fileName: string, format: OverlayFormat): VectorOverlay {
+    const existing = this.overlaysSubject.value;
+    const overlay: VectorOverlay = {
+      id: `overlay-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name: collection.fileName || fileName.replace(/\.[^.]+$/, ''),
+      fileName,
+      format,
+      featureCount: collection.features.length,
+      visible: true,
+      style: {
+        color: OVERLAY_COLORS[existing.length % OVERLAY_COLORS.length],
+        weight: 2,
+        opacity: 0.9,
+        fillOpacity: 0.15,
+        dashed: false
+      },
+      createdAt: new Date()
+    };
+
+    const layer = this.L.geoJSON(collection, {
+      style: () => this.toPathOptions(overlay.style),
+      pointToLayer: (_feature: any, latlng: any) => this.L.circleMarker(latlng, {
+        ...this.toPathOptions(overlay.style),
+        radius: 6
+      }),
+      onEachFeature: (feature: any, featureLayer: any) => {
+        featureLayer.bindPopup(this.createFeaturePopup(overlay.name, feature), { maxWidth: 320 });
+      }
+    }).addTo(this.map);
+
+    this.overlayLayers.set(overlay.id, layer);
+    this.overlaysSubject.next([...existing, overlay]);
+    return overlay;
+  }
+
+  private toPathOptions(style: OverlayStyle): any {
+    return {
+      color: style.color,
+      fillColor: style.color,
+      weight: style.weight,
+      opacity: style.opacity,
+      fillOpacity: style.fillOpacity,
+      dashArray: style.dashed ? '8, 6' : null
+    };
+  }
+
+  private createFeaturePopup(overlayName: string, feature: GeoJSON.Feature): string {
+    const entries = Object.entries(feature.properties ?? {})
+      .filter(([, value]) => value !== null && value !== undefined && value !== '' && typeof value !== 'object');
+    const title = feature.properties?.['name'] ?? feature.properties?.['NAME'] ?? overlayName;
+
+    const rows = entries.slice(0, this.MAX_POPUP_PROPERTIES).map(([key, value]) => `
+      <div class="info-row">
+        <span class="label">${escapeHtml(key)}:</span>
+        <span class="value">${escapeHtml(String(value))}</span>
+      </div>`).join('');
+
+    return `
+      <div class="overlay-feature-popup">
+        <div class="popup-header">
+          <h4>🗂️ ${escapeHtml(String(title))}</h4>
+          <span class="overlay-name">${escapeHtml(overlayName)}</span>
+        </div>
+        <div class="popup-content">
+          ${rows || '<div class="info-row"><span class="value">No attributes</span></div>'}
+          ${entries.length > this.MAX_POPUP_PROPERTIES ? `<div class="info-row"><span class="label">+${entries.length - this.MAX_POPUP_PROPERTIES} more</span></div>` : ''}
+        </div>
+      </div>
+    `;
+  }
+
+  private updateOverlay(id: string, changes: Partial<VectorOverlay>): void {
+    this.overlaysSubject.next(
+      this.overlaysSubject.value.map(overlay => overlay.id === id ? { ...overlay, ...changes } : overlay)
+    );
+  }
+
+  // ===================================
+  // ✅ DRAG & DROP
+  // ===================================
+
+  private onDragEnter = (e: DragEvent) => {
+    if (!this.hasFiles(e)) return;
+    e.preventDefault();
+    this.dragDepth++;
+    this.dropTarget?.classList.add('overlay-drop-active');
+  };
+
+  private onDragOver = (e: DragEvent) => {
+    if (!this.hasFiles(e)) return;
+    e.preventDefault();
+    if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+  };
+
+  private onDragLeave = () => {
+    this.dragDepth = Math.max(0, this.dragDepth - 1);
+    if (this.dragDepth === 0) this.dropTarget?.classList.remove('overlay-drop-active');
+  };
+
+  private onDrop = (e: DragEvent) => {
+    if (!this.hasFiles(e)) return;
+    e.preventDefault();
+    this.dragDepth = 0;
+    this.dropTarget?.classList.remove('overlay-drop-active');
+    this.importFiles(Array.from(e.dataTransfer?.files ?? []));
+  };
+
+  private hasFiles(e: DragEvent): boolean {
+    return !!e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files');
+  }
+
+  private setupDropTarget(container: HTMLElement): void {
+    this.dropTarget = container;
+    container.addEventListener('dragenter', this.onDragEnter);
+    container.addEventListener('dragover', this.onDragOver);
+    container.addEventListener('dragleave', this.onDragLeave);
+    container.addEventListener('drop', this.onDrop);
+  }
+
+  cleanup(): void {
+    if (this.dropTarget) {
+      this.dropTarget.removeEventListener('dragenter', this.onDragEnter);
+      this.dropTarget.removeEventListener('dragover', this.onDragOver);
+      this.dropTarget.removeEventListener('dragleave', this.onDragLeave);
+      this.dropTarget.removeEventListener('drop', this.onDrop);
+      this.dropTarget = null;
+    }
+    this.overlayLayers.forEach(layer => this.map?.removeLayer(layer));
+    this.overlayLayers.clear();
+    this.overlaysSubject.next([]);
+  }
+}
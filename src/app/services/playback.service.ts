@@ -0,0 +1,587 @@
+// playback.service.ts - Historical replay engine with virtual clock
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, forkJoin, firstValueFrom } from 'rxjs';
+import { VesselWebSocketService, VesselTrackPoint } from './vessel-websocket.service';
+import { VesselService } from './vessel-service';
+import { normalizeDateRange } from '../utils/date-range';
+
+export interface PlayVessel {
+  mmsi: string;
+  name?: string;
+  type?: string;
+}
+
+export interface PlaybackState {
+  isActive: boolean;
+  isPaused: boolean;
+  progress: number;
+  currentTime: Date;
+  duration: number; // hours
+  speed: number;
+  rangeStart: Date | null;
+  rangeEnd: Date | null;
+  loopEnabled: boolean;
+  loopStart: Date | null;
+  loopEnd: Date | null;
+}
+
+export const PLAYBACK_SPEED_OPTIONS = [
+  { value: 0.5, label: '0.5x' },
+  { value: 1, label: '1x (Normal)' },
+  { value: 2, label: '2x' },
+  { value: 5, label: '5x' },
+  { value: 10, label: '10x' },
+  { value: 50, label: '50x' },
+  { value: 100, label: '100x' },
+  { value: 500, label: '500x' },
+  { value: 1000, label: '1000x' }
+];
+
+export interface PlaybackTrack {
+  mmsi: number;
+  name?: string;
+  color: string;
+  points: VesselTrackPoint[];
+}
+
+export interface PlaybackOptions {
+  showTracks: boolean;
+  showSpeed: boolean;
+  showEvents: boolean;
+}
+
+export interface InterpolatedPosition {
+  latitude: number;
+  longitude: number;
+  course: number;
+  speed: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PlaybackService {
+  private map: any;
+  private L: any;
+  private playbackLayer: any;
+  private trackLayer: any;
+  private eventLayer: any;
+
+  // ✅ Replay data
+  private tracks: Map<number, PlaybackTrack> = new Map();
+  private markers: Map<number, any> = new Map();
+
+  // ✅ Virtual clock
+  private startTime = 0;
+  private endTime = 0;
+  private virtualTime = 0;
+  private lastFrameTime = 0;
+  private frameId: number | null = null;
+  private lastStateEmit = 0;
+
+  // ✅ Loop sub-range (ms since epoch, null = whole range)
+  private loopStart: number | null = null;
+  private loopEnd: number | null = null;
+
+  private options: PlaybackOptions = {
+    showTracks: true,
+    showSpeed: false,
+    showEvents: false
+  };
+
+  private readonly STATE_EMIT_INTERVAL = 250; // ms between UI state updates
+  private readonly EVENT_GAP_MS = 30 * 60 * 1000; // 30 min without reports = gap event
+  private readonly MIN_LOOP_MS = 60 * 1000;
+  private readonly TRACK_COLORS = ['#E91E63', '#2196F3', '#FF9800', '#4CAF50', '#9C27B0', '#00BCD4', '#FF5722', '#795548'];
+
+  private stateSubject = new BehaviorSubject<PlaybackState>({
+    isActive: false,
+    isPaused: false,
+    progress: 0,
+    currentTime: new Date(),
+    duration: 0,
+    speed: 1,
+    rangeStart: null,
+    rangeEnd: null,
+    loopEnabled: false,
+    loopStart: null,
+    loopEnd: null
+  });
+  public state$ = this.stateSubject.asObservable();
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private vesselService: VesselService
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.playbackLayer = L.layerGroup().addTo(map);
+    this.trackLayer = L.layerGroup().addTo(map);
+    this.eventLayer = L.layerGroup();
+    console.log('⏯️ PlaybackService initialized');
+  }
+
+  // ✅ Load history for the selected vessels and start the virtual clock
+  async start(mmsiList: number[], startDate: Date, endDate: Date): Promise<number> {
+    if (!this.map || mmsiList.length === 0) return 0;
+
+    this.stop();
+
+    const { start, end } = normalizeDateRange(startDate, endDate);
+    console.log(`⏯️ Loading playback history for ${mmsiList.length} vessels`);
+
+    const results = await firstValueFrom(
+      forkJoin(mmsiList.map(mmsi => this.webSocketService.getVesselTrackByRange(mmsi, start, end)))
+    );
+
+    results.forEach((points, index) => {
+      if (points.length === 0) return;
+      const mmsi = mmsiList[index];
+      this.tracks.set(mmsi, {
+        mmsi,
+        name: this.webSocketService.getCachedVessel(mmsi)?.name,
+        color: this.TRACK_COLORS[this.tracks.size % this.TRACK_COLORS.length],
+        points
+      });
+    });
+
+    if (this.tracks.size === 0) {
+      console.warn('⚠️ No historical positions found for playback');
+      return 0;
+    }
+
+    this.startTime = start.getTime();
+    this.endTime = end.getTime();
+    this.virtualTime = this.startTime;
+    this.loopStart = null;
+    this.loopEnd = null;
+
+    this.drawTracks();
+    this.drawEvents();
+    this.fitToTracks();
+    this.renderFrame();
+
+    this.emitState({ isActive: true, isPaused: false, loopEnabled: false }, true);
+    this.startClock();
+
+    console.log(`▶️ Playback started for ${this.tracks.size} vessels`);
+    return this.tracks.size;
+  }
+
+  pause(): void {
+    if (!this.isActive()) return;
+    this.stopClock();
+    this.emitState({ isPaused: true }, true);
+  }
+
+  resume(): void {
+    if (!this.isActive()) return;
+    if (this.virtualTime >= this.getPlayEnd()) {
+      this.virtualTime = this.getPlayStart();
+    }
+    this.emitState({ isPaused: false }, true);
+    this.startClock();
+  }
+
+  togglePause(): void {
+    if (this.stateSubject.value.isPaused) {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+
+  stop(): void {
+    this.stopClock();
+    this.tracks.clear();
+    this.markers.clear();
+    this.playbackLayer?.clearLayers();
+    this.trackLayer?.clearLayers();
+    this.eventLayer?.clearLayers();
+
+    if (this.stateSubject.value.isActive) {
+      console.log('⏹️ Playback stopped');
+    }
+    this.loopStart = null;
+    this.loopEnd = null;
+    this.startTime = 0;
+    this.endTime = 0;
+    this.virtualTime = 0;
+    this.emitState({ isActive: false, isPaused: false, progress: 0, duration: 0, loopEnabled: false }, true);
+  }
+
+  // ✅ Jump to any instant of the replay window; markers move immediately
+  seek(time: Date | number): void {
+    if (!this.isActive()) return;
+    const target = typeof time === 'number' ? time : time.getTime();
+    this.virtualTime = Math.max(this.startTime, Math.min(target, this.endTime));
+    this.lastFrameTime = performance.now();
+    this.renderFrame();
+    this.emitState({}, true);
+  }
+
+  seekToProgress(percent: number): void {
+    this.seek(this.startTime + (this.endTime - this.startTime) * (percent / 100));
+  }
+
+  // ✅ Frame step: jump to the next/previous recorded AIS report of any replayed vessel
+  stepForward(): void {
+    if (!this.isActive()) return;
+    this.pause();
+    const next = this.findAdjacentReportTime(this.virtualTime, 1);
+    this.seek(next ?? this.endTime);
+  }
+
+  stepBackward(): void {
+    if (!this.isActive()) return;
+    this.pause();
+    const previous = this.findAdjacentReportTime(this.virtualTime, -1);
+    this.seek(previous ?? this.startTime);
+  }
+
+  // ✅ Returns false when the range is rejected (no playback, or shorter than MIN_LOOP_MS)
+  setLoop(start: Date | number, end: Date | number): boolean {
+    if (!this.isActive()) return false;
+    const loopStart = Math.max(this.startTime, typeof start === 'number' ? start : start.getTime());
+    const loopEnd = Math.min(this.endTime, typeof end === 'number' ? end : end.getTime());
+
+    if (loopEnd - loopStart < this.MIN_LOOP_MS) {
+      console.warn('⚠️ Loop range too short, ignored');
+      return false;
+    }
+
+    this.loopStart = loopStart;
+    this.loopEnd = loopEnd;
+    if (this.virtualTime < loopStart || this.virtualTime > loopEnd) {
+      this.virtualTime = loopStart;
+      this.renderFrame();
+    }
+    this.emitState({ loopEnabled: true }, true);
+    console.log(`🔁 Loop set ${new Date(loopStart).toISOString()} → ${new Date(loopEnd).toISOString()}`);
+    return true;
+  }
+
+  clearLoop(): void {
+    this.loopStart = null;
+    this.loopEnd = null;
+    this.emitState({ loopEnabled: false }, true);
+  }
+
+  setSpeed(speed: number): void {
+    this.emitState({ speed }, true);
+  }
+
+  setOption(option: string, enabled: boolean): void {
+    switch (option) {
+      case 'tracks':
+        this.options.showTracks = enabled;
+        this.toggleLayer(this.trackLayer, enabled);
+        break;
+      case 'speed':
+        this.options.showSpeed = enabled;
+        this.markers.forEach(marker => marker.unbindTooltip());
+        this.renderFrame();
+        break;
+      case 'events':
+        this.options.showEvents = enabled;
+        this.toggleLayer(this.eventLayer, enabled);
+        break;
+    }
+  }
+
+  isActive(): boolean {
+    return this.stateSubject.value.isActive;
+  }
+
+  getState(): PlaybackState {
+    return this.stateSubject.value;
+  }
+
+  getTracks(): PlaybackTrack[] {
+    return Array.from(this.tracks.values());
+  }
+
+  // ✅ Position of a track at a given instant (linear interpolation between reports)
+  interpolatePosition(points: VesselTrackPoint[], time: number): InterpolatedPosition | null {
+    if (points.length === 0 || time < points[0].timestamp.getTime()) return null;
+
+    const last = points[points.length - 1];
+    if (time >= last.timestamp.getTime()) {
+      return { latitude: last.latitude, longitude: last.longitude, course: last.heading ?? last.course, speed: last.speed };
+    }
+
+    // Binary search for the segment containing `time`
+    let low = 0;
+    let high = points.length - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (points[mid].timestamp.getTime() <= time) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    const from = points[low];
+    const to = points[high];
+    const span = to.timestamp.getTime() - from.timestamp.getTime();
+    const ratio = span > 0 ? (time - from.timestamp.getTime()) / span : 0;
+
+    return {
+      latitude: from.latitude + (to.latitude - from.latitude) * ratio,
+      longitude: from.longitude + (to.longitude - from.longitude) * ratio,
+      course: from.heading ?? from.course,
+      speed: from.speed + (to.speed - from.speed) * ratio
+    };
+  }
+
+  // ===================================
+  // ✅ VIRTUAL CLOCK
+  // ===================================
+
+  private startClock(): void {
+    this.stopClock();
+    this.lastFrameTime = performance.now();
+    this.frameId = requestAnimationFrame(this.tick);
+  }
+
+  private stopClock(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  private tick = (now: number): void => {
+    const elapsed = now - this.lastFrameTime;
+    this.lastFrameTime = now;
+
+    const playEnd = this.getPlayEnd();
+    this.virtualTime = Math.min(this.virtualTime + elapsed * this.stateSubject.value.speed, playEnd);
+
+    if (this.virtualTime >= playEnd && this.loopStart !== null) {
+      this.virtualTime = this.getPlayStart();
+    }
+    this.renderFrame();
+
+    if (this.virtualTime >= playEnd) {
+      this.frameId = null;
+      this.emitState({ isPaused: true }, true);
+      console.log('⏹️ Playback reached end of range');
+      return;
+    }
+
+    this.emitState({}, false);
+    this.frameId = requestAnimationFrame(this.tick);
+  };
+
+  private getPlayStart(): number {
+    return this.loopStart ?? this.startTime;
+  }
+
+  private getPlayEnd(): number {
+    return this.loopEnd ?? this.endTime;
+  }
+
+  private findAdjacentReportTime(time: number, direction: 1 | -1): number | null {
+    let best: number | null = null;
+    this.tracks.forEach(track => {
+      for (const point of track.points) {
+        const t = point.timestamp.getTime();
+        if (direction === 1 && t > time && (best === null || t < best)) {
+          best = t;
+          break; // points are sorted ascending
+        }
+        if (direction === -1 && t < time && (best === null || t > best)) {
+          best = t;
+        }
+      }
+    });
+    return best;
+  }
+
+  private renderFrame(): void {
+    this.tracks.forEach(track => {
+      const position = this.interpolatePosition(track.points, this.virtualTime);
+      let marker = this.markers.get(track.mmsi);
+
+      if (!position) {
+        if (marker) {
+          this.playbackLayer.removeLayer(marker);
+          this.markers.delete(track.mmsi);
+        }
+        return;
+      }
+
+      if (!marker) {
+        marker = this.createPlaybackMarker(track, position);
+        this.playbackLayer.addLayer(marker);
+        this.markers.set(track.mmsi, marker);
+      } else {
+        marker.setLatLng([position.latitude, position.longitude]);
+        this.updateMarkerRotation(marker, position.course);
+      }
+
+      if (this.options.showSpeed) {
+        const label = `${track.name || track.mmsi} • ${position.speed.toFixed(1)} kn`;
+        if (marker.getTooltip()) {
+          marker.setTooltipContent(label);
+        } else {
+          marker.bindTooltip(label, { permanent: true, direction: 'right', className: 'playback-speed-tooltip' });
+        }
+      }
+    });
+  }
+
+  private emitState(patch: Partial<PlaybackState>, force: boolean): void {
+    const now = Date.now();
+    if (!force && now - this.lastStateEmit < this.STATE_EMIT_INTERVAL) return;
+    this.lastStateEmit = now;
+
+    const range = this.endTime - this.startTime;
+    this.stateSubject.next({
+      ...this.stateSubject.value,
+      progress: range > 0 ? ((this.virtualTime - this.startTime) / range) * 100 : 0,
+      currentTime: new Date(this.virtualTime || Date.now()),
+      duration: Math.round((range / 3600000) * 10) / 10,
+      rangeStart: range > 0 ? new Date(this.startTime) : null,
+      rangeEnd: range > 0 ? new Date(this.endTime) : null,
+      loopStart: this.loopStart !== null ? new Date(this.loopStart) : null,
+      loopEnd: this.loopEnd !== null ? new Date(this.loopEnd) : null,
+      ...patch
+    });
+  }
+
+  // ===================================
+  // ✅ MAP RENDERING
+  // ===================================
+
+  private createPlaybackMarker(track: PlaybackTrack, position: InterpolatedPosition): any {
+    const cached = this.webSocketService.getCachedVessel(track.mmsi);
+    const iconColor = this.vesselService.getVesselIconColor({ vesselType: cached?.vesselType ?? 0 });
+
+    const icon = this.L.divIcon({
+      html: `
+        <div class="vessel-icon vessel-${iconColor} playback-vessel-icon"
+             style="transform: rotate(${position.course}deg); --playback-color: ${track.color};">
+          <div class="arrow-shape"></div>
+        </div>
+      `,
+      className: 'custom-vessel-marker playback-vessel-marker',
+      iconSize: [16, 16],
+      iconAnchor: [8, 8],
+      popupAnchor: [0, -8]
+    });
+
+    const marker = this.L.marker([position.latitude, position.longitude], {
+      icon,
+      title: `${track.name || 'Unknown'} (${track.mmsi}) - Playback`,
+      zIndexOffset: 1000
+    });
+
+    marker.bindPopup(() => this.createMarkerPopup(track), { className: 'playback-popup-container' });
+    return marker;
+  }
+
+  private createMarkerPopup(track: PlaybackTrack): string {
+    const position = this.interpolatePosition(track.points, this.virtualTime);
+    return `
+      <div class="custom-popup playback-popup">
+        <div class="popup-header">
+          <strong>⏯️ ${track.name || 'Unknown Vessel'}</strong>
+        </div>
+        <div class="popup-content">
+          <p><strong>MMSI:</strong> ${track.mmsi}</p>
+          <p><strong>Waktu:</strong> ${new Date(this.virtualTime).toLocaleString('id-ID')}</p>
+          ${position ? `
+          <p><strong>Posisi:</strong> ${position.latitude.toFixed(5)}°, ${position.longitude.toFixed(5)}°</p>
+          <p><strong>Speed:</strong> ${position.speed.toFixed(1)} kn • <strong>Course:</strong> ${position.course.toFixed(0)}°</p>
+          ` : ''}
+          <p><strong>Track points:</strong> ${track.points.length}</p>
+        </div>
+      </div>
+    `;
+  }
+
+  private updateMarkerRotation(marker: any, course: number): void {
+    const iconElement = marker.getElement()?.querySelector('.vessel-icon');
+    if (iconElement) {
+      iconElement.style.transform = `rotate(${course}deg)`;
+    }
+  }
+
+  private drawTracks(): void {
+    this.tracks.forEach(track => {
+      this.L.polyline(track.points.map(p => [p.latitude, p.longitude]), {
+        color: track.color,
+        weight: 2,
+        opacity: 0.6,
+        dashArray: '6, 6'
+      }).addTo(this.trackLayer);
+    });
+    this.toggleLayer(this.trackLayer, this.options.showTracks);
+  }
+
+  // ✅ Start/end of each track plus reporting gaps longer than EVENT_GAP_MS
+  private drawEvents(): void {
+    this.tracks.forEach(track => {
+      const first = track.points[0];
+      const last = track.points[track.points.length - 1];
+
+      this.addEventMarker(first, track.color, `▶️ Awal track ${track.name || track.mmsi}`);
+      this.addEventMarker(last, track.color, `⏹️ Akhir track ${track.name || track.mmsi}`);
+
+      for (let i = 1; i < track.points.length; i++) {
+        const gap = track.points[i].timestamp.getTime() - track.points[i - 1].timestamp.getTime();
+        if (gap > this.EVENT_GAP_MS) {
+          this.addEventMarker(
+            track.points[i - 1],
+            '#EF4444',
+            `⚠️ Gap ${Math.round(gap / 60000)} menit setelah laporan ini`
+          );
+        }
+      }
+    });
+    this.toggleLayer(this.eventLayer, this.options.showEvents);
+  }
+
+  private addEventMarker(point: VesselTrackPoint, color: string, label: string): void {
+    this.L.circleMarker([point.latitude, point.longitude], {
+      radius: 5,
+      color,
+      fillColor: color,
+      fillOpacity: 0.8,
+      weight: 2
+    })
+      .bindPopup(`<div class="custom-popup"><strong>${label}</strong><br>${point.timestamp.toLocaleString('id-ID')}</div>`)
+      .addTo(this.eventLayer);
+  }
+
+  private fitToTracks(): void {
+    const allPoints: [number, number][] = [];
+    this.tracks.forEach(track => track.points.forEach(p => allPoints.push([p.latitude, p.longitude])));
+    if (allPoints.length > 0) {
+      this.map.fitBounds(this.L.latLngBounds(allPoints), { padding: [40, 40], maxZoom: 13 });
+    }
+  }
+
+  private toggleLayer(layer: any, show: boolean): void {
+    if (!layer || !this.map) return;
+    if (show && !this.map.hasLayer(layer)) {
+      this.map.addLayer(layer);
+    } else if (!show && this.map.hasLayer(layer)) {
+      this.map.removeLayer(layer);
+    }
+  }
+
+  cleanup(): void {
+    this.stop();
+    if (this.map) {
+      [this.playbackLayer, this.trackLayer, this.eventLayer].forEach(layer => {
+        if (layer && this.map.hasLayer(layer)) this.map.removeLayer(layer);
+      });
+    }
+  }
+}
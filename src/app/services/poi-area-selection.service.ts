@@ -0,0 +1,440 @@
+// poi-area-selection.service.ts - Pick a POI export area on the live map (drag rectangle / click polygon)
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subject, Subscription } from 'rxjs';
+import { auditTime } from 'rxjs/operators';
+import { POIAreaService, POIAreaSelection, polygonBounds } from './poi-area.service';
+import { GeofenceService } from './geofence.service';
+import { VesselWebSocketService } from './vessel-websocket.service';
+
+export type POISelectionMode = 'rectangle' | 'polygon';
+export type POIExportFormat = 'csv' | 'pdf';
+
+export interface POIExportRequest {
+  selection: POIAreaSelection;
+  format: POIExportFormat;
+}
+
+interface QuickCountState {
+  loading: boolean;
+  count: number | null;
+  estimatedTime: string | null;
+  liveInside: number;
+  error: string | null;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PoiAreaSelectionService {
+  private map: any;
+  private L: any;
+  private selectionLayer: any;
+  private draftLayer: any;
+  private overlayControl: any;
+  private overlayContainer: HTMLElement | null = null;
+  private updatesSubscription: Subscription | null = null;
+
+  // ✅ In-progress selection
+  private lastMode: POISelectionMode = 'rectangle';
+  private draftPoints: [number, number][] = [];
+  private dragStart: [number, number] | null = null;
+
+  // ✅ Quick count of the current selection (stale responses are dropped by request id)
+  private quickCount: QuickCountState | null = null;
+  private countRequestId = 0;
+
+  private readonly EVALUATION_INTERVAL = 5000;
+
+  private modeSubject = new BehaviorSubject<POISelectionMode | null>(null);
+  private exportRequestsSubject = new Subject<POIExportRequest>();
+
+  public mode$ = this.modeSubject.asObservable();
+  public exportRequests$ = this.exportRequestsSubject.asObservable();
+
+  constructor(
+    private poiService: POIAreaService,
+    private geofenceService: GeofenceService,
+    private webSocketService: VesselWebSocketService,
+    private zone: NgZone
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.selectionLayer = L.layerGroup().addTo(map);
+    this.draftLayer = L.layerGroup().addTo(map);
+    this.addOverlayControl();
+
+    const selection = this.poiService.getSelection();
+    if (selection) {
+      this.drawSelection(selection);
+      this.refreshQuickCount(selection);
+    }
+
+    // Live vessels inside the area follow the websocket stream
+    this.updatesSubscription = this.webSocketService.vesselUpdates$
+      .pipe(auditTime(this.EVALUATION_INTERVAL))
+      .subscribe(() => {
+        const current = this.poiService.getSelection();
+        if (!current || !this.quickCount) return;
+        this.quickCount.liveInside = this.countLiveInside(current.polygon);
+        this.renderOverlay();
+      });
+
+    console.log('📦 PoiAreaSelectionService initialized');
+  }
+
+  isActive(): boolean {
+    return this.modeSubject.value !== null;
+  }
+
+  toggle(enabled: boolean): void {
+    if (enabled) {
+      this.startMode(this.lastMode);
+    } else {
+      this.cancelMode();
+    }
+  }
+
+  disable(): void {
+    this.cancelMode();
+  }
+
+  // ===================================
+  // ✅ SELECTING
+  // ===================================
+
+  startMode(mode: POISelectionMode): void {
+    if (!this.map) return;
+
+    this.cancelMode();
+    this.lastMode = mode;
+    this.modeSubject.next(mode);
+
+    this.map.getContainer().style.cursor = 'crosshair';
+    this.map.doubleClickZoom?.disable();
+    this.map.on('mousemove', this.onMouseMove);
+    if (mode === 'rectangle') {
+      // Dragging the map would swallow the rectangle drag
+      this.map.dragging?.disable();
+      this.map.on('mousedown', this.onMouseDown);
+      this.map.on('mouseup', this.onMouseUp);
+    }
+
+    this.renderOverlay();
+    console.log(`📦 POI area selection enabled (${mode})`);
+  }
+
+  cancelMode(): void {
+    if (!this.modeSubject.value) return;
+
+    this.clearDraft();
+    this.modeSubject.next(null);
+    if (this.map) {
+      this.map.getContainer().style.cursor = '';
+      this.map.doubleClickZoom?.enable();
+      this.map.dragging?.enable();
+      this.map.off('mousemove', this.onMouseMove);
+      this.map.off('mousedown', this.onMouseDown);
+      this.map.off('mouseup', this.onMouseUp);
+    }
+
+    this.renderOverlay();
+    console.log('📦 POI area selection disabled');
+  }
+
+  // Rectangles come from the drag handlers; clicks only add polygon vertices
+  handleClick(e: any): void {
+    if (this.modeSubject.value !== 'polygon') return;
+
+    this.draftPoints.push([e.latlng.lat, e.latlng.lng]);
+    this.renderDraft(null);
+  }
+
+  handleDoubleClick(e: any): void {
+    if (this.modeSubject.value !== 'polygon') return;
+
+    // The two clicks of a double-click land on the same spot
+    const points = this.draftPoints.filter((point, index) =>
+      index === 0 || !this.isSamePixel(point, this.draftPoints[index - 1])
+    );
+    if (points.length < 3) return;
+
+    this.completeSelection('polygon', points);
+  }
+
+  private onMouseDown = (e: any) => {
+    this.dragStart = [e.latlng.lat, e.latlng.lng];
+  };
+
+  private onMouseMove = (e: any) => {
+    const cursor: [number, number] = [e.latlng.lat, e.latlng.lng];
+    if (this.modeSubject.value === 'rectangle' && this.dragStart) {
+      this.renderDraft(cursor);
+    } else if (this.modeSubject.value === 'polygon' && this.draftPoints.length > 0) {
+      this.renderDraft(cursor);
+    }
+  };
+
+  private onMouseUp = (e: any) => {
+    if (!this.dragStart) return;
+
+    const start = this.dragStart;
+    const end: [number, number] = [e.latlng.lat, e.latlng.lng];
+    this.dragStart = null;
+
+    // A plain click is not a rectangle
+    if (this.isSamePixel(start, end)) {
+      this.clearDraft();
+      return;
+    }
+    this.completeSelection('rectangle', this.rectangleRing(start, end));
+  };
+
+  private completeSelection(shape: POISelectionMode, polygon: [number, number][]): void {
+    const selection: POIAreaSelection = { shape, polygon, createdAt: new Date() };
+
+    this.clearDraft();
+    this.poiService.setSelection(selection);
+    this.drawSelection(selection);
+    this.refreshQuickCount(selection);
+    console.log(`📦 POI area selected (${shape}, ${polygon.length} vertices)`);
+  }
+
+  clearSelection(): void {
+    this.countRequestId++;
+    this.quickCount = null;
+    this.poiService.setSelection(null);
+    this.selectionLayer?.clearLayers();
+    this.renderOverlay();
+  }
+
+  exportSelection(format: POIExportFormat): void {
+    const selection = this.poiService.getSelection();
+    if (!selection) return;
+
+    this.zone.run(() => this.exportRequestsSubject.next({ selection, format }));
+  }
+
+  // ===================================
+  // ✅ QUICK COUNT
+  // ===================================
+
+  private async refreshQuickCount(selection: POIAreaSelection): Promise<void> {
+    const requestId = ++this.countRequestId;
+    this.quickCount = {
+      loading: true,
+      count: null,
+      estimatedTime: null,
+      liveInside: this.countLiveInside(selection.polygon),
+      error: null
+    };
+    this.renderOverlay();
+
+    try {
+      const result = await this.poiService.getQuickCount({
+        ...polygonBounds(selection.polygon),
+        polygon: selection.polygon
+      });
+      if (requestId !== this.countRequestId || !this.quickCount) return;
+
+      this.quickCount = {
+        ...this.quickCount,
+        loading: false,
+        count: result?.count ?? 0,
+        estimatedTime: result?.estimates?.estimatedTime || result?.estimatedTime || null
+      };
+    } catch (error: any) {
+      if (requestId !== this.countRequestId || !this.quickCount) return;
+
+      console.error('❌ POI quick count failed:', error);
+      this.quickCount = {
+        ...this.quickCount,
+        loading: false,
+        error: error?.error?.message || error?.message || 'Unknown error'
+      };
+    }
+    this.renderOverlay();
+  }
+
+  private countLiveInside(polygon: [number, number][]): number {
+    return this.webSocketService.getAllCachedVessels()
+      .filter(vessel => this.geofenceService.isPointInPolygon(vessel.latitude, vessel.longitude, polygon))
+      .length;
+  }
+
+  // ===================================
+  // ✅ RENDERING
+  // ===================================
+
+  private renderDraft(cursor: [number, number] | null): void {
+    if (!this.draftLayer) return;
+    this.draftLayer.clearLayers();
+
+    const style = { color: '#e91e63', weight: 2, dashArray: '6, 6', fillOpacity: 0.08, interactive: false };
+
+    if (this.modeSubject.value === 'rectangle') {
+      if (this.dragStart && cursor) {
+        this.L.polygon(this.rectangleRing(this.dragStart, cursor), style).addTo(this.draftLayer);
+      }
+      return;
+    }
+
+    this.draftPoints.forEach(point => {
+      this.L.circleMarker(point, { radius: 4, color: '#e91e63', fillOpacity: 1, interactive: false }).addTo(this.draftLayer);
+    });
+
+    const points = cursor ? [...this.draftPoints, cursor] : this.draftPoints;
+    if (points.length >= 3) {
+      this.L.polygon(points, style).addTo(this.draftLayer);
+    } else if (points.length === 2) {
+      this.L.polyline(points, style).addTo(this.draftLayer);
+    }
+  }
+
+  private drawSelection(selection: POIAreaSelection): void {
+    if (!this.selectionLayer) return;
+    this.selectionLayer.clearLayers();
+
+    this.L.polygon(selection.polygon, {
+      color: '#e91e63',
+      weight: 2,
+      fillColor: '#e91e63',
+      fillOpacity: 0.12,
+      className: 'poi-selection-area',
+      interactive: false
+    }).addTo(this.selectionLayer);
+  }
+
+  private clearDraft(): void {
+    this.draftPoints = [];
+    this.dragStart = null;
+    this.draftLayer?.clearLayers();
+  }
+
+  private addOverlayControl(): void {
+    const SelectionControl = this.L.Control.extend({
+      onAdd: () => {
+        const div = this.L.DomUtil.create('div', 'poi-selection-control');
+        this.L.DomEvent.disableClickPropagation(div);
+        this.L.DomEvent.disableScrollPropagation(div);
+        this.L.DomEvent.on(div, 'click', (event: Event) => this.onOverlayClick(event));
+        this.overlayContainer = div;
+        return div;
+      }
+    });
+
+    this.overlayControl = new SelectionControl({ position: 'topright' });
+    this.overlayControl.addTo(this.map);
+    this.renderOverlay();
+  }
+
+  private onOverlayClick(event: Event): void {
+    const button = (event.target as HTMLElement).closest<HTMLElement>('[data-action]');
+    if (!button) return;
+
+    this.zone.run(() => {
+      switch (button.dataset['action']) {
+        case 'mode-rectangle': this.startMode('rectangle'); break;
+        case 'mode-polygon': this.startMode('polygon'); break;
+        case 'export-csv': this.exportSelection('csv'); break;
+        case 'export-pdf': this.exportSelection('pdf'); break;
+        case 'clear': this.clearSelection(); break;
+        case 'close': this.cancelMode(); break;
+      }
+    });
+  }
+
+  private renderOverlay(): void {
+    if (!this.overlayContainer) return;
+
+    const mode = this.modeSubject.value;
+    const selection = this.poiService.getSelection();
+    if (!mode && !selection) {
+      this.overlayContainer.style.display = 'none';
+      this.overlayContainer.innerHTML = '';
+      return;
+    }
+
+    const hint = mode === 'rectangle'
+      ? 'Tarik (drag) kotak di peta'
+      : mode === 'polygon'
+        ? 'Klik titik-titik, double-click untuk selesai'
+        : '';
+
+    this.overlayContainer.style.display = '';
+    this.overlayContainer.innerHTML = `
+      <div class="poi-selection-panel">
+        <div class="poi-selection-header">
+          <span>📦 Area Export POI</span>
+          ${mode ? '<button class="poi-selection-close" data-action="close" title="Selesai memilih">✕</button>' : ''}
+        </div>
+        <div class="poi-selection-modes">
+          <button data-action="mode-rectangle" class="${mode === 'rectangle' ? 'active' : ''}">▭ Rectangle</button>
+          <button data-action="mode-polygon" class="${mode === 'polygon' ? 'active' : ''}">⬠ Polygon</button>
+        </div>
+        ${hint ? `<div class="poi-selection-hint">${hint}</div>` : ''}
+        ${selection ? this.renderSelectionSummary(selection) : ''}
+      </div>
+    `;
+  }
+
+  private renderSelectionSummary(selection: POIAreaSelection): string {
+    const state = this.quickCount;
+    let countHtml = '';
+    if (state?.loading) {
+      countHtml = '<div class="poi-selection-count">⏳ Menghitung kapal...</div>';
+    } else if (state?.error) {
+      countHtml = `<div class="poi-selection-count error">❌ Quick count gagal</div>`;
+    } else if (state) {
+      countHtml = `
+        <div class="poi-selection-count">
+          <strong>${(state.count ?? 0).toLocaleString()}</strong> kapal (quick count)
+          ${state.estimatedTime ? `<span>≈ ${state.estimatedTime}</span>` : ''}
+        </div>
+      `;
+    }
+
+    return `
+      <div class="poi-selection-summary">
+        <div>${selection.shape === 'polygon' ? 'Polygon' : 'Rectangle'} · ${selection.polygon.length} titik</div>
+        ${countHtml}
+        ${state ? `<div class="poi-selection-live">🛰️ ${state.liveInside} kapal live di dalam area</div>` : ''}
+      </div>
+      <div class="poi-selection-actions">
+        <button data-action="export-csv" class="primary">⬇ CSV</button>
+        <button data-action="export-pdf" class="primary">⬇ PDF</button>
+        <button data-action="clear">Hapus</button>
+      </div>
+    `;
+  }
+
+  private isSamePixel(a: [number, number], b: [number, number]): boolean {
+    if (!this.map) return false;
+    return this.map.latLngToContainerPoint(a).distanceTo(this.map.latLngToContainerPoint(b)) < 4;
+  }
+
+  private rectangleRing(a: [number, number], b: [number, number]): [number, number][] {
+    const south = Math.min(a[0], b[0]);
+    const north = Math.max(a[0], b[0]);
+    const west = Math.min(a[1], b[1]);
+    const east = Math.max(a[1], b[1]);
+    return [[south, west], [north, west], [north, east], [south, east]];
+  }
+
+  cleanup(): void {
+    this.disable();
+    this.countRequestId++;
+    this.quickCount = null;
+    this.updatesSubscription?.unsubscribe();
+    this.updatesSubscription = null;
+    [this.selectionLayer, this.draftLayer].forEach(layer => {
+      if (this.map && layer) this.map.removeLayer(layer);
+    });
+    this.overlayControl?.remove();
+    this.selectionLayer = null;
+    this.draftLayer = null;
+    this.overlayControl = null;
+    this.overlayContainer = null;
+  }
+}
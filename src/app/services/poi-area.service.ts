@@ -1,9 +1,10 @@
 // src/app/services/poi-area.service.ts
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpParams, HttpEventType } from '@angular/common/http';
-import { BehaviorSubject, Observable, throwError } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import { BehaviorSubject, Observable, firstValueFrom, throwError } from 'rxjs';
+import { catchError, defaultIfEmpty, map, takeUntil } from 'rxjs/operators';
 import { environment } from '../../environments/environment';
+import { GeofenceService } from './geofence.service';
 
 export interface PaginationProgress {
   currentPage: number;
@@ -24,6 +25,13 @@ export interface POIAreaBounds {
   startDate: Date;
   endDate: Date;
   dataType: 'vessel' | 'ais' | 'track' | 'all';
+  polygon?: [number, number][]; // [lat, lng] ring - results are clipped to it, not just the box
+}
+
+export interface POIAreaSelection {
+  shape: 'rectangle' | 'polygon';
+  polygon: [number, number][]; // [lat, lng]
+  createdAt: Date;
 }
 
 export interface POIAreaCountResponse {
@@ -71,12 +79,26 @@ export interface POIAreaDataResponse {
   };
 }
 
+export function polygonBounds(polygon: [number, number][]): Pick<POIAreaBounds, 'minLongitude' | 'maxLongitude' | 'minLatitude' | 'maxLatitude'> {
+  const lats = polygon.map(point => point[0]);
+  const lngs = polygon.map(point => point[1]);
+  return {
+    minLongitude: Math.min(...lngs),
+    maxLongitude: Math.max(...lngs),
+    minLatitude: Math.min(...lats),
+    maxLatitude: Math.max(...lats)
+  };
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class POIAreaService {
   private readonly apiUrl = `${environment.apiUrl}/api/ais-data`;
-  
+  private readonly SELECTION_STORAGE_KEY = 'telkomsat-poi-area-selection';
+
+  private selectionSubject = new BehaviorSubject<POIAreaSelection | null>(null);
+  public selection$ = this.selectionSubject.asObservable();
   
   private progressSubject = new BehaviorSubject<PaginationProgress>({
     currentPage: 0,
@@ -89,7 +111,12 @@ export class POIAreaService {
     stage: 'counting'
   });
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private geofenceService: GeofenceService
+  ) {
+    this.selectionSubject.next(this.loadSelection());
+  }
 
   getPaginationProgress(): Observable<PaginationProgress> {
     return this.progressSubject.asObservable();
@@ -181,7 +208,10 @@ export class POIAreaService {
       });
 
       const params = this.buildHttpParams(bounds).set('autoFetch', 'true');
-      const response = await this.http.get<POIAreaDataResponse>(`${this.apiUrl}/poi-area/all`, { params }).toPromise();
+      const response = this.clipToPolygon(
+        (await this.http.get<POIAreaDataResponse>(`${this.apiUrl}/poi-area/all`, { params }).toPromise())!,
+        bounds
+      );
 
       this.updateProgress({
         currentPage: response?.totalFetched || 0,
@@ -202,6 +232,28 @@ export class POIAreaService {
     }
   }
 
+  /**
+   * 🔥 Overlay queries (heatmap) - single requests, cancellable, never touch the export progress.
+   * Both resolve to null when `cancel$` fires first.
+   */
+  async countAreaRecords(bounds: POIAreaBounds, cancel$: Observable<unknown>): Promise<number | null> {
+    const params = this.buildHttpParams(bounds);
+    const response = await firstValueFrom(
+      this.http.get<POIAreaCountResponse>(`${this.apiUrl}/poi-area/count`, { params })
+        .pipe(takeUntil(cancel$), defaultIfEmpty(null))
+    );
+    return response ? response.totalCount ?? 0 : null;
+  }
+
+  async fetchAreaRecords(bounds: POIAreaBounds, cancel$: Observable<unknown>): Promise<any[] | null> {
+    const params = this.buildHttpParams(bounds).set('autoFetch', 'true');
+    const response = await firstValueFrom(
+      this.http.get<POIAreaDataResponse>(`${this.apiUrl}/poi-area/all`, { params })
+        .pipe(takeUntil(cancel$), defaultIfEmpty(null))
+    );
+    return response ? this.filterByPolygon(response.vessels ?? [], bounds) : null;
+  }
+
   /**
    * 🔄 Download Large Dataset with Manual Pagination
    */
@@ -231,7 +283,7 @@ export class POIAreaService {
         const pageResponse = await this.http.get<POIAreaDataResponse>(`${this.apiUrl}/poi-area`, { params: pageParams }).toPromise();
 
         if (pageResponse?.vessels) {
-          allVessels.push(...pageResponse.vessels);
+          allVessels.push(...this.filterByPolygon(pageResponse.vessels, bounds));
         }
 
         // Update progress
@@ -294,12 +346,15 @@ export class POIAreaService {
   /**
    * ⚡ Quick Count for Area Preview
    */
-  async getQuickCount(bounds: POIAreaBounds): Promise<any> {
-    const params = new HttpParams()
+  async getQuickCount(bounds: Pick<POIAreaBounds, 'minLongitude' | 'maxLongitude' | 'minLatitude' | 'maxLatitude' | 'polygon'>): Promise<any> {
+    let params = new HttpParams()
       .set('minLongitude', bounds.minLongitude.toString())
       .set('maxLongitude', bounds.maxLongitude.toString())
       .set('minLatitude', bounds.minLatitude.toString())
       .set('maxLatitude', bounds.maxLatitude.toString());
+    if (bounds.polygon) {
+      params = params.set('polygon', this.encodePolygon(bounds.polygon));
+    }
 
     return this.http.get<any>(`${this.apiUrl}/poi-area/quick-count`, { params })
       .pipe(
@@ -314,7 +369,7 @@ export class POIAreaService {
    * 🔧 Helper Methods
    */
   private buildHttpParams(bounds: POIAreaBounds): HttpParams {
-    return new HttpParams()
+    const params = new HttpParams()
       .set('minLongitude', bounds.minLongitude.toString())
       .set('maxLongitude', bounds.maxLongitude.toString())
       .set('minLatitude', bounds.minLatitude.toString())
@@ -322,6 +377,64 @@ export class POIAreaService {
       .set('startDate', bounds.startDate.toISOString())
       .set('endDate', bounds.endDate.toISOString())
       .set('dataType', bounds.dataType);
+    return bounds.polygon ? params.set('polygon', this.encodePolygon(bounds.polygon)) : params;
+  }
+
+  // GeoJSON ring order: [lng, lat], closed
+  private encodePolygon(polygon: [number, number][]): string {
+    const ring = polygon.map(([lat, lng]) => [lng, lat]);
+    return JSON.stringify([...ring, ring[0]]);
+  }
+
+  /**
+   * 🔷 Polygon filter - the bounding box goes to the API, the polygon is enforced here too
+   */
+  private filterByPolygon(vessels: any[], bounds: POIAreaBounds): any[] {
+    if (!bounds.polygon) return vessels;
+    return vessels.filter(vessel =>
+      typeof vessel.latitude === 'number' &&
+      typeof vessel.longitude === 'number' &&
+      this.geofenceService.isPointInPolygon(vessel.latitude, vessel.longitude, bounds.polygon!)
+    );
+  }
+
+  private clipToPolygon(response: POIAreaDataResponse, bounds: POIAreaBounds): POIAreaDataResponse {
+    if (!bounds.polygon || !response?.vessels) return response;
+    const vessels = this.filterByPolygon(response.vessels, bounds);
+    return { ...response, vessels, totalFetched: vessels.length };
+  }
+
+  /**
+   * 🗺️ Area picked on the live map, handed over to the POI export page
+   */
+  getSelection(): POIAreaSelection | null {
+    return this.selectionSubject.value;
+  }
+
+  setSelection(selection: POIAreaSelection | null): void {
+    this.selectionSubject.next(selection);
+    try {
+      if (selection) {
+        sessionStorage.setItem(this.SELECTION_STORAGE_KEY, JSON.stringify(selection));
+      } else {
+        sessionStorage.removeItem(this.SELECTION_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('❌ Failed to save POI area selection:', error);
+    }
+  }
+
+  private loadSelection(): POIAreaSelection | null {
+    if (typeof sessionStorage === 'undefined') return null;
+    try {
+      const stored = sessionStorage.getItem(this.SELECTION_STORAGE_KEY);
+      if (!stored) return null;
+      const selection = JSON.parse(stored) as POIAreaSelection;
+      return { ...selection, createdAt: new Date(selection.createdAt) };
+    } catch (error) {
+      console.error('❌ Failed to load POI area selection:', error);
+      return null;
+    }
   }
 
   private updateProgress(progress: PaginationProgress): void {
@@ -0,0 +1,408 @@
+// rendezvous.service.ts - Vessel-to-vessel encounters (possible transshipment) outside port areas
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subject, Subscription } from 'rxjs';
+import { auditTime } from 'rxjs/operators';
+import { VesselWebSocketService, Vessel } from './vessel-websocket.service';
+import { VesselTrackingService } from './vessel-tracking.service';
+import { GeofenceService } from './geofence.service';
+
+export interface RendezvousSettings {
+  maxDistanceMeters: number;
+  maxSpeedKnots: number;
+  minDurationMin: number;
+  excludePortAreas: boolean;
+}
+
+export interface PortArea {
+  name: string;
+  lat: number;
+  lng: number;
+  radiusNm: number;
+}
+
+export type RendezvousStatus = 'active' | 'ended';
+
+export interface RendezvousVessel {
+  mmsi: number;
+  name?: string;
+  callSign?: string;
+  imo?: string;
+  flag?: string;
+  vesselType: number;
+}
+
+export interface Rendezvous {
+  id: string;
+  vesselA: RendezvousVessel;
+  vesselB: RendezvousVessel;
+  status: RendezvousStatus;
+  start: Date;
+  lastSeen: Date;
+  durationMin: number;
+  location: [number, number]; // midpoint between the two vessels
+  minDistanceMeters: number;
+}
+
+interface CandidatePair {
+  startedAt: number;
+  lastSeenAt: number;
+  minDistanceMeters: number;
+  location: [number, number];
+  vesselA: RendezvousVessel;
+  vesselB: RendezvousVessel;
+}
+
+export const DEFAULT_RENDEZVOUS_SETTINGS: RendezvousSettings = {
+  maxDistanceMeters: 500,
+  maxSpeedKnots: 1,
+  minDurationMin: 30,
+  excludePortAreas: true
+};
+
+// ✅ Built-in port / anchorage areas - ships alongside each other here are routine, not transshipment
+export const DEFAULT_PORT_AREAS: PortArea[] = [
+  { name: 'Tanjung Priok', lat: -6.104, lng: 106.882, radiusNm: 6 },
+  { name: 'Tanjung Perak', lat: -7.198, lng: 112.733, radiusNm: 5 },
+  { name: 'Gresik', lat: -7.155, lng: 112.660, radiusNm: 3 },
+  { name: 'Tanjung Emas', lat: -6.946, lng: 110.425, radiusNm: 4 },
+  { name: 'Cirebon', lat: -6.715, lng: 108.570, radiusNm: 3 },
+  { name: 'Merak', lat: -5.930, lng: 106.005, radiusNm: 3 },
+  { name: 'Bakauheni', lat: -5.870, lng: 105.750, radiusNm: 3 },
+  { name: 'Panjang', lat: -5.469, lng: 105.318, radiusNm: 4 },
+  { name: 'Tanjung Intan', lat: -7.741, lng: 109.005, radiusNm: 4 },
+  { name: 'Benoa', lat: -8.745, lng: 115.210, radiusNm: 3 },
+  { name: 'Gilimanuk / Ketapang', lat: -8.150, lng: 114.415, radiusNm: 3 },
+  { name: 'Lembar', lat: -8.730, lng: 116.070, radiusNm: 3 },
+  { name: 'Tenau', lat: -10.200, lng: 123.530, radiusNm: 3 },
+  { name: 'Belawan', lat: 3.787, lng: 98.690, radiusNm: 5 },
+  { name: 'Dumai', lat: 1.683, lng: 101.450, radiusNm: 5 },
+  { name: 'Teluk Bayur', lat: -1.000, lng: 100.370, radiusNm: 3 },
+  { name: 'Batu Ampar', lat: 1.170, lng: 104.000, radiusNm: 4 },
+  { name: 'Tanjung Pinang', lat: 0.925, lng: 104.440, radiusNm: 3 },
+  { name: 'Boom Baru', lat: -2.977, lng: 104.775, radiusNm: 3 },
+  { name: 'Pontianak', lat: -0.027, lng: 109.333, radiusNm: 3 },
+  { name: 'Trisakti', lat: -3.330, lng: 114.570, radiusNm: 4 },
+  { name: 'Balikpapan', lat: -1.270, lng: 116.805, radiusNm: 5 },
+  { name: 'Samarinda', lat: -0.505, lng: 117.150, radiusNm: 4 },
+  { name: 'Makassar', lat: -5.118, lng: 119.407, radiusNm: 4 },
+  { name: 'Bitung', lat: 1.442, lng: 125.190, radiusNm: 4 },
+  { name: 'Ambon', lat: -3.695, lng: 128.180, radiusNm: 3 },
+  { name: 'Sorong', lat: -0.878, lng: 131.250, radiusNm: 3 },
+  { name: 'Jayapura', lat: -2.535, lng: 140.715, radiusNm: 3 },
+  { name: 'Singapore', lat: 1.240, lng: 103.850, radiusNm: 12 }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RendezvousService {
+  private map: any;
+  private L: any;
+  private encounterLayer: any;
+  private encounterLayers: Map<string, any> = new Map();
+  private updatesSubscription: Subscription | null = null;
+
+  // ✅ Pairs currently close and slow, keyed `${lowMmsi}-${highMmsi}`
+  private candidates: Map<string, CandidatePair> = new Map();
+
+  private readonly STORAGE_KEY = 'telkomsat-rendezvous-settings';
+  private readonly MAX_ENCOUNTERS = 200;
+  private readonly ANALYSIS_INTERVAL = 10000;
+  private readonly MAX_REPORT_AGE_MS = 30 * 60 * 1000; // stationary vessels report every few minutes
+
+  private settingsSubject = new BehaviorSubject<RendezvousSettings>(DEFAULT_RENDEZVOUS_SETTINGS);
+  private encountersSubject = new BehaviorSubject<Rendezvous[]>([]);
+  private newEncountersSubject = new Subject<Rendezvous[]>();
+
+  public settings$ = this.settingsSubject.asObservable();
+  public encounters$ = this.encountersSubject.asObservable();
+  public newEncounters$ = this.newEncountersSubject.asObservable();
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private trackingService: VesselTrackingService,
+    private geofenceService: GeofenceService,
+    private zone: NgZone
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.encounterLayer = L.layerGroup().addTo(map);
+    this.settingsSubject.next(this.loadSettings());
+
+    this.updatesSubscription = this.webSocketService.vesselUpdates$
+      .pipe(auditTime(this.ANALYSIS_INTERVAL))
+      .subscribe(() => this.analyze());
+
+    console.log('🤝 RendezvousService initialized');
+  }
+
+  toggle(visible: boolean): void {
+    if (!this.map || !this.encounterLayer) return;
+    if (visible && !this.map.hasLayer(this.encounterLayer)) {
+      this.map.addLayer(this.encounterLayer);
+    } else if (!visible && this.map.hasLayer(this.encounterLayer)) {
+      this.map.removeLayer(this.encounterLayer);
+    }
+  }
+
+  getSettings(): RendezvousSettings {
+    return this.settingsSubject.value;
+  }
+
+  updateSettings(settings: Partial<RendezvousSettings>): void {
+    const updated = { ...this.settingsSubject.value, ...settings };
+    this.settingsSubject.next(updated);
+    this.saveSettings(updated);
+    this.analyze();
+  }
+
+  focusOnEncounter(id: string): void {
+    const encounter = this.encountersSubject.value.find(e => e.id === id);
+    if (!encounter || !this.map) return;
+
+    this.map.flyTo(encounter.location, Math.max(this.map.getZoom(), 14), { duration: 1 });
+    this.encounterLayers.get(id)?.openPopup();
+  }
+
+  clearEncounters(): void {
+    // Active encounters stay - they are still happening
+    const active = this.encountersSubject.value.filter(e => e.status === 'active');
+    this.encountersSubject.value
+      .filter(e => e.status === 'ended')
+      .forEach(e => this.removeEncounterLayer(e.id));
+    this.encountersSubject.next(active);
+  }
+
+  // ✅ Find close, slow pairs outside port areas and age them into encounters
+  analyze(): void {
+    const settings = this.settingsSubject.value;
+    const now = Date.now();
+    const anchorages = this.geofenceService.getGeofences().filter(g => g.type === 'anchorage');
+
+    const candidates = this.webSocketService.getAllCachedVessels().filter(vessel =>
+      vessel.speed <= settings.maxSpeedKnots &&
+      now - new Date(vessel.timestamp).getTime() <= this.MAX_REPORT_AGE_MS &&
+      !(settings.excludePortAreas && this.isInPortArea(vessel)) &&
+      !anchorages.some(a => this.geofenceService.isPointInPolygon(vessel.latitude, vessel.longitude, a.points))
+    );
+
+    const seen = new Set<string>();
+    this.findClosePairs(candidates, settings.maxDistanceMeters).forEach(({ a, b, distance }) => {
+      const id = `${a.mmsi}-${b.mmsi}`;
+      const location: [number, number] = [(a.latitude + b.latitude) / 2, (a.longitude + b.longitude) / 2];
+      const pair = this.candidates.get(id);
+      seen.add(id);
+
+      if (pair) {
+        pair.lastSeenAt = now;
+        pair.location = location;
+        pair.minDistanceMeters = Math.min(pair.minDistanceMeters, distance);
+        pair.vesselA = this.toIdentity(a);
+        pair.vesselB = this.toIdentity(b);
+      } else {
+        this.candidates.set(id, {
+          startedAt: now,
+          lastSeenAt: now,
+          minDistanceMeters: distance,
+          location,
+          vesselA: this.toIdentity(a),
+          vesselB: this.toIdentity(b)
+        });
+      }
+    });
+
+    const byId = new Map(this.encountersSubject.value.map(e => [e.id, e]));
+    const started: Rendezvous[] = [];
+
+    this.candidates.forEach((pair, id) => {
+      const encounterId = `${id}-${pair.startedAt}`;
+      const durationMin = (pair.lastSeenAt - pair.startedAt) / 60000;
+
+      if (!seen.has(id)) {
+        // Pair separated or sped up - close it out
+        this.candidates.delete(id);
+        const existing = byId.get(encounterId);
+        if (existing) byId.set(encounterId, { ...existing, status: 'ended' });
+        return;
+      }
+
+      if (durationMin < settings.minDurationMin) return;
+
+      const encounter: Rendezvous = {
+        id: encounterId,
+        vesselA: pair.vesselA,
+        vesselB: pair.vesselB,
+        status: 'active',
+        start: new Date(pair.startedAt),
+        lastSeen: new Date(pair.lastSeenAt),
+        durationMin,
+        location: pair.location,
+        minDistanceMeters: pair.minDistanceMeters
+      };
+      if (!byId.has(encounterId)) started.push(encounter);
+      byId.set(encounterId, encounter);
+    });
+
+    const encounters = Array.from(byId.values())
+      .sort((x, y) => (x.status === y.status ? y.start.getTime() - x.start.getTime() : x.status === 'active' ? -1 : 1))
+      .slice(0, this.MAX_ENCOUNTERS);
+
+    this.drawEncounters(encounters);
+    this.zone.run(() => {
+      this.encountersSubject.next(encounters);
+      if (started.length > 0) this.newEncountersSubject.next(started);
+    });
+
+    if (started.length > 0) {
+      console.log(`🤝 Rendezvous: ${started.length} new encounters (${encounters.length} recorded)`);
+    }
+  }
+
+  private isInPortArea(vessel: Vessel): boolean {
+    return DEFAULT_PORT_AREAS.some(port =>
+      this.trackingService.calculateDistance(vessel.latitude, vessel.longitude, port.lat, port.lng) <= port.radiusNm * 1852
+    );
+  }
+
+  // ✅ Grid bucketing keeps the pairwise check local
+  private findClosePairs(vessels: Vessel[], maxDistanceMeters: number): { a: Vessel; b: Vessel; distance: number }[] {
+    const cellSizeDeg = maxDistanceMeters / 111320;
+    const grid: Map<string, Vessel[]> = new Map();
+
+    vessels.forEach(vessel => {
+      const key = `${Math.floor(vessel.latitude / cellSizeDeg)}:${Math.floor(vessel.longitude / cellSizeDeg)}`;
+      const cell = grid.get(key);
+      if (cell) {
+        cell.push(vessel);
+      } else {
+        grid.set(key, [vessel]);
+      }
+    });
+
+    const pairs: { a: Vessel; b: Vessel; distance: number }[] = [];
+    vessels.forEach(vessel => {
+      const row = Math.floor(vessel.latitude / cellSizeDeg);
+      const col = Math.floor(vessel.longitude / cellSizeDeg);
+
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          grid.get(`${row + dr}:${col + dc}`)?.forEach(other => {
+            if (other.mmsi <= vessel.mmsi) return;
+            const distance = this.trackingService.calculateDistance(
+              vessel.latitude, vessel.longitude, other.latitude, other.longitude
+            );
+            if (distance <= maxDistanceMeters) {
+              pairs.push({ a: vessel, b: other, distance });
+            }
+          });
+        }
+      }
+    });
+    return pairs;
+  }
+
+  private toIdentity(vessel: Vessel): RendezvousVessel {
+    return {
+      mmsi: vessel.mmsi,
+      name: vessel.name,
+      callSign: vessel.callSign,
+      imo: vessel.imo,
+      flag: vessel.flag,
+      vesselType: vessel.vesselType
+    };
+  }
+
+  // ===================================
+  // ✅ MAP RENDERING
+  // ===================================
+
+  private drawEncounters(encounters: Rendezvous[]): void {
+    if (!this.encounterLayer) return;
+    this.encounterLayer.clearLayers();
+    this.encounterLayers.clear();
+
+    encounters.forEach(encounter => {
+      const color = encounter.status === 'active' ? '#DC2626' : '#9333EA';
+      const circle = this.L.circle(encounter.location, {
+        radius: Math.max(encounter.minDistanceMeters, 100),
+        color,
+        fillColor: color,
+        fillOpacity: encounter.status === 'active' ? 0.2 : 0.08,
+        weight: 2,
+        dashArray: encounter.status === 'ended' ? '4, 6' : undefined,
+        className: encounter.status === 'active' ? 'rendezvous-active' : ''
+      });
+
+      circle.bindPopup(this.createEncounterPopup(encounter));
+      circle.bindTooltip(`🤝 ${Math.round(encounter.durationMin)} min`, { className: 'rendezvous-tooltip' });
+      circle.addTo(this.encounterLayer);
+      this.encounterLayers.set(encounter.id, circle);
+    });
+  }
+
+  private createEncounterPopup(encounter: Rendezvous): string {
+    const describe = (vessel: RendezvousVessel) => `
+      <p><strong>${vessel.name || 'Unknown'}</strong> (MMSI ${vessel.mmsi})<br>
+        IMO ${vessel.imo || '-'} • Call sign ${vessel.callSign || '-'} • Flag ${vessel.flag || '-'}</p>
+    `;
+
+    return `
+      <div class="custom-popup rendezvous-popup">
+        <div class="popup-header">
+          <strong>🤝 Rendezvous ${encounter.status === 'active' ? '(berlangsung)' : '(selesai)'}</strong>
+        </div>
+        <div class="popup-content">
+          ${describe(encounter.vesselA)}
+          ${describe(encounter.vesselB)}
+          <p><strong>Mulai:</strong> ${encounter.start.toLocaleString('id-ID')}</p>
+          <p><strong>Durasi:</strong> ${Math.round(encounter.durationMin)} menit</p>
+          <p><strong>Jarak minimum:</strong> ${Math.round(encounter.minDistanceMeters)} m</p>
+          <p><strong>Lokasi:</strong> ${encounter.location[0].toFixed(5)}, ${encounter.location[1].toFixed(5)}</p>
+        </div>
+      </div>
+    `;
+  }
+
+  private removeEncounterLayer(id: string): void {
+    const layer = this.encounterLayers.get(id);
+    if (layer && this.encounterLayer) {
+      this.encounterLayer.removeLayer(layer);
+    }
+    this.encounterLayers.delete(id);
+  }
+
+  // ===================================
+  // ✅ PERSISTENCE
+  // ===================================
+
+  private saveSettings(settings: RendezvousSettings): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('❌ Failed to save rendezvous settings:', error);
+    }
+  }
+
+  private loadSettings(): RendezvousSettings {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? { ...DEFAULT_RENDEZVOUS_SETTINGS, ...JSON.parse(stored) } : DEFAULT_RENDEZVOUS_SETTINGS;
+    } catch (error) {
+      console.error('❌ Failed to load rendezvous settings:', error);
+      return DEFAULT_RENDEZVOUS_SETTINGS;
+    }
+  }
+
+  cleanup(): void {
+    this.updatesSubscription?.unsubscribe();
+    this.updatesSubscription = null;
+    if (this.map && this.encounterLayer) {
+      this.map.removeLayer(this.encounterLayer);
+    }
+    this.encounterLayer = null;
+    this.encounterLayers.clear();
+    this.candidates.clear();
+  }
+}
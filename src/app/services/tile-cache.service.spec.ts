@@ -0,0 +1,74 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import * as L from 'leaflet';
+
+import { MapLayer } from './map-layer.service';
+import { TileBounds, TileCacheService } from './tile-cache.service';
+
+// Falls inside the single z10 tile x=815, y=529 (Jakarta)
+const BOUNDS: TileBounds = { north: -6.2, south: -6.21, east: 106.85, west: 106.84 };
+
+describe('TileCacheService', () => {
+  let service: TileCacheService;
+  let fetchSpy: jasmine.Spy;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(TileCacheService);
+    service.initialize({}, L);
+    fetchSpy = spyOn(window, 'fetch').and.rejectWith(new Error('offline'));
+  });
+
+  afterEach(() => {
+    service.cleanup();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('pre-download URLs', () => {
+    const downloadUrl = async (layer: MapLayer): Promise<string> => {
+      await service.downloadArea(layer, BOUNDS, 10, 10);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      return fetchSpy.calls.mostRecent().args[0];
+    };
+
+    it('fills zoom, column, row and subdomain of an XYZ template', async () => {
+      const url = await downloadUrl({
+        name: 'Dark',
+        url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+        attribution: '',
+        subdomains: ['a', 'b', 'c', 'd']
+      });
+
+      expect(url).toBe('https://a.basemaps.cartocdn.com/dark_all/10/815/529.png');
+    });
+
+    it('fills a RESTful WMTS template', async () => {
+      const url = await downloadUrl({
+        name: 'Bathymetry',
+        url: 'https://example.com/wmts/{Layer}/{Style}/{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.png',
+        attribution: '',
+        type: 'wmts',
+        wmtsLayer: 'depth'
+      });
+
+      expect(url).toBe('https://example.com/wmts/depth/default/GoogleMapsCompatible/10/529/815.png');
+    });
+
+    it('fills the tile indices of a KVP WMTS GetTile request', async () => {
+      const url = await downloadUrl({
+        name: 'Bathymetry KVP',
+        url: 'https://example.com/wmts',
+        attribution: '',
+        type: 'wmts',
+        wmtsLayer: 'depth'
+      });
+
+      expect(url).toContain('TILEMATRIX=10&TILEROW=529&TILECOL=815');
+    });
+  });
+});
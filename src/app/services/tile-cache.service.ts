@@ -0,0 +1,518 @@
+// tile-cache.service.ts - IndexedDB tile cache: area pre-download, offline fallback, LRU size limit
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { MapLayer, MapLayerService } from './map-layer.service';
+
+export interface TileBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface TileCacheLayerStats {
+  layer: string;
+  tiles: number;
+  bytes: number;
+}
+
+export interface TileCacheStats {
+  tiles: number;
+  bytes: number;
+  maxBytes: number;
+  layers: TileCacheLayerStats[];
+}
+
+export interface TileDownloadProgress {
+  active: boolean;
+  layer: string;
+  total: number;
+  done: number;
+  failed: number;
+  bytes: number;
+  cancelled: boolean;
+}
+
+interface TileMeta {
+  key: string;
+  layer: string;
+  size: number;
+  cachedAt: number;
+  lastAccess: number;
+}
+
+interface TileCoords {
+  x: number;
+  y: number;
+  z: number;
+}
+
+const IDLE_PROGRESS: TileDownloadProgress = {
+  active: false,
+  layer: '',
+  total: 0,
+  done: 0,
+  failed: 0,
+  bytes: 0,
+  cancelled: false
+};
+
+// Slippy-map tile indices covering the bounds at zoom z
+function getTileRange(bounds: TileBounds, z: number): { minX: number; maxX: number; minY: number; maxY: number } {
+  const n = Math.pow(2, z);
+  const toX = (lng: number) => Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+  const toY = (lat: number) => {
+    const clamped = Math.max(Math.min(lat, 85.0511), -85.0511) * Math.PI / 180;
+    return Math.min(n - 1, Math.max(0, Math.floor(((1 - Math.log(Math.tan(clamped) + 1 / Math.cos(clamped)) / Math.PI) / 2) * n)));
+  };
+  return { minX: toX(bounds.west), maxX: toX(bounds.east), minY: toY(bounds.north), maxY: toY(bounds.south) };
+}
+
+export function estimateTileCount(bounds: TileBounds, minZoom: number, maxZoom: number): number {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const range = getTileRange(bounds, z);
+    count += (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+  }
+  return count;
+}
+
+export const MAX_DOWNLOAD_TILES = 20000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TileCacheService {
+  private map: any;
+  private L: any;
+  private readonly DB_NAME = 'telkomsat-tile-cache';
+  private readonly DB_VERSION = 1;
+  private readonly TILE_STORE = 'tiles';
+  private readonly META_STORE = 'meta';
+  private readonly SETTINGS_KEY = 'telkomsat-tile-cache-settings';
+
+  private readonly DEFAULT_MAX_MB = 500;
+  private readonly EVICT_TARGET_RATIO = 0.9; // evict down to 90% so every write does not trigger it
+  private readonly DOWNLOAD_CONCURRENCY = 4;
+  private readonly MERCATOR_ORIGIN = 20037508.342789244;
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private totalBytes = 0;
+  private cancelRequested = false;
+
+  private statsSubject = new BehaviorSubject<TileCacheStats>({ tiles: 0, bytes: 0, maxBytes: 0, layers: [] });
+  private progressSubject = new BehaviorSubject<TileDownloadProgress>(IDLE_PROGRESS);
+  private onlineSubject = new BehaviorSubject<boolean>(true);
+
+  public stats$ = this.statsSubject.asObservable();
+  public progress$ = this.progressSubject.asObservable();
+  public online$ = this.onlineSubject.asObservable();
+
+  private maxBytes = this.DEFAULT_MAX_MB * 1024 * 1024;
+
+  private onOnline = () => this.zone.run(() => this.onlineSubject.next(true));
+  private onOffline = () => this.zone.run(() => this.onlineSubject.next(false));
+
+  constructor(
+    private mapLayerService: MapLayerService,
+    private zone: NgZone
+  ) {}
+
+  // ✅ IndexedDB is not available during SSR/prerender
+  public isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    if (!this.isSupported()) return;
+
+    this.maxBytes = this.loadMaxBytes();
+    this.onlineSubject.next(navigator.onLine);
+    window.addEventListener('online', this.onOnline);
+    window.addEventListener('offline', this.onOffline);
+    this.refreshStats();
+    console.log('💾 TileCacheService initialized');
+  }
+
+  // ===================================
+  // ✅ CACHE-AWARE LAYERS
+  // ===================================
+
+  // Network first; a failed tile (or any tile while offline) is served from the cache
+  createLayer(layerConfig: MapLayer, L: any): any {
+    const layer = this.mapLayerService.createLeafletLayer(layerConfig, L);
+    if (!this.isSupported()) return layer;
+
+    layer.createTile = (coords: TileCoords, done: (error: any, tile: HTMLElement) => void) => {
+      const tile = document.createElement('img');
+      tile.alt = '';
+      tile.setAttribute('role', 'presentation');
+
+      const key = this.tileKey(layerConfig.name, coords);
+      const fromCache = () => this.serveFromCache(key, tile, done);
+
+      if (!navigator.onLine) {
+        fromCache();
+      } else {
+        tile.onload = () => done(null, tile);
+        tile.onerror = fromCache;
+        tile.src = layer.getTileUrl(coords);
+      }
+      return tile;
+    };
+
+    return layer;
+  }
+
+  private async serveFromCache(key: string, tile: HTMLImageElement, done: (error: any, tile: HTMLElement) => void): Promise<void> {
+    const blob = await this.getTile(key);
+    if (!blob) {
+      done(new Error(`Tile not cached: ${key}`), tile);
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    tile.onload = () => {
+      URL.revokeObjectURL(url);
+      done(null, tile);
+    };
+    tile.onerror = () => {
+      URL.revokeObjectURL(url);
+      done(new Error(`Cached tile unreadable: ${key}`), tile);
+    };
+    tile.src = url;
+  }
+
+  // ===================================
+  // ✅ PRE-DOWNLOAD
+  // ===================================
+
+  getViewBounds(): TileBounds | null {
+    if (!this.map) return null;
+    const bounds = this.map.getBounds();
+    return {
+      north: bounds.getNorth(),
+      south: bounds.getSouth(),
+      east: bounds.getEast(),
+      west: bounds.getWest()
+    };
+  }
+
+  getViewZoom(): number {
+    return this.map ? Math.round(this.map.getZoom()) : 0;
+  }
+
+  // ✅ Fetch every tile of the bbox/zoom range into the cache; resolves to the number stored
+  async downloadArea(layerConfig: MapLayer, bounds: TileBounds, minZoom: number, maxZoom: number): Promise<number> {
+    if (!this.isSupported()) {
+      throw new Error('Offline tiles are not supported in this browser (IndexedDB unavailable)');
+    }
+    if (!this.L) {
+      throw new Error('Map is not ready yet');
+    }
+    if (this.progressSubject.value.active) {
+      throw new Error('A tile download is already in progress');
+    }
+
+    const total = estimateTileCount(bounds, minZoom, maxZoom);
+    if (total > MAX_DOWNLOAD_TILES) {
+      throw new Error(`Area too large: ${total} tiles (max ${MAX_DOWNLOAD_TILES})`);
+    }
+
+    const queue: TileCoords[] = [];
+    for (let z = minZoom; z <= maxZoom; z++) {
+      const range = getTileRange(bounds, z);
+      for (let x = range.minX; x <= range.maxX; x++) {
+        for (let y = range.minY; y <= range.maxY; y++) {
+          queue.push({ x, y, z });
+        }
+      }
+    }
+
+    // Only read for its options and WMS params - never added to the map
+    const urlLayer = this.mapLayerService.createLeafletLayer(layerConfig, this.L);
+    this.cancelRequested = false;
+    this.emitProgress({ ...IDLE_PROGRESS, active: true, layer: layerConfig.name, total });
+    console.log(`💾 Downloading ${total} tiles of ${layerConfig.name} (z${minZoom}-${maxZoom})`);
+
+    let stored = 0;
+    const worker = async () => {
+      while (queue.length > 0 && !this.cancelRequested) {
+        const coords = queue.shift()!;
+        try {
+          const response = await fetch(this.getDownloadUrl(layerConfig, urlLayer, coords), { mode: 'cors' });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          const blob = await response.blob();
+          await this.putTile(this.tileKey(layerConfig.name, coords), layerConfig.name, blob);
+          if (++stored % 200 === 0) await this.evictIfNeeded();
+          const progress = this.progressSubject.value;
+          this.emitProgress({ ...progress, done: progress.done + 1, bytes: progress.bytes + blob.size });
+        } catch {
+          const progress = this.progressSubject.value;
+          this.emitProgress({ ...progress, done: progress.done + 1, failed: progress.failed + 1 });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: this.DOWNLOAD_CONCURRENCY }, () => worker()));
+    await this.evictIfNeeded();
+
+    this.emitProgress({ ...this.progressSubject.value, active: false, cancelled: this.cancelRequested });
+    await this.refreshStats();
+    console.log(`💾 Cached ${stored}/${total} tiles of ${layerConfig.name}`);
+    return stored;
+  }
+
+  cancelDownload(): void {
+    this.cancelRequested = true;
+  }
+
+  // XYZ and WMTS expand their template; WMS needs the tile's Web Mercator bbox spelled out.
+  // Leaflet's getTileUrl reads the zoom from the map, which urlLayer never joins
+  private getDownloadUrl(layerConfig: MapLayer, urlLayer: any, coords: TileCoords): string {
+    if (layerConfig.type !== 'wms') {
+      const subdomains = urlLayer.options.subdomains;
+      return this.L.Util.template(this.mapLayerService.getUrlTemplate(layerConfig), {
+        ...urlLayer.options,
+        ...coords,
+        s: subdomains[Math.abs(coords.x + coords.y) % subdomains.length],
+        r: '',
+        '-y': Math.pow(2, coords.z) - 1 - coords.y
+      });
+    }
+
+    const tileSpan = (2 * this.MERCATOR_ORIGIN) / Math.pow(2, coords.z);
+    const minX = -this.MERCATOR_ORIGIN + coords.x * tileSpan;
+    const maxY = this.MERCATOR_ORIGIN - coords.y * tileSpan;
+    const projectionKey = urlLayer.wmsParams.version >= '1.3' ? 'crs' : 'srs';
+
+    return layerConfig.url + this.L.Util.getParamString({
+      ...urlLayer.wmsParams,
+      [projectionKey]: 'EPSG:3857',
+      bbox: [minX, maxY - tileSpan, minX + tileSpan, maxY].join(',')
+    }, layerConfig.url, true);
+  }
+
+  // ===================================
+  // ✅ SIZE ACCOUNTING & EVICTION
+  // ===================================
+
+  getMaxSizeMb(): number {
+    return Math.round(this.maxBytes / (1024 * 1024));
+  }
+
+  async setMaxSizeMb(megabytes: number): Promise<void> {
+    if (!(megabytes > 0)) return;
+    this.maxBytes = megabytes * 1024 * 1024;
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify({ maxSizeMb: megabytes }));
+    } catch (error) {
+      console.error('❌ Failed to save tile cache settings:', error);
+    }
+    await this.evictIfNeeded();
+    await this.refreshStats();
+  }
+
+  // Least recently used tiles go first
+  private async evictIfNeeded(): Promise<void> {
+    if (this.totalBytes <= this.maxBytes) return;
+
+    const target = this.maxBytes * this.EVICT_TARGET_RATIO;
+    const db = await this.openDatabase();
+    let evicted = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([this.META_STORE, this.TILE_STORE], 'readwrite');
+      const tiles = transaction.objectStore(this.TILE_STORE);
+      const cursorRequest = transaction.objectStore(this.META_STORE).index('lastAccess').openCursor();
+
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || this.totalBytes <= target) return;
+
+        const meta = cursor.value as TileMeta;
+        tiles.delete(meta.key);
+        cursor.delete();
+        this.totalBytes -= meta.size;
+        evicted++;
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    console.log(`🧹 Evicted ${evicted} least recently used tiles`);
+  }
+
+  async refreshStats(): Promise<void> {
+    if (!this.isSupported()) return;
+
+    try {
+      const db = await this.openDatabase();
+      const metas = await new Promise<TileMeta[]>((resolve, reject) => {
+        const request = db.transaction(this.META_STORE, 'readonly').objectStore(this.META_STORE).getAll();
+        request.onsuccess = () => resolve(request.result as TileMeta[]);
+        request.onerror = () => reject(request.error);
+      });
+
+      const byLayer = new Map<string, TileCacheLayerStats>();
+      metas.forEach(meta => {
+        const entry = byLayer.get(meta.layer) ?? { layer: meta.layer, tiles: 0, bytes: 0 };
+        entry.tiles++;
+        entry.bytes += meta.size;
+        byLayer.set(meta.layer, entry);
+      });
+
+      this.totalBytes = metas.reduce((sum, meta) => sum + meta.size, 0);
+      this.zone.run(() => this.statsSubject.next({
+        tiles: metas.length,
+        bytes: this.totalBytes,
+        maxBytes: this.maxBytes,
+        layers: Array.from(byLayer.values()).sort((a, b) => b.bytes - a.bytes)
+      }));
+    } catch (error) {
+      console.error('❌ Failed to read tile cache stats:', error);
+    }
+  }
+
+  async clearLayer(layerName?: string): Promise<void> {
+    if (!this.isSupported()) return;
+
+    try {
+      const db = await this.openDatabase();
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction([this.META_STORE, this.TILE_STORE], 'readwrite');
+        const metaStore = transaction.objectStore(this.META_STORE);
+        const tiles = transaction.objectStore(this.TILE_STORE);
+
+        if (!layerName) {
+          metaStore.clear();
+          tiles.clear();
+        } else {
+          const cursorRequest = metaStore.index('layer').openCursor(IDBKeyRange.only(layerName));
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            tiles.delete((cursor.value as TileMeta).key);
+            cursor.delete();
+            cursor.continue();
+          };
+        }
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } catch (error) {
+      console.error('❌ Failed to clear tile cache:', error);
+    }
+    await this.refreshStats();
+  }
+
+  // ===================================
+  // ✅ STORAGE
+  // ===================================
+
+  private tileKey(layerName: string, coords: TileCoords): string {
+    return `${layerName}/${coords.z}/${coords.x}/${coords.y}`;
+  }
+
+  private async getTile(key: string): Promise<Blob | null> {
+    try {
+      const db = await this.openDatabase();
+      return await new Promise<Blob | null>((resolve, reject) => {
+        const transaction = db.transaction([this.TILE_STORE, this.META_STORE], 'readwrite');
+        const request = transaction.objectStore(this.TILE_STORE).get(key);
+        const metaStore = transaction.objectStore(this.META_STORE);
+
+        request.onsuccess = () => {
+          const blob = (request.result as Blob | undefined) ?? null;
+          if (blob) {
+            // Touch for LRU
+            const metaRequest = metaStore.get(key);
+            metaRequest.onsuccess = () => {
+              if (metaRequest.result) metaStore.put({ ...metaRequest.result, lastAccess: Date.now() });
+            };
+          }
+          resolve(blob);
+        };
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('❌ Failed to read cached tile:', error);
+      return null;
+    }
+  }
+
+  private async putTile(key: string, layerName: string, blob: Blob): Promise<void> {
+    const db = await this.openDatabase();
+    let previousSize = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([this.TILE_STORE, this.META_STORE], 'readwrite');
+      const metaStore = transaction.objectStore(this.META_STORE);
+      const existing = metaStore.get(key);
+
+      existing.onsuccess = () => {
+        previousSize = (existing.result as TileMeta | undefined)?.size ?? 0;
+        const now = Date.now();
+        metaStore.put({ key, layer: layerName, size: blob.size, cachedAt: now, lastAccess: now } as TileMeta);
+      };
+      transaction.objectStore(this.TILE_STORE).put(blob, key);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    this.totalBytes += blob.size - previousSize;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.TILE_STORE)) {
+          db.createObjectStore(this.TILE_STORE);
+        }
+        if (!db.objectStoreNames.contains(this.META_STORE)) {
+          const metaStore = db.createObjectStore(this.META_STORE, { keyPath: 'key' });
+          metaStore.createIndex('lastAccess', 'lastAccess');
+          metaStore.createIndex('layer', 'layer');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private loadMaxBytes(): number {
+    try {
+      const stored = localStorage.getItem(this.SETTINGS_KEY);
+      const maxSizeMb = stored ? JSON.parse(stored).maxSizeMb : this.DEFAULT_MAX_MB;
+      return (maxSizeMb > 0 ? maxSizeMb : this.DEFAULT_MAX_MB) * 1024 * 1024;
+    } catch (error) {
+      console.error('❌ Failed to load tile cache settings:', error);
+      return this.DEFAULT_MAX_MB * 1024 * 1024;
+    }
+  }
+
+  private emitProgress(progress: TileDownloadProgress): void {
+    this.zone.run(() => this.progressSubject.next(progress));
+  }
+
+  cleanup(): void {
+    this.cancelDownload();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onOnline);
+      window.removeEventListener('offline', this.onOffline);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+// track-export.service.ts - Vessel track export as GPX, KML and GeoJSON for Google Earth / QGIS
+import { Injectable } from '@angular/core';
+import { VesselTrackPoint } from './vessel-websocket.service';
+import { downloadFile } from '../utils/download-file';
+import { escapeHtml } from '../utils/escape-html';
+
+export type TrackExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface TrackExportMeta {
+  mmsi: number;
+  name?: string;
+}
+
+export const TRACK_EXPORT_FORMATS: { value: TrackExportFormat; label: string }[] = [
+  { value: 'gpx', label: 'GPX' },
+  { value: 'kml', label: 'KML' },
+  { value: 'geojson', label: 'GeoJSON' }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TrackExportService {
+  private readonly MIME_TYPES: Record<TrackExportFormat, string> = {
+    gpx: 'application/gpx+xml',
+    kml: 'application/vnd.google-earth.kml+xml',
+    geojson: 'application/geo+json'
+  };
+
+  // ✅ Export the points already on hand (track viewer, detail drawer)
+  exportTrack(points: VesselTrackPoint[], meta: TrackExportMeta, format: TrackExportFormat): boolean {
+    if (points.length === 0) return false;
+
+    const content = format === 'gpx'
+      ? this.toGpx(points, meta)
+      : format === 'kml'
+        ? this.toKml(points, meta)
+        : this.toGeoJson(points, meta);
+
+    const safeName = (meta.name || 'vessel').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+    downloadFile(content, `track-${meta.mmsi}-${safeName}-${Date.now()}.${format}`, this.MIME_TYPES[format]);
+    console.log(`📤 Exported ${points.length} track points for ${meta.mmsi} as ${format.toUpperCase()}`);
+    return true;
+  }
+
+  // ===================================
+  // ✅ FORMATS
+  // ===================================
+
+  // GPX 1.1 has no speed/course on trkpt - they go in a namespaced extension block
+  private toGpx(points: VesselTrackPoint[], meta: TrackExportMeta): string {
+    const name = escapeHtml(meta.name || `MMSI ${meta.mmsi}`);
+    const trackPoints = points.map(point => [
+      `      <trkpt lat="${point.latitude.toFixed(6)}" lon="${point.longitude.toFixed(6)}">`,
+      `        <time>${point.timestamp.toISOString()}</time>`,
+      '        <extensions>',
+      `          <ais:speed>${point.speed.toFixed(1)}</ais:speed>`,
+      `          <ais:course>${point.course.toFixed(1)}</ais:course>`,
+      point.heading !== undefined ? `          <ais:heading>${point.heading}</ais:heading>` : null,
+      '        </extensions>',
+      '      </trkpt>'
+    ].filter(line => line !== null).join('\n'));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gpx version="1.1" creator="Telkomsat AIS Map" xmlns="http://www.topografix.com/GPX/1/1" xmlns:ais="urn:telkomsat:ais:track">',
+      '  <metadata>',
+      `    <name>${name}</name>`,
+      `    <time>${new Date().toISOString()}</time>`,
+      '  </metadata>',
+      '  <trk>',
+      `    <name>${name}</name>`,
+      `    <desc>MMSI ${meta.mmsi} - speed in knots, course in degrees</desc>`,
+      '    <trkseg>',
+      ...trackPoints,
+      '    </trkseg>',
+      '  </trk>',
+      '</gpx>'
+    ].join('\n');
+  }
+
+  // gx:Track keeps per-point time (Google Earth time slider) with speed/course as SimpleArrayData
+  private toKml(points: VesselTrackPoint[], meta: TrackExportMeta): string {
+    const name = escapeHtml(meta.name || `MMSI ${meta.mmsi}`);
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+      '  <Document>',
+      `    <name>${name}</name>`,
+      '    <Schema id="aisTrack" name="aisTrack">',
+      '      <gx:SimpleArrayField name="speed" type="float"><displayName>Speed (kn)</displayName></gx:SimpleArrayField>',
+      '      <gx:SimpleArrayField name="course" type="float"><displayName>Course (°)</displayName></gx:SimpleArrayField>',
+      '    </Schema>',
+      '    <Style id="trackStyle">',
+      '      <LineStyle><color>ff0078ff</color><width>3</width></LineStyle>',
+      '      <IconStyle><Icon><href>http://maps.google.com/mapfiles/kml/shapes/sailing.png</href></Icon></IconStyle>',
+      '    </Style>',
+      '    <Placemark>',
+      `      <name>${name}</name>`,
+      `      <description>MMSI ${meta.mmsi}</description>`,
+      '      <styleUrl>#trackStyle</styleUrl>',
+      '      <gx:Track>',
+      '        <altitudeMode>clampToGround</altitudeMode>',
+      ...points.map(point => `        <when>${point.timestamp.toISOString()}</when>`),
+      ...points.map(point => `        <gx:coord>${point.longitude.toFixed(6)} ${point.latitude.toFixed(6)} 0</gx:coord>`),
+      '        <ExtendedData>',
+      '          <SchemaData schemaUrl="#aisTrack">',
+      '            <gx:SimpleArrayData name="speed">',
+      ...points.map(point => `              <gx:value>${point.speed.toFixed(1)}</gx:value>`),
+      '            </gx:SimpleArrayData>',
+      '            <gx:SimpleArrayData name="course">',
+      ...points.map(point => `              <gx:value>${point.course.toFixed(1)}</gx:value>`),
+      '            </gx:SimpleArrayData>',
+      '          </SchemaData>',
+      '        </ExtendedData>',
+      '      </gx:Track>',
+      '    </Placemark>',
+      '  </Document>',
+      '</kml>'
+    ].join('\n');
+  }
+
+  // One LineString for the whole track plus a Point per report so QGIS gets attribute columns
+  private toGeoJson(points: VesselTrackPoint[], meta: TrackExportMeta): string {
+    const line = {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: points.map(point => [point.longitude, point.latitude])
+      },
+      properties: {
+        mmsi: meta.mmsi,
+        vesselName: meta.name ?? null,
+        start: points[0].timestamp.toISOString(),
+        end: points[points.length - 1].timestamp.toISOString(),
+        pointCount: points.length
+      }
+    };
+
+    const positions = points.map(point => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [point.longitude, point.latitude] },
+      properties: {
+        mmsi: meta.mmsi,
+        timestamp: point.timestamp.toISOString(),
+        speed: Math.round(point.speed * 10) / 10,
+        course: Math.round(point.course * 10) / 10,
+        heading: point.heading ?? null
+      }
+    }));
+
+    return JSON.stringify({ type: 'FeatureCollection', features: [line, ...positions] }, null, 2);
+  }
+}
@@ -0,0 +1,107 @@
+// track-history-store.service.ts - IndexedDB persistence for vessel track history
+import { Injectable } from '@angular/core';
+import { VesselPosition } from './vessel-tracking.service';
+
+export interface StoredVesselTrack {
+  mmsi: number;
+  positions: VesselPosition[];
+  totalDistance: number;
+  updatedAt: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TrackHistoryStoreService {
+  private readonly DB_NAME = 'telkomsat-track-history';
+  private readonly DB_VERSION = 1;
+  private readonly STORE_NAME = 'tracks';
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // ✅ IndexedDB is not available during SSR/prerender
+  public isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  public async loadAll(): Promise<StoredVesselTrack[]> {
+    if (!this.isSupported()) return [];
+
+    try {
+      const db = await this.openDatabase();
+      return await new Promise<StoredVesselTrack[]>((resolve, reject) => {
+        const request = db.transaction(this.STORE_NAME, 'readonly').objectStore(this.STORE_NAME).getAll();
+        request.onsuccess = () => resolve(request.result as StoredVesselTrack[]);
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('❌ Failed to load track history:', error);
+      return [];
+    }
+  }
+
+  public async saveTracks(tracks: StoredVesselTrack[]): Promise<void> {
+    if (!this.isSupported() || tracks.length === 0) return;
+
+    try {
+      const db = await this.openDatabase();
+      await this.runWriteTransaction(db, store => tracks.forEach(track => store.put(track)));
+    } catch (error) {
+      console.error('❌ Failed to save track history:', error);
+    }
+  }
+
+  public async deleteTracks(mmsiList: number[]): Promise<void> {
+    if (!this.isSupported() || mmsiList.length === 0) return;
+
+    try {
+      const db = await this.openDatabase();
+      await this.runWriteTransaction(db, store => mmsiList.forEach(mmsi => store.delete(mmsi)));
+    } catch (error) {
+      console.error('❌ Failed to delete track history:', error);
+    }
+  }
+
+  public async clear(): Promise<void> {
+    if (!this.isSupported()) return;
+
+    try {
+      const db = await this.openDatabase();
+      await this.runWriteTransaction(db, store => store.clear());
+    } catch (error) {
+      console.error('❌ Failed to clear track history:', error);
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+          db.createObjectStore(this.STORE_NAME, { keyPath: 'mmsi' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private runWriteTransaction(db: IDBDatabase, work: (store: IDBObjectStore) => void): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, 'readwrite');
+      work(transaction.objectStore(this.STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
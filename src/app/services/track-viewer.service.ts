@@ -0,0 +1,284 @@
+// track-viewer.service.ts - Historical track for one vessel, coloured by speed with course arrows and gap marks
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, firstValueFrom } from 'rxjs';
+import { VesselWebSocketService, VesselTrackPoint } from './vessel-websocket.service';
+import { VesselTrackingService } from './vessel-tracking.service';
+import { normalizeDateRange } from '../utils/date-range';
+
+export interface SpeedBand {
+  maxKnots: number;
+  color: string;
+  label: string;
+}
+
+export interface TrackGap {
+  from: VesselTrackPoint;
+  to: VesselTrackPoint;
+  durationMin: number;
+}
+
+export interface TrackViewerSettings {
+  arrowEvery: number; // draw a course arrow every N points
+  gapThresholdMin: number; // reporting silence longer than this is drawn as a gap
+}
+
+export interface TrackViewerState {
+  mmsi: number | null;
+  vesselName?: string;
+  rangeStart: Date | null;
+  rangeEnd: Date | null;
+  points: VesselTrackPoint[];
+  gaps: TrackGap[];
+  distanceNm: number;
+  maxSpeed: number;
+  avgSpeed: number;
+}
+
+export const SPEED_BANDS: SpeedBand[] = [
+  { maxKnots: 1, color: '#9CA3AF', label: '< 1 kn' },
+  { maxKnots: 5, color: '#3B82F6', label: '1 – 5 kn' },
+  { maxKnots: 10, color: '#10B981', label: '5 – 10 kn' },
+  { maxKnots: 15, color: '#F59E0B', label: '10 – 15 kn' },
+  { maxKnots: Infinity, color: '#EF4444', label: '> 15 kn' }
+];
+
+export const DEFAULT_TRACK_VIEWER_SETTINGS: TrackViewerSettings = {
+  arrowEvery: 10,
+  gapThresholdMin: 30
+};
+
+const EMPTY_STATE: TrackViewerState = {
+  mmsi: null,
+  rangeStart: null,
+  rangeEnd: null,
+  points: [],
+  gaps: [],
+  distanceNm: 0,
+  maxSpeed: 0,
+  avgSpeed: 0
+};
+
+export function getSpeedColor(speed: number): string {
+  return (SPEED_BANDS.find(band => speed < band.maxKnots) ?? SPEED_BANDS[SPEED_BANDS.length - 1]).color;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TrackViewerService {
+  private map: any;
+  private L: any;
+  private trackLayer: any;
+  private pointRenderer: any;
+
+  private stateSubject = new BehaviorSubject<TrackViewerState>(EMPTY_STATE);
+  private settingsSubject = new BehaviorSubject<TrackViewerSettings>(DEFAULT_TRACK_VIEWER_SETTINGS);
+
+  public state$ = this.stateSubject.asObservable();
+  public settings$ = this.settingsSubject.asObservable();
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private trackingService: VesselTrackingService
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.trackLayer = L.layerGroup().addTo(map);
+    // Thousands of hover targets - keep them off the SVG renderer
+    this.pointRenderer = L.canvas({ padding: 0.5 });
+    console.log('🧭 TrackViewerService initialized');
+  }
+
+  // ✅ Fetch and draw one vessel's history; resolves to the number of points drawn
+  async load(mmsi: number, startDate: Date, endDate: Date): Promise<number> {
+    if (!this.map) return 0;
+
+    const { start, end } = normalizeDateRange(startDate, endDate);
+    const points = await firstValueFrom(this.webSocketService.getVesselTrackByRange(mmsi, start, end));
+
+    this.clear();
+    if (points.length === 0) return 0;
+
+    this.stateSubject.next({
+      mmsi,
+      vesselName: this.webSocketService.getCachedVessel(mmsi)?.name,
+      rangeStart: start,
+      rangeEnd: end,
+      points,
+      gaps: this.findGaps(points),
+      ...this.getStats(points)
+    });
+    this.draw();
+    this.map.fitBounds(this.L.latLngBounds(points.map(p => [p.latitude, p.longitude])), { padding: [40, 40] });
+
+    console.log(`🧭 Track loaded for ${mmsi}: ${points.length} points`);
+    return points.length;
+  }
+
+  updateSettings(settings: Partial<TrackViewerSettings>): void {
+    this.settingsSubject.next({ ...this.settingsSubject.value, ...settings });
+
+    const state = this.stateSubject.value;
+    if (state.points.length > 0) {
+      this.stateSubject.next({ ...state, gaps: this.findGaps(state.points) });
+      this.draw();
+    }
+  }
+
+  getState(): TrackViewerState {
+    return this.stateSubject.value;
+  }
+
+  clear(): void {
+    this.trackLayer?.clearLayers();
+    this.stateSubject.next(EMPTY_STATE);
+  }
+
+  // ===================================
+  // ✅ ANALYSIS
+  // ===================================
+
+  private findGaps(points: VesselTrackPoint[]): TrackGap[] {
+    const thresholdMs = this.settingsSubject.value.gapThresholdMin * 60000;
+    const gaps: TrackGap[] = [];
+
+    for (let i = 1; i < points.length; i++) {
+      const elapsed = points[i].timestamp.getTime() - points[i - 1].timestamp.getTime();
+      if (elapsed > thresholdMs) {
+        gaps.push({ from: points[i - 1], to: points[i], durationMin: Math.round(elapsed / 60000) });
+      }
+    }
+    return gaps;
+  }
+
+  private getStats(points: VesselTrackPoint[]): Pick<TrackViewerState, 'distanceNm' | 'maxSpeed' | 'avgSpeed'> {
+    let meters = 0;
+    for (let i = 1; i < points.length; i++) {
+      meters += this.trackingService.calculateDistance(
+        points[i - 1].latitude, points[i - 1].longitude,
+        points[i].latitude, points[i].longitude
+      );
+    }
+
+    const speeds = points.map(p => p.speed);
+    return {
+      distanceNm: meters / 1852,
+      maxSpeed: Math.max(...speeds),
+      avgSpeed: speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length
+    };
+  }
+
+  // ===================================
+  // ✅ DRAWING
+  // ===================================
+
+  private draw(): void {
+    const { points, gaps } = this.stateSubject.value;
+    const { arrowEvery } = this.settingsSubject.value;
+    if (!this.trackLayer || points.length === 0) return;
+
+    this.trackLayer.clearLayers();
+    const gapStarts = new Set(gaps.map(gap => gap.from));
+
+    // Consecutive segments in the same speed band are merged into one polyline
+    let run: [number, number][] = [[points[0].latitude, points[0].longitude]];
+    let runColor = getSpeedColor(points[0].speed);
+
+    const flushRun = () => {
+      if (run.length > 1) {
+        this.L.polyline(run, { color: runColor, weight: 4, opacity: 0.9, interactive: false }).addTo(this.trackLayer);
+      }
+    };
+
+    for (let i = 1; i < points.length; i++) {
+      const previous = points[i - 1];
+      const point = points[i];
+      const latLng: [number, number] = [point.latitude, point.longitude];
+
+      if (gapStarts.has(previous)) {
+        flushRun();
+        run = [latLng];
+        runColor = getSpeedColor(point.speed);
+        continue;
+      }
+
+      const color = getSpeedColor(previous.speed);
+      if (color !== runColor) {
+        flushRun();
+        run = [[previous.latitude, previous.longitude]];
+        runColor = color;
+      }
+      run.push(latLng);
+    }
+    flushRun();
+
+    gaps.forEach(gap => this.drawGap(gap));
+
+    points.forEach((point, index) => {
+      this.drawHoverPoint(point);
+      if (arrowEvery > 0 && index % arrowEvery === 0) this.drawArrow(point);
+    });
+  }
+
+  private drawGap(gap: TrackGap): void {
+    const hours = Math.floor(gap.durationMin / 60);
+    const label = hours > 0 ? `${hours}h ${gap.durationMin % 60}m` : `${gap.durationMin}m`;
+
+    this.L.polyline(
+      [[gap.from.latitude, gap.from.longitude], [gap.to.latitude, gap.to.longitude]],
+      { color: '#6B7280', weight: 2, opacity: 0.8, dashArray: '4, 8' }
+    )
+      .bindTooltip(`📡 No reports for ${label}`, { sticky: true })
+      .addTo(this.trackLayer);
+
+    [gap.from, gap.to].forEach(point => {
+      this.L.circleMarker([point.latitude, point.longitude], {
+        radius: 5,
+        color: '#6B7280',
+        fillColor: '#ffffff',
+        fillOpacity: 1,
+        weight: 2,
+        interactive: false
+      }).addTo(this.trackLayer);
+    });
+  }
+
+  private drawArrow(point: VesselTrackPoint): void {
+    const icon = this.L.divIcon({
+      className: 'track-arrow-icon',
+      html: `<div class="track-arrow" style="transform: rotate(${point.course}deg); color: ${getSpeedColor(point.speed)}">▲</div>`,
+      iconSize: [14, 14],
+      iconAnchor: [7, 7]
+    });
+    this.L.marker([point.latitude, point.longitude], { icon, interactive: false }).addTo(this.trackLayer);
+  }
+
+  private drawHoverPoint(point: VesselTrackPoint): void {
+    this.L.circleMarker([point.latitude, point.longitude], {
+      renderer: this.pointRenderer,
+      radius: 4,
+      stroke: false,
+      fillColor: getSpeedColor(point.speed),
+      fillOpacity: 0.01
+    })
+      .bindTooltip(
+        `<strong>${point.timestamp.toLocaleString('id-ID')}</strong><br>` +
+        `${point.speed.toFixed(1)} kn · ${Math.round(point.course)}°<br>` +
+        `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`,
+        { direction: 'top', className: 'track-point-tooltip' }
+      )
+      .on('mouseover', (e: any) => e.target.setStyle({ fillOpacity: 1 }))
+      .on('mouseout', (e: any) => e.target.setStyle({ fillOpacity: 0.01 }))
+      .addTo(this.trackLayer);
+  }
+
+  cleanup(): void {
+    this.clear();
+    if (this.map && this.trackLayer) {
+      this.map.removeLayer(this.trackLayer);
+    }
+    this.trackLayer = null;
+  }
+}
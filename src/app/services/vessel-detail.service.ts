@@ -0,0 +1,259 @@
+// vessel-detail.service.ts - Per-vessel detail drawer data: static info, recent track, port calls, destination history
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { auditTime } from 'rxjs/operators';
+import { VesselWebSocketService, Vessel, VesselTrackPoint } from './vessel-websocket.service';
+import { VesselTrackingService } from './vessel-tracking.service';
+import { GeofenceService } from './geofence.service';
+
+export interface PortCall {
+  location: [number, number];
+  placeName?: string; // anchorage geofence the stop falls in, if any
+  arrival: Date;
+  departure: Date | null; // null while the vessel is still there
+  durationMin: number;
+}
+
+export interface DestinationChange {
+  destination: string;
+  eta?: string;
+  changedAt: Date;
+}
+
+export interface VesselDetail {
+  vessel: Vessel;
+  track: VesselTrackPoint[];
+  trackLimit: number;
+  portCalls: PortCall[];
+  destinationChanges: DestinationChange[];
+  loading: boolean;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class VesselDetailService {
+  private map: any;
+  private L: any;
+  private trackLayer: any;
+  private trackSubscription: Subscription | null = null;
+  private updatesSubscription: Subscription | null = null;
+
+  // ✅ Destination history is only known from what this session has seen
+  private lastDestinations: Map<number, string> = new Map();
+  private destinationHistory: Map<number, DestinationChange[]> = new Map();
+
+  private readonly DEFAULT_TRACK_LIMIT = 200;
+  private readonly MAX_DESTINATION_CHANGES = 20;
+  private readonly HISTORY_CHECK_INTERVAL = 5000;
+  private readonly STOP_SPEED_KNOTS = 0.5;
+  private readonly MIN_PORT_CALL_MIN = 30;
+
+  private detailSubject = new BehaviorSubject<VesselDetail | null>(null);
+  public detail$ = this.detailSubject.asObservable();
+
+  private onPopupOpen = (e: any) => this.bindDetailButton(e.popup);
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private trackingService: VesselTrackingService,
+    private geofenceService: GeofenceService,
+    private zone: NgZone
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.trackLayer = L.layerGroup().addTo(map);
+    this.map.on('popupopen', this.onPopupOpen);
+
+    this.updatesSubscription = this.webSocketService.vesselUpdates$
+      .pipe(auditTime(this.HISTORY_CHECK_INTERVAL))
+      .subscribe(vessels => this.recordDestinations(vessels));
+
+    console.log('📇 VesselDetailService initialized');
+  }
+
+  open(mmsi: number, trackLimit = this.detailSubject.value?.trackLimit ?? this.DEFAULT_TRACK_LIMIT): boolean {
+    const vessel = this.webSocketService.getCachedVessel(mmsi);
+    if (!vessel) return false;
+
+    this.trackSubscription?.unsubscribe();
+    this.trackLayer?.clearLayers();
+    this.emit({
+      vessel,
+      track: [],
+      trackLimit,
+      portCalls: [],
+      destinationChanges: this.getDestinationChanges(mmsi),
+      loading: true
+    });
+
+    this.trackSubscription = this.webSocketService.getVesselTrack(mmsi, trackLimit).subscribe(rawPoints => {
+      const fetched = this.webSocketService.processTrackPoints(mmsi, rawPoints);
+      const track = fetched.length > 0 ? fetched : this.getLocalTrack(mmsi, trackLimit);
+      const current = this.detailSubject.value;
+      if (current?.vessel.mmsi !== mmsi) return;
+
+      this.drawTrack(vessel, track);
+      this.emit({ ...current, track, portCalls: this.detectPortCalls(track), loading: false });
+    });
+    return true;
+  }
+
+  setTrackLimit(trackLimit: number): void {
+    const current = this.detailSubject.value;
+    if (current) this.open(current.vessel.mmsi, trackLimit);
+  }
+
+  close(): void {
+    this.trackSubscription?.unsubscribe();
+    this.trackSubscription = null;
+    this.trackLayer?.clearLayers();
+    this.emit(null);
+  }
+
+  focusOnPoint(location: [number, number]): void {
+    this.map?.flyTo(location, Math.max(this.map.getZoom(), 14), { duration: 1 });
+  }
+
+  getDestinationChanges(mmsi: number): DestinationChange[] {
+    return [...(this.destinationHistory.get(mmsi) ?? [])].reverse();
+  }
+
+  // Fall back to positions recorded in this browser when the track endpoint has nothing
+  private getLocalTrack(mmsi: number, limit: number): VesselTrackPoint[] {
+    const positions = this.trackingService.getVesselTrack(mmsi)?.positions ?? [];
+    return this.webSocketService.processTrackPoints(mmsi, positions.slice(-limit));
+  }
+
+  // ===================================
+  // ✅ ANALYSIS
+  // ===================================
+
+  // A port call is a run of near-zero speed reports lasting at least MIN_PORT_CALL_MIN
+  private detectPortCalls(track: VesselTrackPoint[]): PortCall[] {
+    const portCalls: PortCall[] = [];
+    const places = this.geofenceService.getGeofences().filter(g => g.type === 'anchorage');
+    let stopStart = -1;
+
+    const closeStop = (endIndex: number, stillThere: boolean) => {
+      const first = track[stopStart];
+      const last = track[endIndex];
+      const durationMin = (last.timestamp.getTime() - first.timestamp.getTime()) / 60000;
+      if (durationMin < this.MIN_PORT_CALL_MIN) return;
+
+      const place = places.find(g => this.geofenceService.isPointInPolygon(first.latitude, first.longitude, g.points));
+      portCalls.push({
+        location: [first.latitude, first.longitude],
+        placeName: place?.name,
+        arrival: first.timestamp,
+        departure: stillThere ? null : last.timestamp,
+        durationMin: Math.round(durationMin)
+      });
+    };
+
+    track.forEach((point, index) => {
+      if (point.speed <= this.STOP_SPEED_KNOTS) {
+        if (stopStart < 0) stopStart = index;
+      } else if (stopStart >= 0) {
+        closeStop(index - 1, false);
+        stopStart = -1;
+      }
+    });
+    if (stopStart >= 0) closeStop(track.length - 1, true);
+
+    return portCalls.reverse();
+  }
+
+  private recordDestinations(vessels: Vessel[]): void {
+    vessels.forEach(vessel => {
+      const destination = vessel.destination?.trim();
+      if (!destination) return;
+
+      const previous = this.lastDestinations.get(vessel.mmsi);
+      if (previous === destination) return;
+      this.lastDestinations.set(vessel.mmsi, destination);
+
+      const history = this.destinationHistory.get(vessel.mmsi) ?? [];
+      history.push({ destination, eta: vessel.eta, changedAt: new Date(vessel.timestamp) });
+      this.destinationHistory.set(vessel.mmsi, history.slice(-this.MAX_DESTINATION_CHANGES));
+
+      // Keep an open drawer in sync
+      const current = this.detailSubject.value;
+      if (previous !== undefined && current?.vessel.mmsi === vessel.mmsi) {
+        this.emit({ ...current, vessel, destinationChanges: this.getDestinationChanges(vessel.mmsi) });
+      }
+    });
+  }
+
+  // ===================================
+  // ✅ MAP LAYER
+  // ===================================
+
+  private drawTrack(vessel: Vessel, track: VesselTrackPoint[]): void {
+    if (!this.trackLayer) return;
+    this.trackLayer.clearLayers();
+
+    const latLngs: [number, number][] = track.map(point => [point.latitude, point.longitude]);
+    latLngs.push([vessel.latitude, vessel.longitude]);
+
+    this.L.polyline(latLngs, {
+      color: '#0ea5e9',
+      weight: 3,
+      opacity: 0.8,
+      dashArray: '6, 4'
+    }).addTo(this.trackLayer);
+
+    track.forEach(point => {
+      this.L.circleMarker([point.latitude, point.longitude], {
+        radius: 3,
+        color: '#0369a1',
+        fillColor: '#ffffff',
+        fillOpacity: 1,
+        weight: 1.5
+      })
+        .bindTooltip(
+          `${point.timestamp.toLocaleString('id-ID')}<br>${point.speed.toFixed(1)} kn · ${Math.round(point.course)}°`,
+          { direction: 'top' }
+        )
+        .addTo(this.trackLayer);
+    });
+
+    if (latLngs.length > 1) {
+      this.map.fitBounds(this.L.latLngBounds(latLngs), { padding: [40, 40], maxZoom: 14 });
+    }
+  }
+
+  // ===================================
+  // ✅ POPUP ACTION
+  // ===================================
+
+  private bindDetailButton(popup: any): void {
+    const container: HTMLElement | undefined = popup.getElement();
+    const button = container?.querySelector<HTMLButtonElement>('[data-action="vessel-details"]');
+    if (!button || button.dataset['bound']) return;
+
+    button.dataset['bound'] = 'true';
+    button.addEventListener('click', () => {
+      const mmsi = Number(button.dataset['mmsi']);
+      this.map.closePopup(popup);
+      this.zone.run(() => this.open(mmsi));
+    });
+  }
+
+  private emit(detail: VesselDetail | null): void {
+    this.zone.run(() => this.detailSubject.next(detail));
+  }
+
+  cleanup(): void {
+    this.close();
+    this.updatesSubscription?.unsubscribe();
+    this.updatesSubscription = null;
+    this.map?.off('popupopen', this.onPopupOpen);
+    if (this.map && this.trackLayer) {
+      this.map.removeLayer(this.trackLayer);
+    }
+    this.trackLayer = null;
+  }
+}
@@ -0,0 +1,220 @@
+// vessel-filter.service.ts - Attribute filters applied to the clustered vessel layer
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { Vessel } from './vessel-websocket.service';
+
+export type VesselFilterLogic = 'and' | 'or';
+
+export type VesselCategory =
+  'cargo' | 'tanker' | 'passenger' | 'fishing' | 'tug' | 'highspeed' | 'pleasure' | 'special' | 'other';
+
+export interface VesselFilter {
+  logic: VesselFilterLogic;
+  categories: VesselCategory[];
+  flags: string[];
+  navStatuses: number[];
+  sources: string[];
+  speedMin: number | null;
+  speedMax: number | null;
+  lengthMin: number | null;
+  lengthMax: number | null;
+  widthMin: number | null;
+  widthMax: number | null;
+  maxAgeMin: number | null;
+}
+
+export interface VesselFilterOptions {
+  flags: string[];
+  sources: string[];
+}
+
+export const VESSEL_CATEGORIES: { value: VesselCategory; label: string; types: [number, number][] }[] = [
+  { value: 'cargo', label: 'Cargo', types: [[70, 79]] },
+  { value: 'tanker', label: 'Tanker', types: [[80, 89]] },
+  { value: 'passenger', label: 'Passenger', types: [[60, 69]] },
+  { value: 'fishing', label: 'Fishing', types: [[30, 30]] },
+  { value: 'tug', label: 'Tug / Towing', types: [[31, 32], [52, 52]] },
+  { value: 'highspeed', label: 'High-speed craft', types: [[40, 49]] },
+  { value: 'pleasure', label: 'Sailing / Pleasure', types: [[36, 37]] },
+  { value: 'special', label: 'Special (pilot, SAR, law enforcement...)', types: [[33, 35], [50, 51], [53, 59]] },
+  { value: 'other', label: 'Other / Unknown', types: [] }
+];
+
+export const NAV_STATUS_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Under way using engine' },
+  { value: 1, label: 'At anchor' },
+  { value: 2, label: 'Not under command' },
+  { value: 3, label: 'Restricted manoeuvrability' },
+  { value: 4, label: 'Constrained by her draught' },
+  { value: 5, label: 'Moored' },
+  { value: 6, label: 'Aground' },
+  { value: 7, label: 'Engaged in fishing' },
+  { value: 8, label: 'Under way sailing' },
+  { value: 15, label: 'Not defined' }
+];
+
+export const DEFAULT_VESSEL_FILTER: VesselFilter = {
+  logic: 'and',
+  categories: [],
+  flags: [],
+  navStatuses: [],
+  sources: [],
+  speedMin: null,
+  speedMax: null,
+  lengthMin: null,
+  lengthMax: null,
+  widthMin: null,
+  widthMax: null,
+  maxAgeMin: null
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class VesselFilterService {
+  private readonly STORAGE_KEY = 'telkomsat-vessel-filter';
+
+  private filterSubject = new BehaviorSubject<VesselFilter>(DEFAULT_VESSEL_FILTER);
+  public filter$ = this.filterSubject.asObservable();
+
+  private matchCountSubject = new BehaviorSubject<{ matching: number; total: number }>({ matching: 0, total: 0 });
+  public matchCount$ = this.matchCountSubject.asObservable();
+
+  constructor() {
+    this.filterSubject.next(this.loadFilter());
+  }
+
+  getFilter(): VesselFilter {
+    return this.filterSubject.value;
+  }
+
+  setFilter(filter: VesselFilter): void {
+    this.filterSubject.next(filter);
+    this.saveFilter(filter);
+  }
+
+  updateFilter(changes: Partial<VesselFilter>): void {
+    this.setFilter({ ...this.filterSubject.value, ...changes });
+  }
+
+  resetFilter(): void {
+    this.setFilter(DEFAULT_VESSEL_FILTER);
+  }
+
+  isActive(filter: VesselFilter = this.filterSubject.value): boolean {
+    return this.getCriteria(filter).length > 0;
+  }
+
+  // ✅ Reported by the marker manager after each index rebuild
+  reportMatchCount(matching: number, total: number): void {
+    this.matchCountSubject.next({ matching, total });
+  }
+
+  // ✅ Build a predicate once per index rebuild instead of re-reading the filter per vessel
+  createPredicate(filter: VesselFilter = this.filterSubject.value): ((vessel: Vessel) => boolean) | null {
+    const criteria = this.getCriteria(filter);
+    if (criteria.length === 0) return null;
+
+    return filter.logic === 'and'
+      ? vessel => criteria.every(test => test(vessel))
+      : vessel => criteria.some(test => test(vessel));
+  }
+
+  getCategory(vesselType: number): VesselCategory {
+    const category = VESSEL_CATEGORIES.find(c =>
+      c.types.some(([min, max]) => vesselType >= min && vesselType <= max)
+    );
+    return category?.value ?? 'other';
+  }
+
+  // ✅ Flags and sources actually present in the cache, for the panel dropdowns
+  getOptions(vessels: Vessel[]): VesselFilterOptions {
+    const flags = new Set<string>();
+    const sources = new Set<string>();
+    vessels.forEach(vessel => {
+      if (vessel.flag) flags.add(vessel.flag);
+      if (vessel.source) sources.add(vessel.source);
+    });
+    return {
+      flags: Array.from(flags).sort(),
+      sources: Array.from(sources).sort()
+    };
+  }
+
+  // Each active criterion becomes one test; empty criteria are ignored
+  private getCriteria(filter: VesselFilter): ((vessel: Vessel) => boolean)[] {
+    const criteria: ((vessel: Vessel) => boolean)[] = [];
+
+    if (filter.categories.length > 0) {
+      const categories = new Set(filter.categories);
+      criteria.push(vessel => categories.has(this.getCategory(vessel.vesselType)));
+    }
+    if (filter.flags.length > 0) {
+      const flags = new Set(filter.flags);
+      criteria.push(vessel => !!vessel.flag && flags.has(vessel.flag));
+    }
+    if (filter.navStatuses.length > 0) {
+      const statuses = new Set(filter.navStatuses);
+      criteria.push(vessel => statuses.has(vessel.navStatus ?? 15));
+    }
+    if (filter.sources.length > 0) {
+      const sources = new Set(filter.sources);
+      criteria.push(vessel => !!vessel.source && sources.has(vessel.source));
+    }
+    if (filter.speedMin !== null || filter.speedMax !== null) {
+      criteria.push(vessel => this.inRange(vessel.speed, filter.speedMin, filter.speedMax));
+    }
+    if (filter.lengthMin !== null || filter.lengthMax !== null) {
+      criteria.push(vessel => this.inRange(this.getLength(vessel), filter.lengthMin, filter.lengthMax));
+    }
+    if (filter.widthMin !== null || filter.widthMax !== null) {
+      criteria.push(vessel => this.inRange(this.getWidth(vessel), filter.widthMin, filter.widthMax));
+    }
+    if (filter.maxAgeMin !== null) {
+      const maxAgeMs = filter.maxAgeMin * 60000;
+      criteria.push(vessel => Date.now() - new Date(vessel.timestamp).getTime() <= maxAgeMs);
+    }
+    return criteria;
+  }
+
+  private inRange(value: number | undefined, min: number | null, max: number | null): boolean {
+    if (value === undefined || value === null || isNaN(value)) return false;
+    return (min === null || value >= min) && (max === null || value <= max);
+  }
+
+  // Dimensions come either flat or as AIS A/B/C/D offsets
+  private getLength(vessel: Vessel): number | undefined {
+    const dimension = vessel.dimension;
+    return vessel.length ?? dimension?.length ??
+      (dimension?.a !== undefined && dimension?.b !== undefined ? dimension.a + dimension.b : undefined);
+  }
+
+  private getWidth(vessel: Vessel): number | undefined {
+    const dimension = vessel.dimension;
+    return vessel.width ?? dimension?.width ??
+      (dimension?.c !== undefined && dimension?.d !== undefined ? dimension.c + dimension.d : undefined);
+  }
+
+  // ===================================
+  // ✅ PERSISTENCE
+  // ===================================
+
+  private saveFilter(filter: VesselFilter): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(filter));
+    } catch (error) {
+      console.error('❌ Failed to save vessel filter:', error);
+    }
+  }
+
+  private loadFilter(): VesselFilter {
+    if (typeof localStorage === 'undefined') return DEFAULT_VESSEL_FILTER;
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? { ...DEFAULT_VESSEL_FILTER, ...JSON.parse(stored) } : DEFAULT_VESSEL_FILTER;
+    } catch (error) {
+      console.error('❌ Failed to load vessel filter:', error);
+      return DEFAULT_VESSEL_FILTER;
+    }
+  }
+}
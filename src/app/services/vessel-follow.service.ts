@@ -0,0 +1,229 @@
+// vessel-follow.service.ts - Camera lock on a selected vessel with live trail and heading-up view
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { VesselWebSocketService, Vessel } from './vessel-websocket.service';
+import { VesselTrackingService } from './vessel-tracking.service';
+
+export interface FollowState {
+  vessel: Vessel | null;
+  headingUp: boolean;
+  headingUpView: HeadingUpView | null;
+  trailPoints: number;
+  trailDistanceNm: number;
+  followingSince: Date | null;
+}
+
+// Trail relative to own ship in nm, rotated so the bow points up (x = starboard, y = ahead)
+export interface HeadingUpView {
+  headingDeg: number;
+  rangeNm: number;
+  trail: [number, number][];
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class VesselFollowService {
+  private map: any;
+  private L: any;
+  private trailLayer: any;
+  private trailLine: any;
+  private trailPositions: [number, number][] = [];
+  private updatesSubscription: Subscription | null = null;
+
+  private readonly MAX_TRAIL_POINTS = 1000;
+  private readonly SEED_TRAIL_MS = 6 * 60 * 60 * 1000; // seed with the last 6h of known positions
+  private readonly HEADING_UP_RANGES_NM = [0.5, 1, 2, 5, 10, 20, 50];
+
+  private stateSubject = new BehaviorSubject<FollowState>({
+    vessel: null,
+    headingUp: false,
+    headingUpView: null,
+    trailPoints: 0,
+    trailDistanceNm: 0,
+    followingSince: null
+  });
+  public state$ = this.stateSubject.asObservable();
+
+  // ✅ A manual pan means the user wants the camera back
+  private onDragStart = () => this.stop();
+  private onPopupOpen = (e: any) => this.bindFollowButton(e.popup);
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private trackingService: VesselTrackingService,
+    private zone: NgZone
+  ) {}
+
+  initialize(map: any, L: any): void {
+    this.map = map;
+    this.L = L;
+    this.trailLayer = L.layerGroup().addTo(map);
+    this.map.on('popupopen', this.onPopupOpen);
+
+    this.updatesSubscription = this.webSocketService.vesselUpdates$.subscribe(() => {
+      const followed = this.stateSubject.value.vessel;
+      if (!followed) return;
+
+      const update = this.webSocketService.getCachedVessel(followed.mmsi);
+      if (update && new Date(update.timestamp).getTime() !== new Date(followed.timestamp).getTime()) {
+        this.onVesselUpdate(update);
+      }
+    });
+
+    console.log('🎥 VesselFollowService initialized');
+  }
+
+  follow(mmsi: number): boolean {
+    const vessel = this.webSocketService.getCachedVessel(mmsi);
+    if (!vessel || !this.map) return false;
+
+    this.stop();
+    this.webSocketService.subscribeToVessel(mmsi);
+    this.map.on('dragstart', this.onDragStart);
+
+    this.seedTrail(vessel);
+    this.map.panTo([vessel.latitude, vessel.longitude], { animate: true });
+    this.updateState({ vessel, followingSince: new Date() });
+
+    console.log(`🎥 Following vessel ${mmsi}`);
+    return true;
+  }
+
+  stop(): void {
+    const followed = this.stateSubject.value.vessel;
+    if (!followed) return;
+
+    this.webSocketService.unsubscribeFromVessel(followed.mmsi);
+    this.map?.off('dragstart', this.onDragStart);
+    this.trailLayer?.clearLayers();
+    this.trailLine = null;
+    this.trailPositions = [];
+    this.updateState({ vessel: null, trailPoints: 0, trailDistanceNm: 0, followingSince: null });
+    console.log(`🎥 Stopped following vessel ${followed.mmsi}`);
+  }
+
+  // The map itself stays north-up; heading-up is drawn as an inset on the follow card
+  setHeadingUp(headingUp: boolean): void {
+    this.updateState({ headingUp });
+  }
+
+  isFollowing(mmsi?: number): boolean {
+    const followed = this.stateSubject.value.vessel;
+    return mmsi === undefined ? !!followed : followed?.mmsi === mmsi;
+  }
+
+  private onVesselUpdate(vessel: Vessel): void {
+    const position: [number, number] = [vessel.latitude, vessel.longitude];
+    const last = this.trailPositions[this.trailPositions.length - 1];
+    if (!last || last[0] !== position[0] || last[1] !== position[1]) {
+      this.trailPositions.push(position);
+      if (this.trailPositions.length > this.MAX_TRAIL_POINTS) this.trailPositions.shift();
+      this.trailLine?.setLatLngs(this.trailPositions);
+    }
+
+    this.map.panTo(position, { animate: true, duration: 0.5 });
+    this.updateState({ vessel });
+  }
+
+  // ===================================
+  // ✅ TRAIL
+  // ===================================
+
+  private seedTrail(vessel: Vessel): void {
+    const cutoff = Date.now() - this.SEED_TRAIL_MS;
+    const known = this.trackingService.getVesselTrack(vessel.mmsi)?.positions ?? [];
+
+    this.trailPositions = known
+      .filter(position => position.timestamp.getTime() >= cutoff)
+      .map(position => [position.latitude, position.longitude] as [number, number])
+      .slice(-this.MAX_TRAIL_POINTS);
+    this.trailPositions.push([vessel.latitude, vessel.longitude]);
+
+    this.trailLayer.clearLayers();
+    this.trailLine = this.L.polyline(this.trailPositions, {
+      color: '#6366F1',
+      weight: 3,
+      opacity: 0.85,
+      lineJoin: 'round',
+      interactive: false
+    }).addTo(this.trailLayer);
+  }
+
+  private getTrailDistanceNm(): number {
+    let meters = 0;
+    for (let i = 1; i < this.trailPositions.length; i++) {
+      const [lat1, lon1] = this.trailPositions[i - 1];
+      const [lat2, lon2] = this.trailPositions[i];
+      meters += this.trackingService.calculateDistance(lat1, lon1, lat2, lon2);
+    }
+    return meters / 1852;
+  }
+
+  // ===================================
+  // ✅ HEADING-UP
+  // ===================================
+
+  private buildHeadingUpView(vessel: Vessel): HeadingUpView {
+    const headingDeg = vessel.heading !== undefined && vessel.heading < 360
+      ? vessel.heading
+      : vessel.course < 360 ? vessel.course : 0;
+    const angle = headingDeg * Math.PI / 180;
+    const cosLat = Math.cos(vessel.latitude * Math.PI / 180);
+
+    let farthestNm = 0;
+    const trail = this.trailPositions.map(([lat, lng]) => {
+      const east = (lng - vessel.longitude) * 60 * cosLat;
+      const north = (lat - vessel.latitude) * 60;
+      const point: [number, number] = [
+        east * Math.cos(angle) - north * Math.sin(angle),
+        east * Math.sin(angle) + north * Math.cos(angle)
+      ];
+      farthestNm = Math.max(farthestNm, Math.hypot(point[0], point[1]));
+      return point;
+    });
+
+    const ranges = this.HEADING_UP_RANGES_NM;
+    return { headingDeg, rangeNm: ranges.find(range => range >= farthestNm) ?? ranges[ranges.length - 1], trail };
+  }
+
+  // ===================================
+  // ✅ POPUP ACTION
+  // ===================================
+
+  private bindFollowButton(popup: any): void {
+    const container: HTMLElement | undefined = popup.getElement();
+    const button = container?.querySelector<HTMLButtonElement>('[data-action="follow-vessel"]');
+    if (!button || button.dataset['bound']) return;
+
+    button.dataset['bound'] = 'true';
+    button.addEventListener('click', () => {
+      const mmsi = Number(button.dataset['mmsi']);
+      this.map.closePopup(popup);
+      this.zone.run(() => this.follow(mmsi));
+    });
+  }
+
+  private updateState(changes: Partial<FollowState>): void {
+    const trailPoints = this.trailPositions.length;
+    const state: FollowState = {
+      ...this.stateSubject.value,
+      trailPoints,
+      trailDistanceNm: trailPoints > 1 ? this.getTrailDistanceNm() : 0,
+      ...changes
+    };
+    state.headingUpView = state.headingUp && state.vessel ? this.buildHeadingUpView(state.vessel) : null;
+    this.zone.run(() => this.stateSubject.next(state));
+  }
+
+  cleanup(): void {
+    this.stop();
+    this.updatesSubscription?.unsubscribe();
+    this.updatesSubscription = null;
+    this.map?.off('popupopen', this.onPopupOpen);
+    if (this.map && this.trailLayer) {
+      this.map.removeLayer(this.trailLayer);
+    }
+    this.trailLayer = null;
+  }
+}
@@ -1,12 +1,13 @@
 import { Injectable } from '@angular/core';
 import { Vessel } from './vessel-websocket.service';
+import { MapCoordinateService } from './map-coordinate.service';
 
 @Injectable({
   providedIn: 'root'
 })
 export class VesselPopupService {
 
-  constructor() {}
+  constructor(private coordinateService: MapCoordinateService) {}
 
   // ✅ GENERATE VESSEL POPUP CONTENT
  public generateVesselPopupContent(vessel: Vessel): string {
@@ -57,7 +58,7 @@ export class VesselPopupService {
         </div>
         <div class="popup-row">
           <span class="label">Position:</span>
-          <span class="value">${vessel.latitude.toFixed(4)}°, ${vessel.longitude.toFixed(4)}°</span>
+          <span class="value">${this.coordinateService.formatPosition(vessel.latitude, vessel.longitude)}</span>
         </div>
         <div class="popup-row">
           <span class="label">Last Update:</span>
@@ -78,8 +79,14 @@ export class VesselPopupService {
         <button class="action-btn" onclick="navigator.clipboard.writeText('${vessel.latitude}, ${vessel.longitude}')">
           📋 Copy Position
         </button>
-        <button class="action-btn" onclick="console.log('Track vessel ${vessel.mmsi}')">
-          🎯 Track Vessel
+        <button class="action-btn" data-action="follow-vessel" data-mmsi="${vessel.mmsi}">
+          🎯 Follow Vessel
+        </button>
+        <button class="action-btn" data-action="vessel-details" data-mmsi="${vessel.mmsi}">
+          📇 Details
+        </button>
+        <button class="action-btn" data-action="ebl-vrm" data-mmsi="${vessel.mmsi}">
+          📡 EBL/VRM
         </button>
       </div>
     </div>
@@ -0,0 +1,137 @@
+// vessel-search.service.ts - Fuzzy typeahead over vessels, VTS stations and AtoN
+import { Injectable } from '@angular/core';
+import { VesselWebSocketService } from './vessel-websocket.service';
+import { VtsService } from './vts.service';
+import { AtonService } from './aton.service';
+
+export type SearchResultType = 'vessel' | 'vts' | 'aton';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string; // mmsi for vessels, station id for VTS/AtoN
+  label: string;
+  detail: string;
+  latitude: number;
+  longitude: number;
+  score: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class VesselSearchService {
+  private readonly MIN_QUERY_LENGTH = 2;
+  private readonly MIN_SCORE = 20;
+
+  constructor(
+    private webSocketService: VesselWebSocketService,
+    private vtsService: VtsService,
+    private atonService: AtonService
+  ) {}
+
+  search(query: string, limit = 10): SearchResult[] {
+    const normalized = this.normalize(query);
+    if (normalized.length < this.MIN_QUERY_LENGTH) return [];
+
+    const results: SearchResult[] = [];
+
+    this.webSocketService.getAllCachedVessels().forEach(vessel => {
+      const score = Math.max(
+        this.scoreText(normalized, vessel.name),
+        this.scoreText(normalized, vessel.callSign),
+        this.scoreNumber(normalized, String(vessel.mmsi)),
+        this.scoreNumber(normalized, vessel.imo)
+      );
+      if (score < this.MIN_SCORE) return;
+
+      results.push({
+        type: 'vessel',
+        id: String(vessel.mmsi),
+        label: vessel.name || `MMSI ${vessel.mmsi}`,
+        detail: [`MMSI ${vessel.mmsi}`, vessel.imo ? `IMO ${vessel.imo}` : '', vessel.callSign || '']
+          .filter(Boolean)
+          .join(' • '),
+        latitude: vessel.latitude,
+        longitude: vessel.longitude,
+        score
+      });
+    });
+
+    this.vtsService.getCurrentVtsData().forEach(vts => {
+      const score = Math.max(this.scoreText(normalized, vts.name), this.scoreNumber(normalized, vts.mmsi));
+      if (score < this.MIN_SCORE) return;
+      results.push({
+        type: 'vts',
+        id: vts.id,
+        label: vts.name,
+        detail: `VTS • MMSI ${vts.mmsi}`,
+        latitude: vts.latitude,
+        longitude: vts.longitude,
+        score
+      });
+    });
+
+    this.atonService.getCurrentAtonData().forEach(aton => {
+      const score = Math.max(this.scoreText(normalized, aton.name), this.scoreNumber(normalized, aton.mmsi));
+      if (score < this.MIN_SCORE) return;
+      results.push({
+        type: 'aton',
+        id: aton.id,
+        label: aton.name,
+        detail: `AtoN • MMSI ${aton.mmsi}`,
+        latitude: aton.latitude,
+        longitude: aton.longitude,
+        score
+      });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+      .slice(0, limit);
+  }
+
+  // ✅ Exact > prefix > word prefix > substring > in-order subsequence
+  private scoreText(query: string, value?: string): number {
+    if (!value) return 0;
+    const text = this.normalize(value);
+    if (!text) return 0;
+
+    if (text === query) return 100;
+    if (text.startsWith(query)) return 90 - Math.min(text.length - query.length, 20) / 2;
+    if (text.split(' ').some(word => word.startsWith(query))) return 75;
+
+    const index = text.indexOf(query);
+    if (index >= 0) return 60 - Math.min(index, 20) / 2;
+
+    return this.scoreSubsequence(query, text);
+  }
+
+  // Identifiers are matched from the start only - "123" shouldn't hit every MMSI containing it
+  private scoreNumber(query: string, value?: string | number): number {
+    if (value === undefined || value === null || value === '') return 0;
+    const text = String(value).replace(/\D/g, '');
+    const digits = query.replace(/\s/g, '');
+    if (!/^\d+$/.test(digits) || !text) return 0;
+
+    if (text === digits) return 100;
+    if (text.startsWith(digits)) return 80 + Math.min(digits.length, 9);
+    return 0;
+  }
+
+  // Characters in order with gaps, e.g. "kptmn" → "KAPAL TIMUN"
+  private scoreSubsequence(query: string, text: string): number {
+    let position = 0;
+    let gaps = 0;
+    for (const char of query.replace(/\s/g, '')) {
+      const found = text.indexOf(char, position);
+      if (found < 0) return 0;
+      gaps += found - position;
+      position = found + 1;
+    }
+    return Math.max(this.MIN_SCORE, 45 - gaps * 2);
+  }
+
+  private normalize(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+}
@@ -4,6 +4,8 @@ import { Subscription, BehaviorSubject } from 'rxjs';
 import { OptimizedMarkerManager, LoadingState, ViewportSettings } from './optimized-marker-manager';
 import { VesselPopupService } from './vessel-pop-up.service';
 import { VesselWebSocketService, Vessel, ConnectionStats } from './vessel-websocket.service';
+import { VesselTrackingService } from './vessel-tracking.service';
+import { VesselFilterService } from './vessel-filter.service';
 
 export interface VesselServiceStats {
   totalVessels: number;
@@ -42,6 +44,7 @@ export class VesselService implements OnDestroy {
   private connectionStatusSubscription!: Subscription;
   private connectionStatsSubscription!: Subscription;
   private loadingCompleteSubscription!: Subscription;
+  private filterSubscription: Subscription | null = null;
   
   // ✅ MEMORY OPTIMIZED MARKER MANAGER
   private optimizedManager: OptimizedMarkerManager | null = null;
@@ -91,6 +94,8 @@ export class VesselService implements OnDestroy {
   constructor(
     private webSocketService: VesselWebSocketService,
     private vesselPopupService: VesselPopupService,
+    private trackingService: VesselTrackingService,
+    private vesselFilterService: VesselFilterService,
     private zone: NgZone
   ) {
     console.log('🛰️ VesselService constructor - Memory optimized with data aging');
@@ -377,6 +382,11 @@ export class VesselService implements OnDestroy {
           });
         });
 
+        // ✅ Feed persistent track history
+        if (freshVessels.length > 0) {
+          this.trackingService.updateVesselPositions(freshVessels);
+        }
+
         // ✅ Log results
         if (agedVessels.length > 0) {
           console.log(`🕒 Filtered out ${agedVessels.length} aged vessels from incoming data`);
@@ -598,6 +608,15 @@ export class VesselService implements OnDestroy {
 
     // ✅ Set popup service
     this.optimizedManager.setPopupService(this.vesselPopupService);
+
+    // ✅ Attribute filter from the filter panel narrows the cluster index
+    this.optimizedManager.setFilterListener((matching, total) =>
+      this.vesselFilterService.reportMatchCount(matching, total)
+    );
+    this.filterSubscription?.unsubscribe();
+    this.filterSubscription = this.vesselFilterService.filter$.subscribe(filter =>
+      this.optimizedManager?.setVesselFilter(this.vesselFilterService.createPredicate(filter))
+    );
     
     // ✅ MEMORY SAFE configuration
     this.optimizedManager.setSettings({
@@ -857,7 +876,7 @@ export class VesselService implements OnDestroy {
     return parts.join(' • ');
   }
 
-  private getVesselIconColor(vessel: Vessel): string {
+  public getVesselIconColor(vessel: Pick<Vessel, 'vesselType'>): string {
     const vesselType = vessel.vesselType;
     if (vesselType >= 80 && vesselType <= 89) return 'tanker';
     if (vesselType >= 70 && vesselType <= 79) return 'cargo';
@@ -894,6 +913,33 @@ export class VesselService implements OnDestroy {
       .map(cache => cache.vessel);
   }
 
+  // ✅ NEW: Fly to a vessel and open its popup once the viewport has re-rendered
+  public focusOnVessel(mmsi: number, zoom = 15): boolean {
+    const vessel = this.vesselDataCache.get(mmsi)?.vessel ?? this.webSocketService.getCachedVessel(mmsi);
+    if (!vessel || !this.map) return false;
+
+    const position: [number, number] = [vessel.latitude, vessel.longitude];
+    this.map.flyTo(position, Math.max(this.map.getZoom(), zoom), { duration: 1 });
+
+    this.map.once('moveend', () => {
+      // Marker manager re-renders on a throttle after moveend
+      setTimeout(() => {
+        const marker = this.optimizedManager?.getVisibleMarker(mmsi);
+        if (marker) {
+          marker.openPopup();
+        } else {
+          this.L.popup(this.vesselPopupService.getPopupOptions('vessel'))
+            .setLatLng(position)
+            .setContent(this.vesselPopupService.generateVesselPopupContent(vessel))
+            .openOn(this.map);
+        }
+      }, 400);
+    });
+
+    console.log(`🎯 Focusing on vessel ${mmsi}`);
+    return true;
+  }
+
   // ✅ COMPREHENSIVE MEMORY SAFE CLEANUP
   public cleanup(): void {
     console.log('🚀 Starting VesselService cleanup - Memory optimized with data aging...');
@@ -917,6 +963,9 @@ export class VesselService implements OnDestroy {
     
     // ✅ NEW: Clear vessel data cache
     this.vesselDataCache.clear();
+
+    this.filterSubscription?.unsubscribe();
+    this.filterSubscription = null;
     
     // ✅ Unsubscribe from WebSocket events
     if (this.vesselUpdatesSubscription) {
@@ -1,6 +1,8 @@
-import { Injectable } from '@angular/core';
+import { Injectable, Inject, PLATFORM_ID, OnDestroy } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
 import { BehaviorSubject } from 'rxjs';
 import { Vessel } from './vessel-websocket.service';
+import { TrackHistoryStoreService, StoredVesselTrack } from './track-history-store.service';
 
 export interface VesselPosition {
   mmsi: number;
@@ -8,6 +10,7 @@ export interface VesselPosition {
   longitude: number;
   timestamp: Date;
   heading?: number;
+  course?: number;
   speed?: number;
 }
 
@@ -34,18 +37,51 @@ export interface VesselTrack {
 @Injectable({
   providedIn: 'root'
 })
-export class VesselTrackingService {
+export class VesselTrackingService implements OnDestroy {
   private vesselPositions: Map<number, VesselPosition> = new Map();
   private vesselTracks: Map<number, VesselTrack> = new Map(); // ✅ ADD: Missing property
   private movementSubject = new BehaviorSubject<VesselMovement[]>([]);
+  private historyRestoredSubject = new BehaviorSubject<boolean>(false);
   
   public vesselMovements$ = this.movementSubject.asObservable();
+  public historyRestored$ = this.historyRestoredSubject.asObservable();
   
   private readonly MIN_MOVEMENT_DISTANCE = 20; // 20 meters minimum
-  private readonly MAX_TRACK_POINTS = 50; // Maximum positions to store per vessel
+  private readonly MAX_TRACK_POINTS = 2000; // Hard cap per vessel, the time window trims first
 
-  constructor() {
+  // ✅ PERSISTENT HISTORY: time window + IndexedDB flush
+  private readonly HISTORY_WINDOW_STORAGE_KEY = 'vesselTrackHistoryWindowHours';
+  private readonly DEFAULT_HISTORY_WINDOW_HOURS = 24;
+  private readonly PERSIST_INTERVAL = 30000; // 30 seconds
+  private historyWindowMs = this.DEFAULT_HISTORY_WINDOW_HOURS * 60 * 60 * 1000;
+  private dirtyTracks: Set<number> = new Set();
+  private persistTimer: any = null;
+  private readonly isBrowser: boolean;
+
+  constructor(
+    @Inject(PLATFORM_ID) platformId: Object,
+    private historyStore: TrackHistoryStoreService
+  ) {
+    this.isBrowser = isPlatformBrowser(platformId);
     console.log('🛤️ VesselTrackingService initialized');
+
+    if (this.isBrowser) {
+      this.historyWindowMs = this.loadHistoryWindowSetting() * 60 * 60 * 1000;
+      this.restoreHistory();
+      this.persistTimer = setInterval(() => this.persistHistory(), this.PERSIST_INTERVAL);
+      document.addEventListener('visibilitychange', this.onVisibilityChange);
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.persistTimer) {
+      clearInterval(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (this.isBrowser) {
+      document.removeEventListener('visibilitychange', this.onVisibilityChange);
+      this.persistHistory();
+    }
   }
 
   // ✅ UPDATE VESSEL POSITIONS and detect movements
@@ -73,6 +109,7 @@ export class VesselTrackingService {
       longitude: vessel.longitude,
       timestamp: new Date(vessel.timestamp),
       heading: vessel.heading,
+      course: vessel.course,
       speed: vessel.speed
     };
 
@@ -93,6 +130,7 @@ export class VesselTrackingService {
         averageSpeed: vessel.speed || 0
       };
       this.vesselTracks.set(mmsi, track);
+      this.dirtyTracks.add(mmsi);
       
       return {
         mmsi: mmsi,
@@ -127,19 +165,16 @@ export class VesselTrackingService {
         // Add to positions history
         track.positions.push(newPosition);
         
-        // Keep only recent positions
-        if (track.positions.length > this.MAX_TRACK_POINTS) {
-          track.positions = track.positions.slice(-this.MAX_TRACK_POINTS);
-        }
+        // Keep only positions inside the history window
+        track.positions = this.trimToWindow(track.positions);
         
         // Calculate average speed
         track.averageSpeed = this.calculateAverageSpeed(track.positions);
         
         this.vesselTracks.set(mmsi, track);
+        this.dirtyTracks.add(mmsi);
       }
       
-      console.log(`🚢 Vessel ${mmsi} moved ${distance.toFixed(1)}m`);
-      
       return {
         mmsi: mmsi,
         previousPosition: previousPosition,
@@ -186,8 +221,8 @@ export class VesselTrackingService {
     return Array.from(this.vesselTracks.values()).filter(track => track.isMoving);
   }
 
-  // ✅ CALCULATE DISTANCE using Haversine formula
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  // ✅ CALCULATE DISTANCE using Haversine formula (meters)
+  public calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
     const R = 6371000; // Earth's radius in meters
     const dLat = this.toRadians(lat2 - lat1);
     const dLon = this.toRadians(lon2 - lon1);
@@ -262,15 +297,18 @@ export class VesselTrackingService {
       averageSpeed: movingVessels.reduce((sum, track) => sum + track.averageSpeed, 0) / movingVessels.length || 0,
       totalDistance: tracks.reduce((sum, track) => sum + track.totalDistance, 0),
       minMovementDistance: this.MIN_MOVEMENT_DISTANCE,
-      maxTrackPoints: this.MAX_TRACK_POINTS
+      maxTrackPoints: this.MAX_TRACK_POINTS,
+      historyWindowHours: this.getHistoryWindowHours()
     };
   }
 
-  // ✅ CLEAR TRACKING DATA
+  // ✅ CLEAR TRACKING DATA (memory and persisted history)
   public clearTrackingData(): void {
     this.vesselPositions.clear();
     this.vesselTracks.clear();
+    this.dirtyTracks.clear();
     this.movementSubject.next([]);
+    this.historyStore.clear();
     console.log('🧹 Vessel tracking data cleared');
   }
 
@@ -278,9 +316,140 @@ export class VesselTrackingService {
   public clearVesselTrack(mmsi: number): void {
     this.vesselPositions.delete(mmsi);
     this.vesselTracks.delete(mmsi);
+    this.dirtyTracks.delete(mmsi);
+    this.historyStore.deleteTracks([mmsi]);
     console.log(`🧹 Cleared track for vessel ${mmsi}`);
   }
 
+  // ===================================
+  // ✅ PERSISTENT HISTORY
+  // ===================================
+
+  public getHistoryWindowHours(): number {
+    return this.historyWindowMs / (60 * 60 * 1000);
+  }
+
+  // ✅ Change retention window; shrinking it prunes memory and IndexedDB on next flush
+  public setHistoryWindow(hours: number): void {
+    if (!(hours > 0)) return;
+
+    this.historyWindowMs = hours * 60 * 60 * 1000;
+    if (this.isBrowser) {
+      localStorage.setItem(this.HISTORY_WINDOW_STORAGE_KEY, hours.toString());
+    }
+
+    this.vesselTracks.forEach((track, mmsi) => {
+      const trimmed = this.trimToWindow(track.positions);
+      if (trimmed.length !== track.positions.length) {
+        track.positions = trimmed;
+        this.dirtyTracks.add(mmsi);
+      }
+    });
+    console.log(`🔧 Track history window set to ${hours}h`);
+  }
+
+  // ✅ Write changed tracks to IndexedDB and drop tracks that fell out of the window
+  public async persistHistory(): Promise<void> {
+    if (!this.isBrowser) return;
+
+    const expired = this.pruneExpiredTracks();
+    const changed: StoredVesselTrack[] = [];
+
+    this.dirtyTracks.forEach(mmsi => {
+      const track = this.vesselTracks.get(mmsi);
+      if (track) {
+        changed.push({
+          mmsi,
+          positions: track.positions,
+          totalDistance: track.totalDistance,
+          updatedAt: Date.now()
+        });
+      }
+    });
+    this.dirtyTracks.clear();
+
+    await Promise.all([
+      this.historyStore.saveTracks(changed),
+      this.historyStore.deleteTracks(expired)
+    ]);
+
+    if (changed.length > 0 || expired.length > 0) {
+      console.log(`💾 Track history persisted: ${changed.length} saved, ${expired.length} expired`);
+    }
+  }
+
+  private async restoreHistory(): Promise<void> {
+    const storedTracks = await this.historyStore.loadAll();
+    let restoredCount = 0;
+
+    storedTracks.forEach(stored => {
+      const positions = this.trimToWindow(
+        stored.positions.map(position => ({ ...position, timestamp: new Date(position.timestamp) }))
+      );
+      if (positions.length === 0) return;
+
+      const existing = this.vesselTracks.get(stored.mmsi);
+      if (existing) {
+        // Live data arrived before the restore finished - prepend older history
+        const firstLive = existing.positions[0].timestamp.getTime();
+        existing.positions = this.trimToWindow([
+          ...positions.filter(position => position.timestamp.getTime() < firstLive),
+          ...existing.positions
+        ]);
+        existing.totalDistance += stored.totalDistance;
+        this.dirtyTracks.add(stored.mmsi);
+      } else {
+        const currentPosition = positions[positions.length - 1];
+        this.vesselTracks.set(stored.mmsi, {
+          mmsi: stored.mmsi,
+          positions,
+          currentPosition,
+          previousPosition: positions.length > 1 ? positions[positions.length - 2] : undefined,
+          isMoving: false,
+          totalDistance: stored.totalDistance,
+          averageSpeed: this.calculateAverageSpeed(positions)
+        });
+        this.vesselPositions.set(stored.mmsi, currentPosition);
+      }
+      restoredCount++;
+    });
+
+    this.historyRestoredSubject.next(true);
+    console.log(`🛤️ Restored track history for ${restoredCount} vessels (${this.getHistoryWindowHours()}h window)`);
+  }
+
+  private pruneExpiredTracks(): number[] {
+    const expired: number[] = [];
+    const cutoff = Date.now() - this.historyWindowMs;
+
+    this.vesselTracks.forEach((track, mmsi) => {
+      if (track.currentPosition.timestamp.getTime() < cutoff) {
+        this.vesselTracks.delete(mmsi);
+        this.vesselPositions.delete(mmsi);
+        this.dirtyTracks.delete(mmsi);
+        expired.push(mmsi);
+      }
+    });
+    return expired;
+  }
+
+  private trimToWindow(positions: VesselPosition[]): VesselPosition[] {
+    const cutoff = Date.now() - this.historyWindowMs;
+    const recent = positions.filter(position => position.timestamp.getTime() >= cutoff);
+    return recent.length > this.MAX_TRACK_POINTS ? recent.slice(-this.MAX_TRACK_POINTS) : recent;
+  }
+
+  private loadHistoryWindowSetting(): number {
+    const stored = parseFloat(localStorage.getItem(this.HISTORY_WINDOW_STORAGE_KEY) || '');
+    return stored > 0 ? stored : this.DEFAULT_HISTORY_WINDOW_HOURS;
+  }
+
+  private onVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.persistHistory();
+    }
+  };
+
   // ✅ UPDATE TRACKING SETTINGS
   public updateMinMovementDistance(distance: number): void {
     // Note: MIN_MOVEMENT_DISTANCE is readonly, but we can create a setter if needed
@@ -1,6 +1,6 @@
 // src/services/vessel-websocket.service.ts - COMPLETE with fixed parsing
 import { Injectable, OnDestroy } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpParams } from '@angular/common/http';
 import { BehaviorSubject, Observable, fromEvent, of, timer } from 'rxjs';
 import { io, Socket } from 'socket.io-client';
 import { catchError, map, timeout, tap } from 'rxjs/operators';
@@ -72,6 +72,17 @@ export interface Vessel {
   source?: string;
 }
 
+// ✅ Historical track point (normalized from REST track endpoint)
+export interface VesselTrackPoint {
+  mmsi: number;
+  latitude: number;
+  longitude: number;
+  course: number;
+  speed: number;
+  heading?: number;
+  timestamp: Date;
+}
+
 export interface ConnectionStats {
   connected: boolean;
   clientId?: string;
@@ -733,6 +744,66 @@ export class VesselWebSocketService implements OnDestroy {
       );
   }
 
+  /**
+   * 🕰️ GET VESSEL TRACK FOR A DATE RANGE via REST API
+   */
+  public getVesselTrackByRange(mmsi: number, startDate: Date, endDate: Date, limit: number = 5000): Observable<VesselTrackPoint[]> {
+    console.log(`🕰️ Getting vessel track for MMSI ${mmsi} (${startDate.toISOString()} → ${endDate.toISOString()})`);
+
+    const params = new HttpParams()
+      .set('startDate', startDate.toISOString())
+      .set('endDate', endDate.toISOString())
+      .set('limit', limit.toString());
+
+    return this.http.get<any>(`${this.BACKEND_API_URL}/ais-data/track/${mmsi}`, { params })
+      .pipe(
+        timeout(20000),
+        map(response => {
+          if (response.success && Array.isArray(response.data)) {
+            const points = this.processTrackPoints(mmsi, response.data)
+              .filter(point => point.timestamp >= startDate && point.timestamp <= endDate);
+            console.log(`✅ Retrieved ${points.length} track points for vessel ${mmsi} in range`);
+            return points;
+          }
+          return [];
+        }),
+        catchError(error => {
+          console.error(`❌ Failed to get vessel track range for ${mmsi}:`, error);
+          return of([]);
+        })
+      );
+  }
+
+  /**
+   * 🔄 PROCESS TRACK POINTS - Normalize raw track rows, oldest first
+   */
+  public processTrackPoints(mmsi: number, rawPoints: any[]): VesselTrackPoint[] {
+    if (!Array.isArray(rawPoints)) return [];
+
+    return rawPoints
+      .map(tp => {
+        // AIS heading 511 means "not available"
+        const heading = tp.heading != null ? parseFloat(tp.heading) : NaN;
+        return {
+          mmsi,
+          latitude: parseFloat(tp.latitude ?? tp.lat),
+          longitude: parseFloat(tp.longitude ?? tp.lon),
+          course: parseFloat(tp.course ?? tp.cog) || 0,
+          speed: parseFloat(tp.speed ?? tp.sog) || 0,
+          heading: heading >= 0 && heading < 360 ? heading : undefined,
+          timestamp: new Date(tp.timestamp || tp.lastUpdated || tp.data_date)
+        };
+      })
+      .filter(point =>
+        !isNaN(point.latitude) &&
+        !isNaN(point.longitude) &&
+        !isNaN(point.timestamp.getTime()) &&
+        point.latitude >= -90 && point.latitude <= 90 &&
+        point.longitude >= -180 && point.longitude <= 180
+      )
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
   /**
    * 🎯 FETCH SPECIFIC VESSELS via REST API
    */
@@ -0,0 +1,15 @@
+// date-range.ts - Date picker range helpers shared by playback and track history
+
+// ✅ Date pickers give midnight values - an end date at 00:00 means "whole day"; never past now
+export function normalizeDateRange(startDate: Date, endDate: Date): { start: Date; end: Date } {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+
+  if (end.getHours() === 0 && end.getMinutes() === 0 && end.getSeconds() === 0) {
+    end.setHours(23, 59, 59, 999);
+  }
+  if (end.getTime() > Date.now()) {
+    end.setTime(Date.now());
+  }
+  return { start, end };
+}
@@ -0,0 +1,11 @@
+// escape-html.ts - Escaping for user text placed into popup/tooltip HTML and XML exports
+
+// ✅ Covers element content and both quote styles of attribute values
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}